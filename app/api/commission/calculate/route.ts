@@ -0,0 +1,4 @@
+// Mock of the backend endpoint for development, see app/lib/mockApi.ts
+import { mockRouteHandler } from '../../../lib/mockApi';
+
+export const POST = mockRouteHandler;
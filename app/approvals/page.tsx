@@ -0,0 +1,154 @@
+'use client';
+import { useState } from 'react';
+import Link from 'next/link';
+import { AppError, Entry, EntryStatus } from '../lib/types';
+import { changeStatuses, entriesWithStatus } from '../lib/approval';
+import { validateRejectionReason } from '../lib/validation';
+import { useHistory } from '../hooks/useHistory';
+import { useI18n } from '../components/I18nProvider';
+import { useSession } from '../components/SessionProvider';
+interface QueueSection {
+  /** Entries listed in the section */
+  status: EntryStatus;
+  title: 'approvals.submitted' | 'approvals.approved';
+}
+export default function Approvals() {
+  const { entries, updateEntries } = useHistory();
+  const { user, can } = useSession();
+  const { t, te, currency, dateTime } = useI18n();
+  const [selected, setSelected] = useState<Set<string>>(() => new Set());
+  const [reason, setReason] = useState('');
+  const [reasonError, setReasonError] = useState<AppError | null>(null);
+  const [done, setDone] = useState<{ count: number; status: EntryStatus } | null>(null);
+  const sections: QueueSection[] = [
+    ...(can('approve') ? [{ status: 'submitted' as const, title: 'approvals.submitted' as const }] : []),
+    ...(can('markPaid') ? [{ status: 'approved' as const, title: 'approvals.approved' as const }] : [])
+  ];
+  const select = (ids: string[], isSelected: boolean) =>
+    setSelected(prev => {
+      const next = new Set(prev);
+      for (const id of ids) {
+        if (isSelected) next.add(id);
+        else next.delete(id);
+      }
+      return next;
+    });
+  const apply = (targets: Entry[], status: EntryStatus, rejectionReason?: string) => {
+    if (!user) return;
+    const changed = changeStatuses(targets, status, user, rejectionReason);
+    if (changed.length === 0) return;
+    updateEntries(changed);
+    select(changed.map(entry => entry.id), false);
+    setDone({ count: changed.length, status });
+  };
+  const handleReject = (targets: Entry[]) => {
+    const error = validateRejectionReason(reason);
+    setReasonError(error);
+    if (error) return;
+    apply(targets, 'rejected', reason);
+    setReason('');
+  };
+  return (
+    <div className="calculator-container report-container">
+      <Link href="/" className="back-link">{t('common.backToCalculator')}</Link>
+      <h1 className="calculator-title">{t('approvals.title')}</h1>
+      <p className="text-muted">{t('approvals.description')}</p>
+      {done && (
+        <div className="info-message" role="status">
+          {t('approvals.done', { count: done.count, status: t(`status.${done.status}` as const) })}
+        </div>
+      )}
+      {sections.map(({ status, title }) => {
+        const queue = entriesWithStatus(entries, status);
+        const chosen = queue.filter(entry => selected.has(entry.id));
+        const allChosen = queue.length > 0 && chosen.length === queue.length;
+        return (
+          <section key={status} className="approvals-section">
+            <div className="history-header">
+              <span className="history-title">{t(title, { count: queue.length })}</span>
+            </div>
+            {queue.length === 0 ? (
+              <p className="empty-state-text">{t('approvals.empty')}</p>
+            ) : (
+              <>
+                <div className="approvals-actions">
+                  {status === 'submitted' ? (
+                    <>
+                      <button className="btn-clear-all btn-import" onClick={() => apply(chosen, 'approved')} disabled={chosen.length === 0}>
+                        {t('approvals.approve', { count: chosen.length })}
+                      </button>
+                      <div className="approvals-reason">
+                        <label className="form-label" htmlFor="approvals-reason">{t('approvals.reason')}</label>
+                        <input
+                          id="approvals-reason"
+                          className={`form-input ${reasonError ? 'input-error' : ''}`}
+                          placeholder={t('approvals.reasonPlaceholder')}
+                          value={reason}
+                          onChange={(e) => {
+                            setReason(e.target.value);
+                            if (reasonError) setReasonError(null);
+                          }}
+                        />
+                        {reasonError && <div className="field-error-message" role="alert">{te(reasonError)}</div>}
+                      </div>
+                      <button className="btn-clear-all" onClick={() => handleReject(chosen)} disabled={chosen.length === 0}>
+                        {t('approvals.reject', { count: chosen.length })}
+                      </button>
+                    </>
+                  ) : (
+                    <button className="btn-clear-all btn-import" onClick={() => apply(chosen, 'paid')} disabled={chosen.length === 0}>
+                      {t('approvals.markPaid', { count: chosen.length })}
+                    </button>
+                  )}
+                </div>
+                <table className="results-table report-table">
+                  <thead>
+                    <tr>
+                      <th>
+                        <input
+                          type="checkbox"
+                          aria-label={t('approvals.selectAll')}
+                          checked={allChosen}
+                          onChange={(e) => select(queue.map(entry => entry.id), e.target.checked)}
+                        />
+                      </th>
+                      <th>{t('common.entryNo')}</th>
+                      <th>{t('common.employeeName')}</th>
+                      <th>{t('form.salesDate')}</th>
+                      <th>{t('common.sales')}</th>
+                      <th>{t('common.commission')}</th>
+                      <th>{t('approvals.lastChange')}</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {queue.map((entry) => {
+                      const last = entry.statusHistory?.at(-1);
+                      return (
+                        <tr key={entry.id}>
+                          <td>
+                            <input
+                              type="checkbox"
+                              aria-label={t('approvals.select', { id: entry.number })}
+                              checked={selected.has(entry.id)}
+                              onChange={(e) => select([entry.id], e.target.checked)}
+                            />
+                          </td>
+                          <td>{entry.number}</td>
+                          <td>{entry.name}</td>
+                          <td>{entry.date}</td>
+                          <td>{currency(entry.sales)}</td>
+                          <td>{currency(entry.commission)}</td>
+                          <td>{last ? `${last.name} · ${dateTime(last.changedAt)}` : ''}</td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </>
+            )}
+          </section>
+        );
+      })}
+    </div>
+  );
+}
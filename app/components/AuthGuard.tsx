@@ -0,0 +1,35 @@
+'use client';
+import { useEffect } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter } from 'next/navigation';
+import { loginPath, routeAccess } from '../lib/auth';
+import { useI18n } from './I18nProvider';
+import { useSession } from './SessionProvider';
+/**
+ * Shows a page only to users whose role may open it; visitors without a
+ * session are sent to the login page and come back afterwards
+ */
+export default function AuthGuard({ children }: { children: React.ReactNode }) {
+  const { user, status } = useSession();
+  const { t } = useI18n();
+  const pathname = usePathname();
+  const router = useRouter();
+  const access = status === 'loading' ? null : routeAccess(user, pathname);
+  useEffect(() => {
+    if (access === 'signIn') router.replace(loginPath(pathname));
+  }, [access, pathname, router]);
+  if (access === 'allowed') return <>{children}</>;
+  if (access === 'forbidden' && user) {
+    return (
+      <div className="calculator-container">
+        <Link href="/" className="back-link">{t('common.backToCalculator')}</Link>
+        <p className="empty-state-text">{t('auth.forbidden', { role: t(`auth.role.${user.role}` as const) })}</p>
+      </div>
+    );
+  }
+  return (
+    <div className="calculator-container">
+      <p className="empty-state-text">{t('auth.checking')}</p>
+    </div>
+  );
+}
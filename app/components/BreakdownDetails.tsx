@@ -0,0 +1,75 @@
+'use client';
+import { CommissionPlan } from '../lib/plan';
+import { Entry } from '../lib/types';
+import { useI18n } from './I18nProvider';
+/**
+ * Unit price times quantity of each item and the commission of each tier,
+ * adding up to the entry's sales and commission
+ */
+export default function BreakdownDetails({ entry, plan }: { entry: Entry; plan: CommissionPlan }) {
+  const { t, currency, number } = useI18n();
+  const { breakdown } = entry;
+  if (!breakdown) return <p className="breakdown-unavailable">{t('breakdown.unavailable')}</p>;
+  return (
+    <div className="breakdown">
+      <table className="breakdown-table">
+        <caption>{t('breakdown.items')}</caption>
+        <thead>
+          <tr>
+            <th scope="col">{t('breakdown.item')}</th>
+            <th scope="col">{t('breakdown.quantity')}</th>
+            <th scope="col">{t('breakdown.unitPrice')}</th>
+            <th scope="col">{t('breakdown.amount')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {breakdown.items.map(({ item, quantity, unitPrice, amount }) => (
+            <tr key={item}>
+              <th scope="row">{plan.items[item].label}</th>
+              <td>{number(quantity)}</td>
+              <td>× {currency(unitPrice)}</td>
+              <td>{currency(amount)}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr>
+            <th scope="row" colSpan={3}>{t('common.sales')}</th>
+            <td>{currency(entry.sales)}</td>
+          </tr>
+        </tfoot>
+      </table>
+      <table className="breakdown-table">
+        <caption>{t('breakdown.tiers')}</caption>
+        <thead>
+          <tr>
+            <th scope="col">{t('breakdown.range')}</th>
+            <th scope="col">{t('breakdown.salesInTier')}</th>
+            <th scope="col">{t('breakdown.rate')}</th>
+            <th scope="col">{t('common.commission')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {breakdown.tiers.map(slice => (
+            <tr key={slice.from}>
+              <th scope="row">
+                {slice.upTo === null
+                  ? t('breakdown.rangeAbove', { from: currency(slice.from) })
+                  : t('breakdown.rangeUpTo', { from: currency(slice.from), upTo: currency(slice.upTo) })}
+              </th>
+              <td>{currency(slice.sales)}</td>
+              <td>× {number(slice.rate * 100)}%</td>
+              <td>{currency(slice.commission)}</td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr>
+            <th scope="row" colSpan={3}>{t('common.commission')}</th>
+            <td>{currency(entry.commission)}</td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+import { useState } from 'react';
+import {
+  AcceptedRow,
+  ImportReport,
+  RejectedRow,
+  IMPORT_COLUMNS,
+  IMPORT_DATE_COLUMN,
+  readImportFile,
+  rowsFromTable,
+  validateImportRows
+} from '../lib/import';
+import { BatchProgress } from '../lib/api';
+import { CommissionPlan } from '../lib/plan';
+import { LocalizedError } from '../lib/i18n';
+import { useI18n } from './I18nProvider';
+interface BulkImportProps {
+  plan: CommissionPlan;
+  disabled: boolean;
+  /** Rows answered so far while the accepted rows are being calculated */
+  progress: BatchProgress | null;
+  /** Resolves to the rows refused while calculating, e.g. employees outside the user's team */
+  onSubmit: (rows: AcceptedRow[]) => Promise<RejectedRow[]>;
+}
+export default function BulkImport({ plan, disabled, progress, onSubmit }: BulkImportProps) {
+  const [fileName, setFileName] = useState('');
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const { t, tm, te } = useI18n();
+  const [fileError, setFileError] = useState('');
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setReport(null);
+    setFileError('');
+    try {
+      const rows = rowsFromTable(await readImportFile(file));
+      setReport(validateImportRows(rows, plan));
+    } catch (error) {
+      if (error instanceof LocalizedError) setFileError(tm(error.detail));
+      else setFileError(error instanceof Error ? error.message : t('import.unreadable'));
+    }
+  };
+  const handleSubmit = async () => {
+    if (!report || report.accepted.length === 0) return;
+    const refused = await onSubmit(report.accepted);
+    setReport({ accepted: [], rejected: [...report.rejected, ...refused].sort((a, b) => a.line - b.line) });
+  };
+  return (
+    <div className="bulk-import">
+      <div className="history-header">
+        <span className="history-title">{t('import.title')}</span>
+        <label className="btn-clear-all btn-import">
+          {t('import.chooseFile')}
+          <input
+            type="file"
+            accept=".csv,text/csv"
+            hidden
+            disabled={disabled}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+      <p className="text-muted">
+        {t('import.columns', { columns: IMPORT_COLUMNS.join(', '), dateColumn: IMPORT_DATE_COLUMN })}
+      </p>
+      {fileError && <div className="field-error-message">{fileName} : {fileError}</div>}
+      {report && (
+        <div className="bulk-import-report">
+          <div className="bulk-import-summary">
+            <span>{fileName}</span>
+            <span>{t('import.accepted', { count: report.accepted.length })}</span>
+            <span className={report.rejected.length > 0 ? 'error-text' : ''}>
+              {t('import.rejected', { count: report.rejected.length })}
+            </span>
+          </div>
+          {report.rejected.length > 0 && (
+            <table className="results-table bulk-import-errors">
+              <thead>
+                <tr>
+                  <th>{t('import.line')}</th>
+                  <th>{t('common.employeeName')}</th>
+                  <th>{t('import.errors')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rejected.map((row) => (
+                  <tr key={row.line}>
+                    <td>{row.line}</td>
+                    <td>{row.name}</td>
+                    <td className="error-text">{row.errors.map(te).join(', ')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {report.accepted.length > 0 && (
+            <div className="button-group">
+              <button className="btn btn-calculate" onClick={handleSubmit} disabled={disabled}>
+                {disabled ? t('form.calculating') : t('import.calculateRows', { count: report.accepted.length })}
+              </button>
+            </div>
+          )}
+          {progress && (
+            <div className="bulk-import-progress" role="status">
+              <progress max={progress.total} value={progress.done} />
+              <span>{t('import.progress', { done: progress.done, total: progress.total })}</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
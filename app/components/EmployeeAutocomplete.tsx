@@ -0,0 +1,105 @@
+'use client';
+import { useId, useState } from 'react';
+import { Employee } from '../lib/types';
+import { displayName, findEmployeeByName, searchEmployees } from '../lib/employees';
+interface EmployeeAutocompleteProps {
+  value: string;
+  employees: Employee[];
+  onChange: (name: string, employee?: Employee) => void;
+  id?: string;
+  /** id of the error message, set while the value is invalid */
+  errorId?: string;
+  className?: string;
+  placeholder?: string;
+  disabled?: boolean;
+}
+export default function EmployeeAutocomplete({
+  value,
+  employees,
+  onChange,
+  id,
+  errorId,
+  className,
+  placeholder,
+  disabled
+}: EmployeeAutocompleteProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const suggestions = isOpen ? searchEmployees(employees, value) : [];
+  // id ของรายการสร้างจาก id ของช่อง จึงไม่ชนกันเมื่อมีหลายช่องในหน้าเดียว
+  const generatedId = useId();
+  const listId = `${id ?? generatedId}-suggestions`;
+  const optionId = (index: number) => `${listId}-${index}`;
+  const select = (employee: Employee) => {
+    onChange(displayName(employee), employee);
+    setIsOpen(false);
+  };
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => (index + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => (index - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      select(suggestions[activeIndex] ?? suggestions[0]);
+    } else if (e.key === 'Escape') {
+      // ปิดรายการเท่านั้น ไม่ให้ไปล้างฟอร์ม
+      e.preventDefault();
+      setIsOpen(false);
+    }
+  };
+  return (
+    <div className="autocomplete">
+      <input
+        id={id}
+        type="text"
+        role="combobox"
+        aria-expanded={suggestions.length > 0}
+        aria-controls={suggestions.length > 0 ? listId : undefined}
+        aria-activedescendant={suggestions.length > 0 ? optionId(activeIndex) : undefined}
+        aria-autocomplete="list"
+        aria-invalid={errorId ? true : undefined}
+        aria-describedby={errorId}
+        className={className}
+        placeholder={placeholder}
+        value={value}
+        onChange={(e) => {
+          // ชื่อที่พิมพ์ตรงกับทะเบียนพนักงานพอดี ให้ผูกรหัสพนักงานอัตโนมัติ
+          onChange(e.target.value, findEmployeeByName(employees, e.target.value));
+          setActiveIndex(0);
+          setIsOpen(true);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={() => setIsOpen(false)}
+        disabled={disabled}
+        autoComplete="off"
+      />
+      {suggestions.length > 0 && (
+        <ul id={listId} role="listbox" className="autocomplete-list">
+          {suggestions.map((employee, index) => (
+            <li
+              key={employee.id}
+              id={optionId(index)}
+              role="option"
+              aria-selected={index === activeIndex}
+              className={`autocomplete-option ${index === activeIndex ? 'autocomplete-option-active' : ''}`}
+              // ใช้ onMouseDown เพื่อเลือกก่อนที่ input จะ blur
+              onMouseDown={(e) => {
+                e.preventDefault();
+                select(employee);
+              }}
+            >
+              <span>{employee.nameTh}</span>
+              <span className="autocomplete-option-meta">
+                {employee.nameEn} · {employee.team} · {employee.id}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
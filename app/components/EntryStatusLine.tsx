@@ -0,0 +1,20 @@
+'use client';
+import { rejectionOf, statusOf } from '../lib/approval';
+import { Entry } from '../lib/types';
+import { useI18n } from './I18nProvider';
+/**
+ * Approval status of an entry, who set it, and why it was rejected
+ */
+export default function EntryStatusLine({ entry }: { entry: Entry }) {
+  const { t, dateTime } = useI18n();
+  const status = statusOf(entry);
+  const label = t(`status.${status}` as const);
+  const last = entry.statusHistory?.at(-1);
+  const rejection = rejectionOf(entry);
+  return (
+    <div className={`history-item-status status-${status}`} title={last ? dateTime(last.changedAt) : undefined}>
+      {last?.status === status ? t('history.statusBy', { status: label, name: last.name }) : label}
+      {rejection?.reason && ` · ${t('history.reason', { reason: rejection.reason })}`}
+    </div>
+  );
+}
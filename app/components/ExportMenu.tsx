@@ -0,0 +1,53 @@
+'use client';
+import Link from 'next/link';
+import { ClosedPeriod, Entry } from '../lib/types';
+import { downloadCsv, downloadXlsx } from '../lib/export';
+import { CommissionPlan } from '../lib/plan';
+import { TargetProgress } from '../lib/targets';
+import { useI18n } from './I18nProvider';
+interface ExportMenuProps {
+  entries: Entry[];
+  fileName: string;
+  disabled?: boolean;
+  showReport?: boolean;
+  /** Targets of the exported employees and months, for the attainment columns */
+  progresses?: TargetProgress[];
+  /** Closed months and the plan previewing the open ones, for the XLSX summary */
+  closedPeriods?: ClosedPeriod[];
+  plan?: CommissionPlan;
+}
+export default function ExportMenu({
+  entries,
+  fileName,
+  disabled,
+  showReport,
+  progresses,
+  closedPeriods,
+  plan
+}: ExportMenuProps) {
+  const { locale } = useI18n();
+  const isEmpty = entries.length === 0;
+  return (
+    <div className="export-menu">
+      <button
+        className="btn-export"
+        onClick={() => downloadCsv(entries, fileName, locale, progresses)}
+        disabled={disabled || isEmpty}
+      >
+        CSV
+      </button>
+      <button
+        className="btn-export"
+        onClick={() => downloadXlsx(entries, fileName, locale, progresses, closedPeriods, plan)}
+        disabled={disabled || isEmpty}
+      >
+        XLSX
+      </button>
+      {showReport && (
+        <Link href="/report" className="btn-export">
+          PDF
+        </Link>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+'use client';
+import { HistoryQuery, VALIDITY_FILTERS, ValidityFilter, isFiltered } from '../lib/historyQuery';
+import { useI18n } from './I18nProvider';
+interface HistoryFiltersProps {
+  query: HistoryQuery;
+  onChange: (changes: Partial<HistoryQuery>) => void;
+  onClear: () => void;
+  /** Entries matching the filters, and all entries */
+  shown: number;
+  total: number;
+}
+const amountOf = (value: string) => (value === '' ? undefined : Number(value));
+export default function HistoryFilters({ query, onChange, onClear, shown, total }: HistoryFiltersProps) {
+  const { t } = useI18n();
+  return (
+    <div className="history-filters" role="search">
+      <div className="history-filter history-filter-search">
+        <label className="form-label" htmlFor="filter-search">{t('filters.search')}</label>
+        <input
+          id="filter-search"
+          type="search"
+          className="form-input"
+          placeholder={t('filters.searchPlaceholder')}
+          value={query.search}
+          onChange={(e) => onChange({ search: e.target.value })}
+        />
+      </div>
+      <div className="history-filter">
+        <label className="form-label" htmlFor="filter-validity">{t('filters.validity')}</label>
+        <select
+          id="filter-validity"
+          className="form-input"
+          value={query.validity}
+          onChange={(e) => onChange({ validity: e.target.value as ValidityFilter })}
+        >
+          {VALIDITY_FILTERS.map(validity => (
+            <option key={validity} value={validity}>{t(`filters.validity.${validity}` as const)}</option>
+          ))}
+        </select>
+      </div>
+      <div className="history-filter">
+        <label className="form-label" htmlFor="filter-from">{t('filters.from')}</label>
+        <input
+          id="filter-from"
+          type="date"
+          className="form-input"
+          value={query.from ?? ''}
+          onChange={(e) => onChange({ from: e.target.value || undefined })}
+        />
+      </div>
+      <div className="history-filter">
+        <label className="form-label" htmlFor="filter-to">{t('filters.to')}</label>
+        <input
+          id="filter-to"
+          type="date"
+          className="form-input"
+          value={query.to ?? ''}
+          onChange={(e) => onChange({ to: e.target.value || undefined })}
+        />
+      </div>
+      <div className="history-filter">
+        <label className="form-label" htmlFor="filter-min-commission">{t('filters.minCommission')}</label>
+        <input
+          id="filter-min-commission"
+          type="number"
+          min={0}
+          className="form-input"
+          value={query.minCommission ?? ''}
+          onChange={(e) => onChange({ minCommission: amountOf(e.target.value) })}
+        />
+      </div>
+      <div className="history-filter">
+        <label className="form-label" htmlFor="filter-max-commission">{t('filters.maxCommission')}</label>
+        <input
+          id="filter-max-commission"
+          type="number"
+          min={0}
+          className="form-input"
+          value={query.maxCommission ?? ''}
+          onChange={(e) => onChange({ maxCommission: amountOf(e.target.value) })}
+        />
+      </div>
+      <div className="history-filters-summary">
+        <span aria-live="polite">{t('filters.showing', { shown, total })}</span>
+        {isFiltered(query) && (
+          <button className="btn-clear-all" onClick={onClear}>{t('filters.clear')}</button>
+        )}
+      </div>
+    </div>
+  );
+}
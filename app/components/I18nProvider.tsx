@@ -0,0 +1,57 @@
+'use client';
+import { createContext, useContext, useState } from 'react';
+import { errorMessage } from '../lib/errors';
+import {
+  Locale,
+  Message,
+  MessageKey,
+  MessageParams,
+  formatCurrency,
+  formatDate,
+  formatDateTime,
+  formatMessage,
+  formatNumber,
+  storeLocale,
+  translate
+} from '../lib/i18n';
+import { AppError } from '../lib/types';
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  tm: (message: Message) => string;
+  te: (error: AppError) => string;
+  currency: (value: number) => string;
+  number: (value: number) => string;
+  dateTime: (iso: string) => string;
+  date: (date: Date) => string;
+}
+const I18nContext = createContext<I18nContextValue | null>(null);
+/**
+ * Current language with translation and formatting helpers bound to it
+ */
+export function useI18n(): I18nContextValue {
+  const value = useContext(I18nContext);
+  if (!value) throw new Error('useI18n must be used inside <I18nProvider>');
+  return value;
+}
+export default function I18nProvider({ initialLocale, children }: { initialLocale: Locale; children: React.ReactNode }) {
+  const [locale, setLocaleState] = useState(initialLocale);
+  const setLocale = (next: Locale) => {
+    storeLocale(next);
+    document.documentElement.lang = next;
+    setLocaleState(next);
+  };
+  const value: I18nContextValue = {
+    locale,
+    setLocale,
+    t: (key, params) => translate(locale, key, params),
+    tm: (message) => formatMessage(locale, message),
+    te: (error) => formatMessage(locale, errorMessage(error)),
+    currency: (amount) => formatCurrency(amount, locale),
+    number: (amount) => formatNumber(amount, locale),
+    dateTime: (iso) => formatDateTime(iso, locale),
+    date: (date) => formatDate(date, locale)
+  };
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
@@ -0,0 +1,21 @@
+'use client';
+import { LOCALES } from '../lib/i18n';
+import { useI18n } from './I18nProvider';
+export default function LanguageSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+  return (
+    <div className="language-switcher no-print" role="group" aria-label={t('language.label')}>
+      {LOCALES.map((option) => (
+        <button
+          key={option}
+          className={`btn-export ${option === locale ? 'btn-export-active' : ''}`}
+          onClick={() => setLocale(option)}
+          aria-pressed={option === locale}
+          lang={option}
+        >
+          {t(`language.${option}` as const)}
+        </button>
+      ))}
+    </div>
+  );
+}
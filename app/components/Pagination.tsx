@@ -0,0 +1,24 @@
+'use client';
+import { useI18n } from './I18nProvider';
+interface PaginationProps {
+  page: number;
+  pageCount: number;
+  onChange: (page: number) => void;
+  /** Names the list the pager belongs to, for screen readers */
+  label: string;
+}
+export default function Pagination({ page, pageCount, onChange, label }: PaginationProps) {
+  const { t } = useI18n();
+  if (pageCount <= 1) return null;
+  return (
+    <nav className="pagination" aria-label={label}>
+      <button className="btn-export" onClick={() => onChange(page - 1)} disabled={page <= 1}>
+        {t('pagination.previous')}
+      </button>
+      <span className="pagination-page">{t('pagination.page', { page, count: pageCount })}</span>
+      <button className="btn-export" onClick={() => onChange(page + 1)} disabled={page >= pageCount}>
+        {t('pagination.next')}
+      </button>
+    </nav>
+  );
+}
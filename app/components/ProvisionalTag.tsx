@@ -0,0 +1,15 @@
+'use client';
+import { useI18n } from './I18nProvider';
+/**
+ * Marks commission figures that still include open months, previewed from
+ * the month close instead of read from it
+ */
+export default function ProvisionalTag({ provisional }: { provisional: boolean }) {
+  const { t } = useI18n();
+  if (!provisional) return null;
+  return (
+    <span className="provisional-tag" title={t('common.provisionalHint')}>
+      {t('common.provisional')}
+    </span>
+  );
+}
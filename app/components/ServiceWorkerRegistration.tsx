@@ -0,0 +1,12 @@
+'use client';
+import { useEffect } from 'react';
+import { registerServiceWorker } from '../lib/pwa';
+/**
+ * Registers the service worker once the page has loaded
+ */
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    void registerServiceWorker();
+  }, []);
+  return null;
+}
@@ -0,0 +1,82 @@
+'use client';
+import { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { fetchSession, login, logout, setUnauthorizedHandler } from '../lib/api';
+import { Permission, can as hasPermission, loadStoredSession, storeSession } from '../lib/auth';
+import { appError } from '../lib/errors';
+import { AppError, User } from '../lib/types';
+export type SessionStatus = 'loading' | 'signedIn' | 'signedOut';
+interface SessionContextValue {
+  user: User | null;
+  status: SessionStatus;
+  /** Returns the errors to show, empty on success */
+  signIn: (username: string, password: string) => Promise<AppError[]>;
+  signOut: () => Promise<void>;
+  can: (permission: Permission) => boolean;
+}
+const SessionContext = createContext<SessionContextValue | null>(null);
+/**
+ * Signed-in user and role checks
+ */
+export function useSession(): SessionContextValue {
+  const value = useContext(SessionContext);
+  if (!value) throw new Error('useSession must be used inside <SessionProvider>');
+  return value;
+}
+/**
+ * Checks the session cookie with the API on load. `initialUser` skips the
+ * check, e.g. in tests.
+ */
+export default function SessionProvider({ initialUser, children }: { initialUser?: User | null; children: React.ReactNode }) {
+  const [user, setUserState] = useState<User | null>(initialUser ?? null);
+  const [status, setStatus] = useState<SessionStatus>(
+    initialUser === undefined ? 'loading' : initialUser ? 'signedIn' : 'signedOut'
+  );
+  const setUser = useCallback((next: User | null) => {
+    storeSession(next);
+    setUserState(next);
+    setStatus(next ? 'signedIn' : 'signedOut');
+  }, []);
+  useEffect(() => {
+    if (initialUser !== undefined) return;
+    fetchSession().then((response) => {
+      if (response.success && response.data) {
+        setUser(response.data);
+        return;
+      }
+      // มีแค่ 401 ที่แปลว่าเซสชันหมดอายุ
+      if (response.status === 401) {
+        setUser(null);
+        return;
+      }
+      // ออฟไลน์หรือเซิร์ฟเวอร์ขัดข้อง ใช้ผู้ใช้ที่เข้าสู่ระบบครั้งล่าสุดไปก่อน
+      const stored = loadStoredSession();
+      setUserState(stored);
+      setStatus(stored ? 'signedIn' : 'signedOut');
+    });
+  }, [initialUser, setUser]);
+  useEffect(() => {
+    // API ตอบ 401 ระหว่างใช้งาน: จบเซสชัน แล้ว AuthGuard จะพาไปหน้าเข้าสู่ระบบ
+    setUnauthorizedHandler(() => setUser(null));
+    return () => setUnauthorizedHandler(null);
+  }, [setUser]);
+  const signIn = async (username: string, password: string) => {
+    const response = await login({ username: username.trim(), password });
+    if (response.success && response.data) {
+      setUser(response.data);
+      return [];
+    }
+    return response.errors ?? [appError('UNKNOWN_SERVER_ERROR')];
+  };
+  const signOut = async () => {
+    await logout();
+    setUser(null);
+  };
+  const value: SessionContextValue = {
+    user,
+    status,
+    signIn,
+    signOut,
+    can: (permission) => hasPermission(user, permission)
+  };
+  return <SessionContext.Provider value={value}>{children}</SessionContext.Provider>;
+}
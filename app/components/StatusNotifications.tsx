@@ -0,0 +1,46 @@
+'use client';
+import { useState } from 'react';
+import { loadNotificationsSeenAt, saveNotificationsSeenAt, statusNotifications } from '../lib/approval';
+import { Entry } from '../lib/types';
+import { useI18n } from './I18nProvider';
+import { useSession } from './SessionProvider';
+const MAX_SHOWN = 5;
+/**
+ * Status changes other users made to the given entries since the signed-in
+ * user last marked them as read
+ */
+export default function StatusNotifications({ entries }: { entries: Entry[] }) {
+  const { user } = useSession();
+  const { t, dateTime } = useI18n();
+  const [readAt, setReadAt] = useState<Record<string, string>>({});
+  if (!user) return null;
+  const seenAt = readAt[user.id] ?? loadNotificationsSeenAt(user.id);
+  const notifications = statusNotifications(entries, user, seenAt);
+  if (notifications.length === 0) return null;
+  const handleMarkRead = () => {
+    const newest = notifications[0].change.changedAt;
+    saveNotificationsSeenAt(user.id, newest);
+    setReadAt(prev => ({ ...prev, [user.id]: newest }));
+  };
+  return (
+    <div className="status-notifications" role="status">
+      <div className="status-notifications-header">
+        <span>{t('notifications.title', { count: notifications.length })}</span>
+        <button className="btn-clear-all" onClick={handleMarkRead}>{t('notifications.markRead')}</button>
+      </div>
+      <ul>
+        {notifications.slice(0, MAX_SHOWN).map(({ entry, change }) => (
+          <li key={`${entry.id}-${change.changedAt}`} className={`status-${change.status}`} title={dateTime(change.changedAt)}>
+            {t('notifications.change', {
+              id: entry.number,
+              name: entry.name,
+              status: t(`status.${change.status}` as const),
+              by: change.name
+            })}
+            {change.reason && ` · ${t('history.reason', { reason: change.reason })}`}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
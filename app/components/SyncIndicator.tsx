@@ -0,0 +1,25 @@
+'use client';
+import { SyncStatus } from '../hooks/useHistory';
+import { useI18n } from './I18nProvider';
+interface SyncIndicatorProps {
+  status: SyncStatus;
+  pendingCount: number;
+  /** Offline calculations waiting for the server */
+  outboxCount?: number;
+  isReplaying?: boolean;
+}
+export default function SyncIndicator({ status, pendingCount, outboxCount = 0, isReplaying = false }: SyncIndicatorProps) {
+  const { t } = useI18n();
+  return (
+    <div className={`sync-indicator sync-${status}`}>
+      <span className="sync-dot" />
+      {t(`sync.${status}`)}
+      {pendingCount > 0 && status !== 'syncing' && ` ${t('sync.pendingCount', { count: pendingCount })}`}
+      {outboxCount > 0 && (
+        <span className="sync-outbox">
+          {isReplaying ? t('sync.replaying', { count: outboxCount }) : t('sync.outboxCount', { count: outboxCount })}
+        </span>
+      )}
+    </div>
+  );
+}
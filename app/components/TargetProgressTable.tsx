@@ -0,0 +1,45 @@
+'use client';
+import { TargetProgress, attainmentPercent, targetId } from '../lib/targets';
+import { useI18n } from './I18nProvider';
+interface TargetProgressTableProps {
+  progresses: TargetProgress[];
+  /** Leave out the name column on pages about one employee */
+  showName?: boolean;
+}
+/**
+ * Sales against the target per employee and month, with the attainment and
+ * accelerator bonus; rows at 100% or more are highlighted
+ */
+export default function TargetProgressTable({ progresses, showName = true }: TargetProgressTableProps) {
+  const { t, currency, number } = useI18n();
+  return (
+    <table className="results-table report-table">
+      <thead>
+        <tr>
+          {showName && <th>{t('common.employeeName')}</th>}
+          <th>{t('targets.period')}</th>
+          <th>{t('common.totalSales')}</th>
+          <th>{t('targets.target')}</th>
+          <th>{t('targets.attainment')}</th>
+          <th>{t('targets.bonus')}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {progresses.map((progress) => (
+          <tr key={targetId(progress.target)} className={progress.attained ? 'target-attained' : undefined}>
+            {showName && <td>{progress.target.name}</td>}
+            <td>{progress.target.period}</td>
+            <td>{currency(progress.sales)}</td>
+            <td>{currency(progress.target.target)}</td>
+            <td>
+              <span className="target-attainment">
+                {t('targets.attainmentValue', { percent: number(attainmentPercent(progress)) })}
+              </span>
+            </td>
+            <td>{currency(progress.bonus)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,33 @@
+'use client';
+import { useEffect } from 'react';
+import { LastAction } from '../hooks/useHistory';
+import { useI18n } from './I18nProvider';
+interface UndoToastProps {
+  lastAction: LastAction | null;
+  onUndo: () => void;
+  onRedo: () => void;
+  onDismiss: () => void;
+}
+const TOAST_DURATION_MS = 6000;
+export default function UndoToast({ lastAction, onUndo, onRedo, onDismiss }: UndoToastProps) {
+  const { t } = useI18n();
+  useEffect(() => {
+    if (!lastAction) return;
+    const timer = setTimeout(onDismiss, TOAST_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [lastAction, onDismiss]);
+  if (!lastAction) return null;
+  const { action, undone } = lastAction;
+  const affected = action.after.length > 0 ? action.after : action.before;
+  const params = { count: affected.length, id: affected[0]?.number ?? 0 };
+  const message = affected.length === 1 ? t(`undo.${action.kind}`, params) : t(`undo.${action.kind}Many`, params);
+  return (
+    <div className="undo-toast" role="status">
+      <span>{undone ? t('undo.undone', { message }) : message}</span>
+      <button className="undo-toast-action" onClick={undone ? onRedo : onUndo}>
+        {undone ? t('history.redo') : t('history.undo')}
+      </button>
+      <button className="undo-toast-close" onClick={onDismiss} aria-label={t('common.close')}>×</button>
+    </div>
+  );
+}
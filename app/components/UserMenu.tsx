@@ -0,0 +1,14 @@
+'use client';
+import { useI18n } from './I18nProvider';
+import { useSession } from './SessionProvider';
+export default function UserMenu() {
+  const { user, signOut } = useSession();
+  const { t } = useI18n();
+  if (!user) return null;
+  return (
+    <div className="user-menu no-print">
+      <span className="user-menu-name">{t('auth.signedInAs', { name: user.name, role: t(`auth.role.${user.role}` as const) })}</span>
+      <button className="btn-export" onClick={() => void signOut()}>{t('auth.signOut')}</button>
+    </div>
+  );
+}
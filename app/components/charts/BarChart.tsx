@@ -0,0 +1,80 @@
+'use client';
+export interface BarSeries {
+  label: string;
+  color: string;
+  values: number[];
+}
+interface BarChartProps {
+  labels: string[];
+  series: BarSeries[];
+  formatValue?: (value: number) => string;
+  height?: number;
+}
+const WIDTH = 600;
+const PADDING = { top: 16, right: 8, bottom: 36, left: 8 };
+/**
+ * Grouped vertical bar chart rendered as inline SVG
+ */
+export default function BarChart({ labels, series, formatValue = String, height = 220 }: BarChartProps) {
+  const max = Math.max(1, ...series.flatMap(s => s.values));
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+  const groupWidth = plotWidth / Math.max(labels.length, 1);
+  const barWidth = Math.min(32, (groupWidth * 0.8) / Math.max(series.length, 1));
+  // แสดง label แกน x ไม่เกิน ~12 ตัว ป้องกันตัวอักษรซ้อนกัน
+  const labelStep = Math.ceil(labels.length / 12);
+  return (
+    <figure className="chart">
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} role="img" aria-label={series.map(s => s.label).join(', ')}>
+        <line
+          x1={PADDING.left}
+          x2={WIDTH - PADDING.right}
+          y1={PADDING.top + plotHeight}
+          y2={PADDING.top + plotHeight}
+          className="chart-axis"
+        />
+        {labels.map((label, i) => {
+          const groupX = PADDING.left + i * groupWidth + (groupWidth - barWidth * series.length) / 2;
+          return (
+            <g key={label}>
+              {series.map((s, j) => {
+                const barHeight = (s.values[i] / max) * plotHeight;
+                return (
+                  <rect
+                    key={s.label}
+                    x={groupX + j * barWidth}
+                    y={PADDING.top + plotHeight - barHeight}
+                    width={barWidth - 2}
+                    height={barHeight}
+                    fill={s.color}
+                    rx={2}
+                  >
+                    <title>{`${label} · ${s.label} : ${formatValue(s.values[i])}`}</title>
+                  </rect>
+                );
+              })}
+              {i % labelStep === 0 && (
+                <text
+                  x={PADDING.left + i * groupWidth + groupWidth / 2}
+                  y={height - PADDING.bottom + 16}
+                  textAnchor="middle"
+                  className="chart-label"
+                >
+                  {label}
+                </text>
+              )}
+            </g>
+          );
+        })}
+      </svg>
+      <figcaption className="chart-legend">
+        {series.map(s => (
+          <span key={s.label}>
+            <span className="chart-swatch" style={{ background: s.color }} />
+            {s.label}
+          </span>
+        ))}
+      </figcaption>
+    </figure>
+  );
+}
@@ -0,0 +1,52 @@
+'use client';
+export interface DonutSlice {
+  label: string;
+  value: number;
+  color: string;
+}
+interface DonutChartProps {
+  slices: DonutSlice[];
+  formatValue?: (value: number) => string;
+}
+const RADIUS = 60;
+const CIRCUMFERENCE = 2 * Math.PI * RADIUS;
+/**
+ * Donut chart with a legend showing each slice's share, rendered as inline SVG
+ */
+export default function DonutChart({ slices, formatValue = String }: DonutChartProps) {
+  const total = slices.reduce((sum, slice) => sum + slice.value, 0);
+  const offsets = slices.map((_, i) => slices.slice(0, i).reduce((sum, s) => sum + s.value, 0));
+  const share = (value: number) => (total > 0 ? (value / total) * 100 : 0);
+  return (
+    <figure className="chart chart-donut">
+      <svg viewBox="0 0 160 160" role="img" aria-label={slices.map(s => `${s.label} ${share(s.value).toFixed(1)}%`).join(', ')}>
+        <circle cx="80" cy="80" r={RADIUS} className="chart-donut-track" />
+        {total > 0 &&
+          slices.map((slice, i) => (
+            <circle
+              key={slice.label}
+              cx="80"
+              cy="80"
+              r={RADIUS}
+              fill="none"
+              stroke={slice.color}
+              strokeWidth="24"
+              strokeDasharray={`${(slice.value / total) * CIRCUMFERENCE} ${CIRCUMFERENCE}`}
+              strokeDashoffset={-(offsets[i] / total) * CIRCUMFERENCE}
+              transform="rotate(-90 80 80)"
+            >
+              <title>{`${slice.label} : ${formatValue(slice.value)}`}</title>
+            </circle>
+          ))}
+      </svg>
+      <figcaption className="chart-legend chart-legend-column">
+        {slices.map(slice => (
+          <span key={slice.label}>
+            <span className="chart-swatch" style={{ background: slice.color }} />
+            {slice.label} · {formatValue(slice.value)} ({share(slice.value).toFixed(1)}%)
+          </span>
+        ))}
+      </figcaption>
+    </figure>
+  );
+}
@@ -0,0 +1,142 @@
+'use client';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { CommissionPlan, DEFAULT_PLAN, ITEM_KEYS, loadActivePlan } from '../lib/plan';
+import { TrendGranularity, dashboardTotals, leaderboard, salesSplit, trend } from '../lib/stats';
+import { periodOf, todayIso } from '../lib/periods';
+import { targetProgresses } from '../lib/targets';
+import { useHistory } from '../hooks/useHistory';
+import { useTargets } from '../hooks/useTargets';
+import { useClosedPeriods } from '../hooks/useClosedPeriods';
+import { useI18n } from '../components/I18nProvider';
+import TargetProgressTable from '../components/TargetProgressTable';
+import ProvisionalTag from '../components/ProvisionalTag';
+import BarChart from '../components/charts/BarChart';
+import DonutChart from '../components/charts/DonutChart';
+const ITEM_COLORS = { locks: '#22c55e', stocks: '#3b82f6', barrels: '#f59e0b' };
+export default function Dashboard() {
+  const { entries } = useHistory();
+  const { targets } = useTargets();
+  const { closedPeriods } = useClosedPeriods();
+  const { t, currency } = useI18n();
+  const [plan, setPlan] = useState<CommissionPlan>(DEFAULT_PLAN);
+  const [granularity, setGranularity] = useState<TrendGranularity>('day');
+  useEffect(() => {
+    loadActivePlan().then(setPlan);
+  }, []);
+  const totals = dashboardTotals(entries, closedPeriods, plan);
+  const leaders = leaderboard(entries, closedPeriods, plan);
+  const split = salesSplit(entries, plan);
+  const points = trend(entries, granularity);
+  const thisMonth = periodOf(todayIso());
+  const monthProgress = targetProgresses(targets.filter(target => target.period === thisMonth), entries);
+  return (
+    <div className="calculator-container report-container">
+      <Link href="/" className="back-link">{t('common.backToCalculator')}</Link>
+      <h1 className="calculator-title">{t('dashboard.title')}</h1>
+      <div className="summary-cards">
+        <div className="summary-card">
+          <span className="summary-card-label">{t('common.totalSales')}</span>
+          <span className="summary-card-value">{currency(totals.sales)}</span>
+        </div>
+        <div className="summary-card">
+          <span className="summary-card-label">{t('common.totalCommission')}</span>
+          <span className="summary-card-value">{currency(totals.commission)}</span>
+          <ProvisionalTag provisional={totals.provisional} />
+        </div>
+        <div className="summary-card">
+          <span className="summary-card-label">{t('dashboard.invalidToValid')}</span>
+          <span className="summary-card-value">
+            {totals.invalidCount} : {totals.validCount}
+          </span>
+          <span className="summary-card-label">
+            {t('dashboard.invalidRatio', { percent: (totals.invalidRatio * 100).toFixed(1) })}
+          </span>
+        </div>
+      </div>
+      {entries.length === 0 ? (
+        <p className="empty-state-text">{t('common.emptyHistory')}</p>
+      ) : (
+        <>
+          <section className="dashboard-section">
+            <div className="history-header">
+              <span className="history-title">{t('dashboard.trend')}</span>
+              <div className="export-menu">
+                <button
+                  className={`btn-export ${granularity === 'day' ? 'btn-export-active' : ''}`}
+                  onClick={() => setGranularity('day')}
+                >
+                  {t('dashboard.daily')}
+                </button>
+                <button
+                  className={`btn-export ${granularity === 'month' ? 'btn-export-active' : ''}`}
+                  onClick={() => setGranularity('month')}
+                >
+                  {t('dashboard.monthly')}
+                </button>
+              </div>
+            </div>
+            <BarChart
+              labels={points.map(point => point.key)}
+              series={[
+                { label: t('common.sales'), color: '#22c55e', values: points.map(point => point.sales) },
+                { label: t('common.commission'), color: '#3b82f6', values: points.map(point => point.commission) }
+              ]}
+              formatValue={currency}
+            />
+          </section>
+          <section className="dashboard-section">
+            <span className="history-title">{t('dashboard.salesByItem')}</span>
+            <DonutChart
+              slices={ITEM_KEYS.map(key => ({ label: plan.items[key].label, value: split[key], color: ITEM_COLORS[key] }))}
+              formatValue={currency}
+            />
+          </section>
+          <section className="dashboard-section">
+            <span className="history-title">{t('dashboard.validity')}</span>
+            <DonutChart
+              slices={[
+                { label: t('dashboard.valid'), value: totals.validCount, color: '#22c55e' },
+                { label: t('dashboard.invalid'), value: totals.invalidCount, color: '#ef4444' }
+              ]}
+            />
+          </section>
+          <section className="dashboard-section">
+            <span className="history-title">{t('dashboard.leaderboard')}</span>
+            <table className="results-table report-table">
+              <thead>
+                <tr>
+                  <th>{t('dashboard.rank')}</th>
+                  <th>{t('common.employeeName')}</th>
+                  <th>{t('common.entries')}</th>
+                  <th>{t('common.sales')}</th>
+                  <th>{t('common.commission')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {leaders.map((leader, index) => (
+                  <tr key={leader.name}>
+                    <td>{index + 1}</td>
+                    <td>{leader.name}</td>
+                    <td>{leader.entries}</td>
+                    <td>{currency(leader.sales)}</td>
+                    <td>
+                      {currency(leader.commission)}
+                      <ProvisionalTag provisional={leader.provisional} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+          {monthProgress.length > 0 && (
+            <section className="dashboard-section">
+              <span className="history-title">{t('dashboard.targets')}</span>
+              <TargetProgressTable progresses={monthProgress} />
+            </section>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
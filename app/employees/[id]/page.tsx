@@ -0,0 +1,114 @@
+'use client';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { Employee } from '../../lib/types';
+import { employeeTotals, entriesForEmployee, loadCachedEmployees, loadEmployees } from '../../lib/employees';
+import { periodOf, todayIso } from '../../lib/periods';
+import { CommissionPlan, DEFAULT_PLAN, ITEM_KEYS, loadActivePlan } from '../../lib/plan';
+import { attainmentPercent, targetProgresses } from '../../lib/targets';
+import { useHistory } from '../../hooks/useHistory';
+import { useTargets } from '../../hooks/useTargets';
+import { useI18n } from '../../components/I18nProvider';
+import TargetProgressTable from '../../components/TargetProgressTable';
+export default function EmployeeHistory() {
+  const { id } = useParams<{ id: string }>();
+  const [employees, setEmployees] = useState<Employee[]>(loadCachedEmployees);
+  const { entries } = useHistory();
+  const { targets } = useTargets();
+  const [plan, setPlan] = useState<CommissionPlan>(DEFAULT_PLAN);
+  const { t, currency, number } = useI18n();
+  useEffect(() => {
+    loadEmployees().then(setEmployees);
+    loadActivePlan().then(setPlan);
+  }, []);
+  const employee = employees.find(e => e.id === decodeURIComponent(id));
+  if (!employee) {
+    return (
+      <div className="calculator-container">
+        <Link href="/employees" className="back-link">{t('employees.back')}</Link>
+        <p className="empty-state-text">{t('employees.unknownId', { id: decodeURIComponent(id) })}</p>
+      </div>
+    );
+  }
+  const history = entriesForEmployee(entries, employee);
+  const totals = employeeTotals(history);
+  const progresses = targetProgresses(targets.filter(target => target.employeeKey === employee.id), history);
+  const thisMonth = periodOf(todayIso());
+  const monthProgress = progresses.find(progress => progress.target.period === thisMonth);
+  return (
+    <div className="calculator-container">
+      <Link href="/employees" className="back-link">{t('employees.back')}</Link>
+      <h1 className="calculator-title">{employee.nameTh}</h1>
+      <div className="report-meta">
+        <span>{employee.nameEn}</span>
+        <span>{t('employees.teamValue', { team: employee.team })}</span>
+        <span>{t('employees.idValue', { id: employee.id })}</span>
+      </div>
+      <div className="summary-cards">
+        <div className="summary-card">
+          <span className="summary-card-label">{t('employees.validEntries')}</span>
+          <span className="summary-card-value">{totals.entries}</span>
+        </div>
+        <div className="summary-card">
+          <span className="summary-card-label">{t('common.totalSales')}</span>
+          <span className="summary-card-value">{currency(totals.sales)}</span>
+        </div>
+        <div className="summary-card">
+          <span className="summary-card-label">{t('common.totalCommission')}</span>
+          <span className="summary-card-value">{currency(totals.commission)}</span>
+        </div>
+        {monthProgress && (
+          <div className={`summary-card${monthProgress.attained ? ' target-attained' : ''}`}>
+            <span className="summary-card-label">{t('targets.attainmentThisMonth', { period: thisMonth })}</span>
+            <span className="summary-card-value target-attainment">
+              {t('targets.attainmentValue', { percent: number(attainmentPercent(monthProgress)) })}
+            </span>
+          </div>
+        )}
+      </div>
+      {progresses.length > 0 && (
+        <section className="dashboard-section">
+          <span className="history-title">{t('employees.targets')}</span>
+          <TargetProgressTable progresses={progresses} showName={false} />
+        </section>
+      )}
+      {history.length > 0 ? (
+        <table className="results-table">
+          <thead>
+            <tr>
+              <th>{t('common.entryNo')}</th>
+              {ITEM_KEYS.map(key => <th key={key}>{plan.items[key].label}</th>)}
+              <th>{t('common.sales')}</th>
+              <th>{t('common.commission')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {history.map((entry) => (
+              <tr key={entry.id} className={!entry.isValid ? 'row-invalid' : ''}>
+                <td>{entry.number}</td>
+                <td>{entry.locks}</td>
+                <td>{entry.stocks}</td>
+                <td>{entry.barrels}</td>
+                <td>{entry.isValid ? currency(entry.sales) : t('common.invalidData')}</td>
+                <td>{entry.isValid ? currency(entry.commission) : '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <td>{t('common.total')}</td>
+              <td>{totals.locks}</td>
+              <td>{totals.stocks}</td>
+              <td>{totals.barrels}</td>
+              <td>{currency(totals.sales)}</td>
+              <td>{currency(totals.commission)}</td>
+            </tr>
+          </tfoot>
+        </table>
+      ) : (
+        <p className="empty-state-text">{t('employees.noHistory')}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+'use client';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Employee } from '../lib/types';
+import { canCalculateFor } from '../lib/auth';
+import { loadCachedEmployees, loadEmployees, searchEmployees } from '../lib/employees';
+import { useI18n } from '../components/I18nProvider';
+import { useSession } from '../components/SessionProvider';
+export default function EmployeeDirectory() {
+  const { user } = useSession();
+  const [directory, setDirectory] = useState<Employee[]>(loadCachedEmployees);
+  const [query, setQuery] = useState('');
+  const { t } = useI18n();
+  useEffect(() => {
+    loadEmployees().then(setDirectory);
+  }, []);
+  // ผู้จัดการเห็นเฉพาะพนักงานในทีม
+  const employees = user ? directory.filter(employee => canCalculateFor(user, employee)) : [];
+  const visible = query.trim() ? searchEmployees(employees, query, employees.length) : employees;
+  return (
+    <div className="calculator-container">
+      <h1 className="calculator-title">{t('employees.title')}</h1>
+      <Link href="/" className="back-link">{t('common.backToCalculator')}</Link>
+      <div className="form-group">
+        <input
+          type="search"
+          className="form-input"
+          placeholder={t('employees.search')}
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+      </div>
+      {visible.length > 0 ? (
+        <table className="results-table">
+          <thead>
+            <tr>
+              <th>{t('employees.id')}</th>
+              <th>{t('employees.nameTh')}</th>
+              <th>{t('employees.nameEn')}</th>
+              <th>{t('employees.team')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((employee) => (
+              <tr key={employee.id}>
+                <td>{employee.id}</td>
+                <td>
+                  <Link href={`/employees/${employee.id}`}>{employee.nameTh}</Link>
+                </td>
+                <td>{employee.nameEn}</td>
+                <td>{employee.team}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <p className="empty-state-text">{t('employees.notFound')}</p>
+      )}
+    </div>
+  );
+}
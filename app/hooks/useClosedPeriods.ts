@@ -0,0 +1,34 @@
+'use client';
+import { useEffect, useState } from 'react';
+import {
+  CLOSED_PERIODS_KEY,
+  loadClosedPeriods,
+  refreshClosedPeriods,
+  submitClosedPeriods
+} from '../lib/periods';
+import { appError } from '../lib/errors';
+import { AppError, ClosedPeriod } from '../lib/types';
+/**
+ * Closed months as the server knows them, cached for offline use.
+ * Closes made on another device show up on the next load, closes made in
+ * another tab through the `storage` event.
+ */
+export function useClosedPeriods() {
+  const [closedPeriods, setClosedPeriods] = useState<ClosedPeriod[]>(loadClosedPeriods);
+  useEffect(() => {
+    refreshClosedPeriods().then(setClosedPeriods);
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === null || event.key === CLOSED_PERIODS_KEY) setClosedPeriods(loadClosedPeriods());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+  /** Close months on the server; the errors are empty when it accepted them */
+  const closePeriods = async (toClose: ClosedPeriod[]): Promise<AppError[]> => {
+    const response = await submitClosedPeriods(toClose);
+    if (!response.success || !response.data) return response.errors ?? [appError('UNKNOWN_SERVER_ERROR')];
+    setClosedPeriods(response.data);
+    return [];
+  };
+  return { closedPeriods, closePeriods };
+}
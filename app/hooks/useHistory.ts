@@ -0,0 +1,248 @@
+'use client';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { AppError, Employee, Entry, TrashedEntry } from '../lib/types';
+import { fetchHistory } from '../lib/api';
+import { canViewEntry } from '../lib/auth';
+import { loadCachedEmployees, loadEmployees } from '../lib/employees';
+import { ENTRIES_KEY, TRASH_KEY, loadHistory, loadTrash, normalizeEntry, saveEntries, saveTrash } from '../lib/storage';
+import {
+  SYNC_QUEUE_KEY,
+  SyncChange,
+  SyncOperation,
+  enqueue,
+  flushSyncQueue,
+  loadSyncQueue,
+  markRefused,
+  markSynced,
+  mergeServerHistory,
+  saveSyncQueue
+} from '../lib/historySync';
+import {
+  EMPTY_UNDO_STACK,
+  HistoryAction,
+  actionChanges,
+  applyAction,
+  applyActionToTrash,
+  forgetEntries,
+  invertAction,
+  recordAction,
+  redoAction,
+  undoAction
+} from '../lib/undo';
+import { useSession } from '../components/SessionProvider';
+export type SyncStatus = 'synced' | 'pending' | 'syncing' | 'offline';
+/** The change most recently done, undone or redone, for the undo toast */
+export interface LastAction {
+  action: HistoryAction;
+  undone: boolean;
+}
+/**
+ * Calculation history backed by localStorage and synced with the server.
+ * Only the entries the signed-in user may see are returned. Changes made in
+ * another tab are picked up through the `storage` event.
+ */
+export function useHistory() {
+  const { user } = useSession();
+  // ผู้จัดการเห็นรายการของทีม ต้องรู้ว่าพนักงานแต่ละคนอยู่ทีมไหน
+  const [employees, setEmployees] = useState<Employee[]>(loadCachedEmployees);
+  const isVisible = (entry: Entry) => user !== null && canViewEntry(user, entry, employees);
+  const [saved] = useState(() => ({ history: loadHistory(), trash: loadTrash() }));
+  const [entries, setEntries] = useState<Entry[]>(saved.history.data.entries);
+  const [nextNumber, setNextNumber] = useState(saved.history.data.nextNumber);
+  const [unreadableCount, setUnreadableCount] = useState(saved.history.dropped + saved.trash.dropped);
+  const [queue, setQueue] = useState<SyncOperation[]>(loadSyncQueue);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [isOffline, setIsOffline] = useState(false);
+  const [removedElsewhere, setRemovedElsewhere] = useState<Entry[]>([]);
+  const [syncErrors, setSyncErrors] = useState<AppError[]>([]);
+  const [trash, setTrash] = useState(saved.trash.data);
+  const [undoStack, setUndoStack] = useState(EMPTY_UNDO_STACK);
+  const [lastAction, setLastAction] = useState<LastAction | null>(null);
+  // refs เป็นค่าล่าสุดเสมอ ใช้ระหว่าง sync ที่เป็น async
+  const entriesRef = useRef(entries);
+  const queueRef = useRef(queue);
+  const syncingRef = useRef(false);
+  const trashRef = useRef(trash);
+  const undoStackRef = useRef(undoStack);
+  undoStackRef.current = undoStack;
+  const commitEntries = (next: Entry[]) => {
+    entriesRef.current = next;
+    setEntries(next);
+    setNextNumber(number => Math.max(number, ...next.map(entry => entry.number + 1)));
+  };
+  const commitTrash = (next: TrashedEntry[]) => {
+    trashRef.current = next;
+    setTrash(next);
+  };
+  const commitQueue = (next: SyncOperation[]) => {
+    queueRef.current = next;
+    setQueue(next);
+  };
+  const sync = useCallback(async () => {
+    if (syncingRef.current) return;
+    syncingRef.current = true;
+    setIsSyncing(true);
+    try {
+      const flush = await flushSyncQueue(queueRef.current);
+      commitQueue(queueRef.current.filter(op => !flush.done.has(op.opId)));
+      commitEntries(markRefused(markSynced(entriesRef.current, flush.synced), flush.refused));
+      setSyncErrors(flush.failed);
+      if (flush.offline) {
+        setIsOffline(true);
+        return;
+      }
+      const response = await fetchHistory();
+      setIsOffline(Boolean(response.networkError));
+      if (!response.success || !response.data) return;
+      const merged = mergeServerHistory(entriesRef.current, response.data.map(normalizeEntry), queueRef.current);
+      commitEntries(merged.entries);
+      if (merged.removedElsewhere.length > 0) setRemovedElsewhere(merged.removedElsewhere);
+    } finally {
+      syncingRef.current = false;
+      setIsSyncing(false);
+    }
+  }, []);
+  const pushChanges = (changes: SyncChange[]) => {
+    commitQueue(changes.reduce(enqueue, queueRef.current));
+    void sync();
+  };
+  useEffect(() => {
+    if (user?.role === 'manager') loadEmployees().then(setEmployees);
+  }, [user?.role]);
+  useEffect(() => {
+    saveEntries(entries, nextNumber);
+  }, [entries, nextNumber]);
+  useEffect(() => {
+    saveSyncQueue(queue);
+  }, [queue]);
+  useEffect(() => {
+    saveTrash(trash);
+  }, [trash]);
+  useEffect(() => {
+    // รายการเก่าที่บันทึกก่อนมีระบบ sync ให้ส่งขึ้นเซิร์ฟเวอร์ด้วย ยกเว้นรายการที่เซิร์ฟเวอร์ปฏิเสธไปแล้ว
+    const queuedIds = new Set(queueRef.current.flatMap(op => (op.type === 'create' ? [op.entry.id] : [])));
+    const legacy = entriesRef.current.filter(entry => !entry.syncedAt && !entry.syncRefusedAt && !queuedIds.has(entry.id));
+    if (legacy.length > 0) {
+      commitQueue(legacy.map((entry): SyncChange => ({ type: 'create', entry })).reduce(enqueue, queueRef.current));
+    }
+    void sync();
+    const handleOnline = () => void sync();
+    const handleOffline = () => setIsOffline(true);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [sync]);
+  useEffect(() => {
+    // ค่าจากแท็บอื่นไม่บันทึกเป็น undo และไม่ส่งซ้ำ การบันทึกค่าเดิมกลับไม่ทำให้เกิด event อีก
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === null || event.key === ENTRIES_KEY) {
+        const { data } = loadHistory();
+        commitEntries(data.entries);
+        setNextNumber(number => Math.max(number, data.nextNumber));
+      }
+      if (event.key === null || event.key === TRASH_KEY) commitTrash(loadTrash().data);
+      if (event.key === null || event.key === SYNC_QUEUE_KEY) commitQueue(loadSyncQueue());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+  const perform = (action: HistoryAction) => {
+    commitEntries(applyAction(entriesRef.current, action));
+    commitTrash(applyActionToTrash(trashRef.current, action));
+    const { created, updated, deleted } = actionChanges(action);
+    // เคลียร์ทั้งหมดส่งคำสั่งเดียวแทนการลบทีละรายการ
+    const removals: SyncChange[] =
+      action.kind === 'clear' && entriesRef.current.length === 0
+        ? [{ type: 'clear' }]
+        : deleted.map(entry => ({ type: 'delete', id: entry.id }));
+    pushChanges([
+      ...created.map((entry): SyncChange => ({ type: 'create', entry })),
+      ...updated.map((entry): SyncChange => ({ type: 'update', entry })),
+      ...removals
+    ]);
+  };
+  const record = (action: HistoryAction) => {
+    if (action.before.length === 0 && action.after.length === 0) return;
+    perform(action);
+    setUndoStack(stack => recordAction(stack, action));
+    setLastAction({ action, undone: false });
+  };
+  const undo = () => {
+    const result = undoAction(undoStackRef.current);
+    if (!result) return;
+    perform(result.action);
+    setUndoStack(result.stack);
+    setLastAction({ action: invertAction(result.action), undone: true });
+  };
+  const redo = () => {
+    const result = redoAction(undoStackRef.current);
+    if (!result) return;
+    perform(result.action);
+    setUndoStack(result.stack);
+    setLastAction({ action: result.action, undone: false });
+  };
+  const dismissLastAction = useCallback(() => setLastAction(null), []);
+  const byIds = (ids: string[]) => {
+    const wanted = new Set(ids);
+    return entriesRef.current.filter(entry => wanted.has(entry.id));
+  };
+  const addEntries = (newEntries: Entry[]) => {
+    record({ kind: 'add', before: [], after: newEntries });
+  };
+  const updateEntries = (updated: Entry[]) => {
+    record({ kind: 'edit', before: byIds(updated.map(entry => entry.id)), after: updated });
+  };
+  const deleteEntries = (ids: string[]) => {
+    record({ kind: 'delete', before: byIds(ids), after: [] });
+  };
+  const clearHistory = () => {
+    record({ kind: 'clear', before: entriesRef.current.filter(isVisible), after: [] });
+  };
+  const restoreEntries = (ids: string[]) => {
+    const wanted = new Set(ids);
+    const restored = trashRef.current.filter(item => wanted.has(item.entry.id)).map(item => item.entry);
+    record({ kind: 'restore', before: [], after: restored });
+  };
+  const visibleTrash = trash.filter(item => isVisible(item.entry));
+  const purgeTrash = (ids: string[] = visibleTrash.map(item => item.entry.id)) => {
+    const purged = new Set(ids);
+    commitTrash(trashRef.current.filter(item => !purged.has(item.entry.id)));
+    setUndoStack(stack => forgetEntries(stack, ids));
+    setLastAction(null);
+  };
+  const syncStatus: SyncStatus = isOffline
+    ? 'offline'
+    : isSyncing
+      ? 'syncing'
+      : queue.length > 0
+        ? 'pending'
+        : 'synced';
+  return {
+    entries: entries.filter(isVisible),
+    nextNumber,
+    addEntries,
+    updateEntries,
+    deleteEntries,
+    clearHistory,
+    trash: visibleTrash,
+    restoreEntries,
+    purgeTrash,
+    undo,
+    redo,
+    canUndo: undoStack.past.length > 0,
+    canRedo: undoStack.future.length > 0,
+    lastAction,
+    dismissLastAction,
+    sync,
+    syncStatus,
+    pendingCount: queue.length,
+    syncErrors,
+    removedElsewhere,
+    dismissRemovedElsewhere: () => setRemovedElsewhere([]),
+    unreadableCount,
+    dismissUnreadable: () => setUnreadableCount(0)
+  };
+}
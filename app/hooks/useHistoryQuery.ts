@@ -0,0 +1,28 @@
+'use client';
+import { useEffect, useState } from 'react';
+import { DEFAULT_HISTORY_QUERY, HistoryQuery, historyQueryString, parseHistoryQuery } from '../lib/historyQuery';
+/**
+ * History filters kept in the URL query, so a view can be shared or bookmarked.
+ * The URL is read directly instead of through useSearchParams, which would
+ * need a Suspense boundary around the whole page.
+ */
+export function useHistoryQuery() {
+  const [query, setQuery] = useState<HistoryQuery>(() =>
+    typeof window === 'undefined' ? DEFAULT_HISTORY_QUERY : parseHistoryQuery(window.location.search)
+  );
+  useEffect(() => {
+    const handlePopState = () => setQuery(parseHistoryQuery(window.location.search));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+  const replaceQuery = (next: HistoryQuery) => {
+    setQuery(next);
+    const search = historyQueryString(next);
+    // replaceState แทน pushState เพื่อไม่ให้การพิมพ์ค้นหาแต่ละตัวอักษรกลายเป็นประวัติของเบราว์เซอร์
+    window.history.replaceState(window.history.state, '', `${window.location.pathname}${search ? `?${search}` : ''}`);
+  };
+  /** Changing a filter or the sort order goes back to the first page */
+  const updateQuery = (changes: Partial<HistoryQuery>) => replaceQuery({ ...query, page: 1, historyPage: 1, ...changes });
+  const resetQuery = () => replaceQuery({ ...DEFAULT_HISTORY_QUERY, sort: query.sort, direction: query.direction });
+  return { query, updateQuery, resetQuery };
+}
@@ -0,0 +1,83 @@
+'use client';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CommissionPlan } from '../lib/plan';
+import {
+  OUTBOX_KEY,
+  OutboxItem,
+  addToOutbox,
+  applyAnswers,
+  loadOutbox,
+  replayOutbox,
+  requestOf,
+  saveOutbox,
+  withOfflineEntries
+} from '../lib/outbox';
+import { Entry } from '../lib/types';
+interface OutboxOptions {
+  entries: Entry[];
+  updateEntries: (updated: Entry[]) => void;
+  plan: CommissionPlan;
+  /** Entries in a closed period keep their offline result */
+  isLocked: (entry: Entry) => boolean;
+}
+/**
+ * Calculations made offline, kept in localStorage and replayed through the
+ * API when the connection returns. Each answer updates its entry in place.
+ */
+export function useOutbox({ entries, updateEntries, plan, isLocked }: OutboxOptions) {
+  const [outbox, setOutbox] = useState<OutboxItem[]>(loadOutbox);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const outboxRef = useRef(outbox);
+  const replayingRef = useRef(false);
+  // ค่าล่าสุดสำหรับ replay ที่ถูกเรียกจาก event ของ window
+  const latestRef = useRef({ entries, updateEntries, plan, isLocked });
+  latestRef.current = { entries, updateEntries, plan, isLocked };
+  const commitOutbox = (next: OutboxItem[]) => {
+    outboxRef.current = next;
+    setOutbox(next);
+  };
+  const replay = useCallback(async () => {
+    if (replayingRef.current || !navigator.onLine) return;
+    const { entries: sent, isLocked: locked } = latestRef.current;
+    const pending = withOfflineEntries(outboxRef.current, sent);
+    if (pending !== outboxRef.current) commitOutbox(pending);
+    if (pending.length === 0) return;
+    replayingRef.current = true;
+    setIsReplaying(true);
+    try {
+      const result = await replayOutbox(pending, sent.filter(entry => !locked(entry)));
+      // รายการที่เข้าคิวใหม่ระหว่างรอคำตอบยังคงอยู่ในคิว
+      commitOutbox(outboxRef.current.filter(item => !result.done.has(item)));
+      const { entries: current, plan, updateEntries: update } = latestRef.current;
+      const revised = applyAnswers(current, result.answers, plan);
+      if (revised.length > 0) update(revised);
+    } finally {
+      replayingRef.current = false;
+      setIsReplaying(false);
+    }
+  }, []);
+  useEffect(() => {
+    saveOutbox(outbox);
+  }, [outbox]);
+  useEffect(() => {
+    void replay();
+    const handleOnline = () => void replay();
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === null || event.key === OUTBOX_KEY) commitOutbox(loadOutbox());
+    };
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [replay]);
+  /** Queue the offline results among the given entries */
+  const queueEntries = (queued: Entry[]) => {
+    const next = queued
+      .filter(entry => entry.calculatedOffline)
+      .reduce((items, entry) => addToOutbox(items, entry.id, requestOf(entry)), outboxRef.current);
+    if (next !== outboxRef.current) commitOutbox(next);
+  };
+  return { outboxCount: outbox.length, isReplaying, queueEntries, replay };
+}
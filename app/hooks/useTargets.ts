@@ -0,0 +1,43 @@
+'use client';
+import { useEffect, useState } from 'react';
+import { appError } from '../lib/errors';
+import {
+  TARGETS_KEY,
+  loadTargets,
+  refreshTargets,
+  removeTarget,
+  setTarget,
+  submitTarget,
+  withdrawTarget
+} from '../lib/targets';
+import { ApiResponse } from '../lib/api';
+import { AppError, SalesTarget } from '../lib/types';
+const errorsOf = (response: ApiResponse<unknown>): AppError[] =>
+  response.success ? [] : response.errors ?? [appError('UNKNOWN_SERVER_ERROR')];
+/**
+ * Sales targets the user may see, kept on the server and cached for
+ * offline use. Changes made in another tab arrive through the `storage` event.
+ */
+export function useTargets() {
+  const [targets, setTargets] = useState<SalesTarget[]>(loadTargets);
+  useEffect(() => {
+    refreshTargets().then(setTargets);
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === null || event.key === TARGETS_KEY) setTargets(loadTargets());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+  /** Save a target on the server; the errors are empty when it was accepted */
+  const saveTarget = async (target: SalesTarget): Promise<AppError[]> => {
+    const response = await submitTarget(target);
+    if (response.success) setTargets(current => setTarget(current, target));
+    return errorsOf(response);
+  };
+  const deleteTarget = async (target: SalesTarget): Promise<AppError[]> => {
+    const response = await withdrawTarget(target);
+    if (response.success) setTargets(current => removeTarget(current, target));
+    return errorsOf(response);
+  };
+  return { targets, saveTarget, deleteTarget };
+}
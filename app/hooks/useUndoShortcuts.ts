@@ -0,0 +1,31 @@
+'use client';
+import { useEffect } from 'react';
+/**
+ * Ctrl/Cmd+Z to undo, Ctrl/Cmd+Shift+Z or Ctrl+Y to redo.
+ * Text fields keep their own undo, so shortcuts are ignored while typing;
+ * in an empty field there is nothing to undo, so the history is undone instead.
+ */
+export function useUndoShortcuts(undo: () => void, redo: () => void) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+      const target = e.target as HTMLElement | null;
+      const isTyping =
+        target !== null &&
+        (target.isContentEditable ||
+          target.tagName === 'SELECT' ||
+          (['INPUT', 'TEXTAREA'].includes(target.tagName) && (target as HTMLInputElement).value !== ''));
+      if (isTyping) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+}
@@ -1,5 +1,20 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
+import { cookies } from "next/headers";
 import { Inter, Geist, Geist_Mono } from "next/font/google";
+import AuthGuard from "./components/AuthGuard";
+import I18nProvider from "./components/I18nProvider";
+import LanguageSwitcher from "./components/LanguageSwitcher";
+import ServiceWorkerRegistration from "./components/ServiceWorkerRegistration";
+import SessionProvider from "./components/SessionProvider";
+import UserMenu from "./components/UserMenu";
+import {
+  DEFAULT_LOCALE,
+  LOCALE_COOKIE,
+  Locale,
+  isLocale,
+  translate,
+} from "./lib/i18n";
+import { THEME_COLOR } from "./lib/pwa";
 import "./globals.css";
 
 const inter = Inter({
@@ -18,22 +33,44 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
-export const metadata: Metadata = {
-  title: "Commission Calculator",
-  description: "Calculate sales commission based on locks, stocks, and barrels",
+// ภาษาที่ผู้ใช้เลือกเก็บไว้ใน cookie เพื่อให้ฝั่งเซิร์ฟเวอร์กำหนด lang ได้ตั้งแต่ render แรก
+async function requestLocale(): Promise<Locale> {
+  const value = (await cookies()).get(LOCALE_COOKIE)?.value;
+  return isLocale(value) ? value : DEFAULT_LOCALE;
+}
+
+export async function generateMetadata(): Promise<Metadata> {
+  const locale = await requestLocale();
+  return {
+    title: translate(locale, "app.title"),
+    description: translate(locale, "app.description"),
+    appleWebApp: { title: translate(locale, "app.shortName") },
+  };
+}
+
+export const viewport: Viewport = {
+  themeColor: THEME_COLOR,
 };
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
+  const locale = await requestLocale();
   return (
-    <html lang="en">
+    <html lang={locale}>
       <body
         className={`${inter.variable} ${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <I18nProvider initialLocale={locale}>
+          <SessionProvider>
+            <LanguageSwitcher />
+            <UserMenu />
+            <AuthGuard>{children}</AuthGuard>
+          </SessionProvider>
+          <ServiceWorkerRegistration />
+        </I18nProvider>
       </body>
     </html>
   );
@@ -0,0 +1,322 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from "axios";
+import {
+  ClientHttpError,
+  NetworkError,
+  SchemaError,
+  ServerHttpError,
+  TimeoutError,
+  apiClient,
+  calculateCommission,
+  calculateCommissionBatch,
+  createHistoryEntry,
+  deleteHistoryEntry,
+} from "./api";
+import { appError } from "./errors";
+import { Entry } from "./types";
+
+type Reply = (config: InternalAxiosRequestConfig) => unknown;
+
+const request = { name: "Ken", locks: 10, stocks: 10, barrels: 10 };
+const result = { ...request, sales: 1000, commission: 100 };
+const FAST = { retryDelayMs: 0 };
+
+const ok =
+  (data: unknown): Reply =>
+  () => ({ success: true, data });
+
+const httpError =
+  (status: number, statusText: string, data: unknown = ""): Reply =>
+  (config) => {
+    const response = { status, statusText, data, headers: {}, config };
+    throw new AxiosError(
+      `Request failed with status code ${status}`,
+      "ERR_BAD_RESPONSE",
+      config,
+      null,
+      response as AxiosResponse,
+    );
+  };
+
+const networkDown: Reply = (config) => {
+  throw new AxiosError("Network Error", "ERR_NETWORK", config);
+};
+
+const timedOut: Reply = (config) => {
+  throw new AxiosError("timeout exceeded", "ECONNABORTED", config);
+};
+
+// ตอบกลับตามลำดับ ครั้งสุดท้ายใช้ซ้ำเมื่อถูกเรียกเกินจำนวน
+const mockServer = (...replies: Reply[]) => {
+  const adapter = vi.fn(async (config: InternalAxiosRequestConfig) => {
+    const reply =
+      replies[Math.min(adapter.mock.calls.length, replies.length) - 1];
+    return {
+      data: reply(config),
+      status: 200,
+      statusText: "OK",
+      headers: {},
+      config,
+    };
+  });
+  apiClient.defaults.adapter = adapter;
+  return adapter;
+};
+
+const originalAdapter = apiClient.defaults.adapter;
+afterEach(() => {
+  apiClient.defaults.adapter = originalAdapter;
+});
+
+/**
+ * FR-18: API client ตรวจสอบรูปแบบข้อมูลที่ได้รับ มี timeout, retry พร้อม backoff
+ * สำหรับคำขอที่ส่งซ้ำได้ ยกเลิกคำขอได้ และแยกประเภทข้อผิดพลาด
+ */
+describe("FR-18: Schema-validated API Client", () => {
+  describe("schema validation", () => {
+    it("should return a response that matches the contract", async () => {
+      mockServer(ok(result));
+      expect(await calculateCommission(request)).toEqual({
+        success: true,
+        data: result,
+      });
+    });
+
+    it("should reject data that does not match the contract", async () => {
+      mockServer(ok({ ...result, sales: "1000", commission: undefined }));
+      const response = await calculateCommission(request);
+      expect(response.success).toBe(false);
+      expect(response.error).toBeInstanceOf(SchemaError);
+      expect((response.error as SchemaError).issues).toEqual([
+        "response.data.sales: expected number, got string",
+        "response.data.commission: expected number, got undefined",
+      ]);
+      expect(response.errors?.[0].code).toBe("INVALID_RESPONSE");
+    });
+
+    it("should reject a body that is not JSON", async () => {
+      mockServer(() => "<html>Bad Gateway</html>");
+      const response = await calculateCommission(request);
+      expect(response.error).toBeInstanceOf(SchemaError);
+      expect(response.networkError).toBeUndefined();
+    });
+
+    it("should map the server's error list", async () => {
+      mockServer(() => ({
+        success: false,
+        errors: ["Locks must be between 1 and 70"],
+      }));
+      expect((await calculateCommission(request)).errors).toEqual([
+        appError("OUT_OF_RANGE", "locks", { label: "Locks", min: 1, max: 70 }),
+      ]);
+    });
+  });
+
+  describe("error classes", () => {
+    it("should not retry a 4xx and keep its field errors", async () => {
+      const adapter = mockServer(
+        httpError(400, "Bad Request", {
+          success: false,
+          errors: [{ field: "stocks", code: "NOT_INTEGER" }],
+        }),
+      );
+      const response = await calculateCommission(request, FAST);
+      expect(adapter).toHaveBeenCalledTimes(1);
+      expect(response.error).toBeInstanceOf(ClientHttpError);
+      expect(response.status).toBe(400);
+      expect(response.errors).toEqual([appError("NOT_INTEGER", "stocks")]);
+    });
+
+    it("should retry a 5xx and succeed when the server recovers", async () => {
+      const adapter = mockServer(
+        httpError(503, "Service Unavailable"),
+        ok(result),
+      );
+      const response = await calculateCommission(request, FAST);
+      expect(adapter).toHaveBeenCalledTimes(2);
+      expect(response.data).toEqual(result);
+    });
+
+    it("should give up after the configured retries", async () => {
+      const adapter = mockServer(httpError(500, "Internal Server Error"));
+      const response = await calculateCommission(request, {
+        ...FAST,
+        retries: 1,
+      });
+      expect(adapter).toHaveBeenCalledTimes(2);
+      expect(response.error).toBeInstanceOf(ServerHttpError);
+      expect(response.errors).toEqual([
+        appError("HTTP_ERROR", null, {
+          status: 500,
+          statusText: "Internal Server Error",
+        }),
+      ]);
+    });
+
+    it("should report network errors as offline", async () => {
+      mockServer(networkDown);
+      const response = await deleteHistoryEntry("1", FAST);
+      expect(response.error).toBeInstanceOf(NetworkError);
+      expect(response.networkError).toBe(true);
+      expect(response.errors).toEqual([
+        appError("NETWORK_ERROR", null, { detail: "Network Error" }),
+      ]);
+    });
+
+    it("should not retry calls that are not idempotent", async () => {
+      const adapter = mockServer(networkDown);
+      await createHistoryEntry({ id: "1" } as Entry, FAST);
+      expect(adapter).toHaveBeenCalledTimes(1);
+    });
+
+    it("should pass the time limit to each attempt", async () => {
+      const adapter = mockServer(timedOut);
+      const response = await calculateCommission(request, {
+        ...FAST,
+        retries: 0,
+        timeoutMs: 2000,
+      });
+      expect(adapter.mock.calls[0][0].timeout).toBe(2000);
+      expect(response.error).toBeInstanceOf(TimeoutError);
+      expect(response.networkError).toBe(true);
+      expect(response.errors).toEqual([
+        appError("TIMEOUT", null, { seconds: 2 }),
+      ]);
+    });
+  });
+
+  describe("cancellation", () => {
+    it("should not send a request that is already cancelled", async () => {
+      const adapter = mockServer(ok(result));
+      const controller = new AbortController();
+      controller.abort();
+      const response = await calculateCommission(request, {
+        signal: controller.signal,
+      });
+      expect(adapter).not.toHaveBeenCalled();
+      expect(response.cancelled).toBe(true);
+      expect(response.errors).toEqual([]);
+    });
+
+    it("should stop retrying once cancelled", async () => {
+      const controller = new AbortController();
+      const adapter = mockServer((config) => {
+        controller.abort();
+        return networkDown(config);
+      });
+      const response = await calculateCommission(request, {
+        signal: controller.signal,
+        retryDelayMs: 10_000,
+      });
+      expect(adapter).toHaveBeenCalledTimes(1);
+      expect(response.cancelled).toBe(true);
+    });
+  });
+});
+
+/**
+ * FR-25: คำนวณหลายรายการในคำขอเดียว รายงานความคืบหน้า จำกัดจำนวนคำขอพร้อมกัน
+ * เมื่อต้องเรียกทีละรายการ และเก็บผลของแถวที่สำเร็จแม้บางแถวล้มเหลว
+ */
+describe("FR-25: Batch Calculation", () => {
+  const rows = ["Ken", "", "Ann"].map((name) => ({ ...request, name }));
+  const outOfRange = appError("OUT_OF_RANGE", "locks", { label: "Locks" });
+
+  it("should answer every row and keep the rows that succeeded", async () => {
+    const adapter = mockServer((config) => {
+      const { requests } = JSON.parse(config.data);
+      return ok(
+        requests.map((row: typeof request) =>
+          row.name
+            ? { success: true, data: { ...result, name: row.name } }
+            : { success: false, errors: [outOfRange] },
+        ),
+      )(config);
+    });
+    const progress = vi.fn();
+
+    const responses = await calculateCommissionBatch(rows, {
+      batchSize: 2,
+      onProgress: progress,
+    });
+
+    expect(responses).toEqual([
+      { success: true, data: { ...result, name: "Ken" } },
+      { success: false, errors: [outOfRange] },
+      { success: true, data: { ...result, name: "Ann" } },
+    ]);
+    expect(adapter).toHaveBeenCalledTimes(2);
+    expect(adapter.mock.calls[0][0].url).toBe(
+      "/api/commission/calculate/batch",
+    );
+    expect(progress.mock.calls.map(([p]) => p)).toEqual([
+      { done: 1, total: 3 },
+      { done: 2, total: 3 },
+      { done: 3, total: 3 },
+    ]);
+  });
+
+  it("should fall back to single calls, a few at a time", async () => {
+    let running = 0;
+    let mostRunning = 0;
+    const adapter = vi.fn(async (config: InternalAxiosRequestConfig) => {
+      if (config.url?.endsWith("/batch")) {
+        return httpError(404, "Not Found")(config) as never;
+      }
+      running++;
+      mostRunning = Math.max(mostRunning, running);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      running--;
+      const row = JSON.parse(config.data);
+      return {
+        data: { success: true, data: { ...result, name: row.name } },
+        status: 200,
+        statusText: "OK",
+        headers: {},
+        config,
+      };
+    });
+    apiClient.defaults.adapter = adapter;
+    const many = Array.from({ length: 7 }, (_, i) => ({
+      ...request,
+      name: `Ken ${i}`,
+    }));
+
+    const responses = await calculateCommissionBatch(many, {
+      batchSize: 5,
+      concurrency: 2,
+    });
+
+    expect(responses.map((r) => r.data?.name)).toEqual(many.map((r) => r.name));
+    expect(mostRunning).toBe(2);
+    // พบว่าไม่มี endpoint แล้ว ไม่ลองส่งแบบกลุ่มซ้ำ
+    expect(
+      adapter.mock.calls.filter(([config]) => config.url?.endsWith("/batch")),
+    ).toHaveLength(1);
+  });
+
+  it("should send at least one row per request whatever the batch size", async () => {
+    const adapter = mockServer((config) =>
+      ok(
+        JSON.parse(config.data).requests.map((row: typeof request) => ({
+          success: true,
+          data: { ...result, name: row.name },
+        })),
+      )(config),
+    );
+
+    for (const batchSize of [0, -2, NaN]) {
+      adapter.mockClear();
+      const responses = await calculateCommissionBatch(rows, { batchSize });
+      expect(responses).toHaveLength(rows.length);
+      expect(adapter.mock.calls.length).toBeGreaterThan(0);
+    }
+  });
+
+  it("should mark every row offline when the batch cannot be sent", async () => {
+    mockServer(networkDown);
+    const responses = await calculateCommissionBatch(rows, FAST);
+    expect(responses).toHaveLength(3);
+    expect(responses.every((r) => r.networkError)).toBe(true);
+  });
+});
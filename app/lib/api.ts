@@ -1,10 +1,39 @@
 // API service layer for Commission Calculator
 import axios from "axios";
+import { ENTRY_STATUSES } from "./approval";
+import { ROLES, loginPath } from "./auth";
+import type { CommissionBreakdown, ItemAmount, TierSlice } from "./commission";
+import { appError, fromServerError } from "./errors";
+import { formatMessage } from "./i18n";
+import { CommissionPlan, ItemKey, validatePlan } from "./plan";
+import {
+  Schema,
+  array,
+  boolean,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  string,
+  unknown,
+  validate,
+} from "./schema";
+import type {
+  AppError,
+  ClosedPeriod,
+  Employee,
+  Entry,
+  EntryRevision,
+  SalesTarget,
+  StatusChange,
+  User,
+} from "./types";
 
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || "http://localhost:5000";
 
 // สร้าง axios instance พร้อม config พื้นฐาน
-const apiClient = axios.create({
+export const apiClient = axios.create({
   baseURL: API_BASE_URL,
   withCredentials: true,
   headers: {
@@ -12,6 +41,134 @@ const apiClient = axios.create({
   },
 });
 
+/**
+ * Per-call request options
+ */
+export interface ApiOptions {
+  /** Cancels the request, e.g. when the form is reset or the page is left */
+  signal?: AbortSignal;
+  /** Time limit of one attempt in milliseconds (0 = no limit) */
+  timeoutMs?: number;
+  /** Extra attempts after a network error, timeout or 5xx; idempotent calls only */
+  retries?: number;
+  /** Wait before the first retry, doubled for every further retry */
+  retryDelayMs?: number;
+}
+
+export const DEFAULT_API_OPTIONS: Required<Omit<ApiOptions, "signal">> = {
+  timeoutMs: Number(process.env.NEXT_PUBLIC_API_TIMEOUT_MS) || 10000,
+  retries: 2,
+  retryDelayMs: 300,
+};
+
+/**
+ * Base class of every failure raised by the API client
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly url: string,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/** The request never got an answer (offline, DNS, CORS, ...) */
+export class NetworkError extends ApiError {
+  constructor(
+    url: string,
+    readonly detail: string,
+  ) {
+    super(`Network Error: ${detail}`, url);
+    this.name = "NetworkError";
+  }
+}
+
+/** No answer within the time limit; treated like being offline */
+export class TimeoutError extends NetworkError {
+  constructor(
+    url: string,
+    readonly timeoutMs: number,
+  ) {
+    super(url, `no response within ${timeoutMs} ms`);
+    this.name = "TimeoutError";
+  }
+}
+
+export class HttpError extends ApiError {
+  constructor(
+    url: string,
+    readonly status: number,
+    readonly statusText: string,
+    /** Parsed response body, may carry the server's error list */
+    readonly body: unknown,
+  ) {
+    super(`API Error: ${status} ${statusText}`, url);
+    this.name = "HttpError";
+  }
+}
+
+/** 4xx: the request was rejected, retrying will not help */
+export class ClientHttpError extends HttpError {
+  constructor(url: string, status: number, statusText: string, body: unknown) {
+    super(url, status, statusText, body);
+    this.name = "ClientHttpError";
+  }
+}
+
+/** 401: no session or the session expired */
+export class UnauthorizedError extends ClientHttpError {
+  constructor(url: string, statusText: string, body: unknown) {
+    super(url, 401, statusText, body);
+    this.name = "UnauthorizedError";
+  }
+}
+
+/** 5xx: the server failed, the request may succeed when retried */
+export class ServerHttpError extends HttpError {
+  constructor(url: string, status: number, statusText: string, body: unknown) {
+    super(url, status, statusText, body);
+    this.name = "ServerHttpError";
+  }
+}
+
+/** The server answered with JSON that does not match the contract */
+export class SchemaError extends ApiError {
+  constructor(
+    url: string,
+    readonly issues: string[],
+  ) {
+    super(`Invalid response from ${url}: ${issues.join("; ")}`, url);
+    this.name = "SchemaError";
+  }
+}
+
+/** Cancelled through the AbortSignal passed in the options */
+export class CancelledError extends ApiError {
+  constructor(url: string) {
+    super(`Request to ${url} was cancelled`, url);
+    this.name = "CancelledError";
+  }
+}
+
+/**
+ * Common response envelope returned by every endpoint
+ */
+export interface ApiResponse<T> {
+  success: boolean;
+  data?: T;
+  errors?: AppError[];
+  /** true when the request never reached the server (offline, DNS, CORS, ...) */
+  networkError?: boolean;
+  /** true when the caller aborted the request; nothing should be shown */
+  cancelled?: boolean;
+  /** HTTP status of a failed request */
+  status?: number;
+  /** Client-side failure behind an unsuccessful response */
+  error?: ApiError;
+}
+
 export interface CalculateRequest {
   name: string;
   locks: number;
@@ -19,49 +176,757 @@ export interface CalculateRequest {
   barrels: number;
 }
 
-export interface CalculateResponse {
-  success: boolean;
-  data?: {
-    name: string;
-    locks: number;
-    stocks: number;
-    barrels: number;
-    sales: number;
-    commission: number;
-  };
-  errors?: string[];
+export interface CalculateResult {
+  name: string;
+  locks: number;
+  stocks: number;
+  barrels: number;
+  sales: number;
+  commission: number;
+  /** Sent by servers that explain their figures */
+  breakdown?: CommissionBreakdown;
+}
+
+export type CalculateResponse = ApiResponse<CalculateResult>;
+
+export type CommissionPlanResponse = ApiResponse<CommissionPlan>;
+
+// plan.ts เรียกใช้ api.ts จึงยังอ่าน ITEM_KEYS ตอนโหลดโมดูลไม่ได้
+const breakdownSchema = object<CommissionBreakdown>({
+  items: array(
+    object<ItemAmount>({
+      item: string as Schema<ItemKey>,
+      quantity: number,
+      unitPrice: number,
+      amount: number,
+    }),
+  ),
+  tiers: array(
+    object<TierSlice>({
+      from: number,
+      upTo: nullable(number),
+      sales: number,
+      rate: number,
+      commission: number,
+    }),
+  ),
+});
+
+const calculateResultSchema = object<CalculateResult>({
+  name: string,
+  locks: number,
+  stocks: number,
+  barrels: number,
+  sales: number,
+  commission: number,
+  breakdown: optional(breakdownSchema),
+});
+
+const planSchema: Schema<CommissionPlan> = (value, path) =>
+  validatePlan(value).map((error) => `${path}: ${formatMessage("en", error)}`);
+
+// รายการที่บันทึกก่อนใช้ UUID ยังมี id เป็นตัวเลข normalizeEntry แปลงเป็นข้อความ
+const entryIdSchema: Schema<string> = (value, path) =>
+  typeof value === "number" ? number(value, path) : string(value, path);
+
+const entrySchema = object<Entry>({
+  id: entryIdSchema,
+  number: optional(number) as Schema<number>,
+  employeeId: optional(string),
+  name: string,
+  locks: number,
+  stocks: number,
+  barrels: number,
+  sales: number,
+  commission: number,
+  isValid: boolean,
+  // errors, date และ period ของรายการรุ่นเก่าถูกเติม/แปลงใน normalizeEntry
+  errors: array(unknown) as Schema<AppError[]>,
+  date: optional(string) as Schema<string>,
+  period: optional(string) as Schema<string>,
+  calculatedOffline: optional(boolean),
+  breakdown: optional(breakdownSchema),
+  syncedAt: optional(string),
+  syncRefusedAt: optional(string),
+  revisions: optional(array(unknown)) as Schema<EntryRevision[] | undefined>,
+  createdBy: optional(string),
+  status: optional(oneOf(ENTRY_STATUSES)),
+  statusHistory: optional(
+    array(
+      object<StatusChange>({
+        status: oneOf(ENTRY_STATUSES),
+        changedAt: string,
+        userId: string,
+        name: string,
+        reason: optional(string),
+      }),
+    ),
+  ),
+});
+
+const closedPeriodSchema = object<ClosedPeriod>({
+  employeeKey: string,
+  name: string,
+  period: string,
+  entryIds: array(string),
+  locks: number,
+  stocks: number,
+  barrels: number,
+  sales: number,
+  commission: number,
+  closedAt: string,
+});
+
+const salesTargetSchema = object<SalesTarget>({
+  employeeKey: string,
+  name: string,
+  period: string,
+  target: number,
+  acceleratorRate: optional(number),
+});
+
+const employeeSchema = object<Employee>({
+  id: string,
+  nameTh: string,
+  nameEn: string,
+  team: string,
+});
+
+const userSchema = object<User>({
+  id: string,
+  username: string,
+  name: string,
+  role: oneOf(ROLES),
+  employeeId: optional(string),
+  team: optional(string),
+});
+
+/** Delete endpoints answer without meaningful data */
+const noData = unknown as Schema<null>;
+
+const envelopeSchema = object<{ success: boolean; errors?: unknown[] }>({
+  success: boolean,
+  errors: optional(array(unknown)),
+});
+
+interface RequestConfig<T> {
+  method: "get" | "post" | "put" | "delete";
+  url: string;
+  data?: unknown;
+  schema: Schema<T | undefined>;
+  /** Safe to send twice; GET, PUT and DELETE are by definition */
+  idempotent?: boolean;
+  /** Login and session checks: a 401 is an answer, not an expired session */
+  authenticates?: boolean;
 }
 
 /**
- * Calculate commission via API
+ * Check the envelope and the data of a response body; the server may send
+ * error objects or, in older versions, plain text
  */
-export const calculateCommission = async (
-  request: CalculateRequest,
-): Promise<CalculateResponse> => {
+const parseBody = <T>(body: unknown, config: RequestConfig<T>) => {
+  const issues = validate(envelopeSchema, body);
+  const envelope = body as ApiResponse<T> & { errors?: unknown[] };
+  if (issues.length === 0 && envelope.success) {
+    issues.push(...validate(config.schema, envelope.data, "response.data"));
+  }
+  if (issues.length > 0) throw new SchemaError(config.url, issues);
+  return envelope.errors
+    ? { ...envelope, errors: envelope.errors.map(fromServerError) }
+    : envelope;
+};
+
+/**
+ * Turn anything thrown by axios into one of the client error classes
+ */
+const toApiError = (error: unknown, url: string, timeoutMs = 0): ApiError => {
+  if (error instanceof ApiError) return error;
+  if (axios.isCancel(error)) return new CancelledError(url);
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      const { status, statusText, data } = error.response;
+      const text = statusText || error.message;
+      if (status === 401) return new UnauthorizedError(url, text, data);
+      return status >= 500
+        ? new ServerHttpError(url, status, text, data)
+        : new ClientHttpError(url, status, text, data);
+    }
+    if (error.code === "ECONNABORTED" || error.code === "ETIMEDOUT") {
+      return new TimeoutError(url, timeoutMs);
+    }
+  }
+  return new NetworkError(
+    url,
+    error instanceof Error ? error.message : "Unknown error",
+  );
+};
+
+const isRetryable = (error: ApiError) =>
+  error instanceof NetworkError || error instanceof ServerHttpError;
+
+const wait = (ms: number, url: string, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new CancelledError(url));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CancelledError(url));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+/**
+ * Send a request with a time limit, retrying idempotent calls with backoff;
+ * throws an ApiError subclass on failure
+ */
+const send = async <T>(
+  config: RequestConfig<T>,
+  options: ApiOptions = {},
+): Promise<ApiResponse<T>> => {
+  const { signal, timeoutMs, retries, retryDelayMs } = {
+    ...DEFAULT_API_OPTIONS,
+    ...options,
+  };
+  const idempotent = config.idempotent ?? config.method !== "post";
+  const attempts = idempotent ? retries + 1 : 1;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await apiClient.request({
+        method: config.method,
+        url: config.url,
+        data: config.data,
+        signal,
+        timeout: timeoutMs,
+      });
+      return parseBody(response.data, config);
+    } catch (thrown) {
+      const error = toApiError(thrown, config.url, timeoutMs);
+      if (attempt >= attempts || !isRetryable(error)) throw error;
+      await wait(retryDelayMs * 2 ** (attempt - 1), config.url, signal);
+    }
+  }
+};
+
+const httpErrorOf = (error: HttpError): AppError => {
+  if (error.status === 401) return appError("UNAUTHORIZED");
+  if (error.status === 403) return appError("FORBIDDEN");
+  return appError("HTTP_ERROR", null, {
+    status: error.status || "Unknown",
+    statusText: error.statusText,
+  });
+};
+
+/**
+ * Convert a client error into a failed response
+ */
+const toErrorResponse = <T>(error: ApiError): ApiResponse<T> => {
+  if (error instanceof CancelledError) {
+    return { success: false, cancelled: true, error, errors: [] };
+  }
+  if (error instanceof TimeoutError) {
+    return {
+      success: false,
+      networkError: true,
+      error,
+      errors: [appError("TIMEOUT", null, { seconds: error.timeoutMs / 1000 })],
+    };
+  }
+  if (error instanceof HttpError) {
+    const body = error.body as { errors?: unknown } | undefined;
+    return {
+      success: false,
+      status: error.status,
+      error,
+      // 4xx ที่ส่งรายการ error มาด้วยให้แสดงตาม field แทนข้อความ HTTP รวม ๆ
+      errors: Array.isArray(body?.errors)
+        ? body.errors.map(fromServerError)
+        : [httpErrorOf(error)],
+    };
+  }
+  if (error instanceof SchemaError) {
+    return {
+      success: false,
+      error,
+      errors: [
+        appError("INVALID_RESPONSE", null, { detail: error.issues.join("; ") }),
+      ],
+    };
+  }
+  return {
+    success: false,
+    networkError: true,
+    error,
+    errors: [
+      appError("NETWORK_ERROR", null, {
+        detail: error instanceof NetworkError ? error.detail : error.message,
+      }),
+    ],
+  };
+};
+
+const redirectToLogin = () => {
+  if (typeof window === "undefined") return;
+  window.location.assign(loginPath(window.location.pathname));
+};
+
+let unauthorizedHandler: (() => void) | null = null;
+
+/**
+ * Called whenever a call answers 401, e.g. to end the session and show the
+ * login page; `null` restores the default full-page redirect to /login
+ */
+export const setUnauthorizedHandler = (handler: (() => void) | null) => {
+  unauthorizedHandler = handler;
+};
+
+const call = async <T>(
+  config: RequestConfig<T>,
+  options?: ApiOptions,
+): Promise<ApiResponse<T>> => {
   try {
-    const response = await apiClient.post<CalculateResponse>(
-      "/api/commission/calculate",
-      request,
-    );
-    return response.data;
+    return await send(config, options);
   } catch (error) {
-    if (axios.isAxiosError(error)) {
-      return {
-        success: false,
-        errors: [
-          `API Error: ${error.response?.status || "Unknown"} ${
-            error.response?.statusText || error.message
-          }`,
-        ],
-      };
+    const apiError = toApiError(error, config.url);
+    if (apiError instanceof UnauthorizedError && !config.authenticates) {
+      (unauthorizedHandler ?? redirectToLogin)();
     }
+    return toErrorResponse(apiError);
+  }
+};
+
+/**
+ * Calculate commission via API (a pure calculation, so safe to retry)
+ */
+export const calculateCommission = (
+  request: CalculateRequest,
+  options?: ApiOptions,
+): Promise<CalculateResponse> =>
+  call(
+    {
+      method: "post",
+      url: "/api/commission/calculate",
+      data: request,
+      schema: calculateResultSchema,
+      idempotent: true,
+    },
+    options,
+  );
+
+/** Rows sent per batch call; progress is reported after each one */
+export const DEFAULT_BATCH_SIZE = 50;
+
+/** Single calls in flight at once when the server has no batch endpoint */
+export const DEFAULT_BATCH_CONCURRENCY = 4;
+
+export interface BatchProgress {
+  /** Rows answered so far, successfully or not */
+  done: number;
+  total: number;
+}
+
+export interface BatchOptions extends ApiOptions {
+  /** Rows per request, at least 1; a value that is not a number uses the default */
+  batchSize?: number;
+  concurrency?: number;
+  onProgress?: (progress: BatchProgress) => void;
+}
+
+/** Result of one row of a batch, in the same envelope as a single call */
+interface BatchItem {
+  success: boolean;
+  data?: CalculateResult;
+  errors?: unknown[];
+}
+
+const batchSchema = array(
+  object<BatchItem>({
+    success: boolean,
+    data: optional(calculateResultSchema),
+    errors: optional(array(unknown)),
+  }),
+);
+
+// เซิร์ฟเวอร์รุ่นเก่าไม่มี endpoint แบบกลุ่ม ให้เรียกทีละรายการแทน
+const BATCH_UNSUPPORTED = [404, 405, 501];
+
+const batchItemResponse = (
+  response: ApiResponse<BatchItem[]>,
+  index: number,
+): CalculateResponse => {
+  const { data, ...failure } = response;
+  if (!response.success) return failure;
+  const item = data?.[index];
+  if (!item) {
     return {
       success: false,
       errors: [
-        `Network Error: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`,
+        appError("INVALID_RESPONSE", null, {
+          detail: `response.data[${index}]: missing`,
+        }),
       ],
     };
   }
+  return item.success && item.data
+    ? { success: true, data: item.data }
+    : {
+        success: false,
+        errors: (item.errors ?? [appError("UNKNOWN_SERVER_ERROR")]).map(
+          fromServerError,
+        ),
+      };
+};
+
+/**
+ * Run a task for every item with at most `limit` running at once
+ */
+const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<void>,
+): Promise<void> => {
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      await task(items[index], index);
+    }
+  };
+  const workers = Math.min(Math.max(1, limit), items.length);
+  await Promise.all(Array.from({ length: workers }, worker));
 };
+
+/**
+ * Calculate many rows at once. Rows are sent in batches; a server without the
+ * batch endpoint gets single calls instead, a few at a time. Every row gets
+ * its own response in request order, so the rows that succeeded are kept
+ * when others fail.
+ */
+export const calculateCommissionBatch = async (
+  requests: CalculateRequest[],
+  {
+    batchSize = DEFAULT_BATCH_SIZE,
+    concurrency = DEFAULT_BATCH_CONCURRENCY,
+    onProgress,
+    ...options
+  }: BatchOptions = {},
+): Promise<CalculateResponse[]> => {
+  const responses: CalculateResponse[] = [];
+  let done = 0;
+  const settle = (index: number, response: CalculateResponse) => {
+    responses[index] = response;
+    done++;
+    onProgress?.({ done, total: requests.length });
+  };
+  // ขนาดกลุ่ม 0 หรือติดลบจะวนไม่จบ
+  const size = Number.isNaN(batchSize)
+    ? DEFAULT_BATCH_SIZE
+    : Math.max(1, Math.floor(batchSize));
+  let batchSupported = true;
+  for (let start = 0; start < requests.length; start += size) {
+    const rows = requests.slice(start, start + size);
+    if (batchSupported) {
+      const response = await call(
+        {
+          method: "post",
+          url: "/api/commission/calculate/batch",
+          data: { requests: rows },
+          schema: batchSchema,
+          idempotent: true,
+        },
+        options,
+      );
+      batchSupported = !BATCH_UNSUPPORTED.includes(response.status ?? 0);
+      if (batchSupported) {
+        rows.forEach((_, i) =>
+          settle(start + i, batchItemResponse(response, i)),
+        );
+        continue;
+      }
+    }
+    await runWithConcurrency(rows, concurrency, async (row, i) =>
+      settle(start + i, await calculateCommission(row, options)),
+    );
+  }
+  return responses;
+};
+
+/**
+ * Fetch the active commission plan
+ */
+export const fetchCommissionPlan = (
+  options?: ApiOptions,
+): Promise<CommissionPlanResponse> =>
+  call(
+    { method: "get", url: "/api/commission/plan", schema: planSchema },
+    options,
+  );
+
+/**
+ * Replace the active commission plan
+ */
+export const saveCommissionPlan = (
+  plan: CommissionPlan,
+  options?: ApiOptions,
+): Promise<CommissionPlanResponse> =>
+  call(
+    {
+      method: "put",
+      url: "/api/commission/plan",
+      data: plan,
+      schema: optional(planSchema),
+    },
+    options,
+  );
+
+export type HistoryListResponse = ApiResponse<Entry[]>;
+export type HistoryEntryResponse = ApiResponse<Entry>;
+
+/**
+ * List the calculation history stored on the server
+ */
+export const fetchHistory = (
+  options?: ApiOptions,
+): Promise<HistoryListResponse> =>
+  call(
+    { method: "get", url: "/api/history", schema: array(entrySchema) },
+    options,
+  );
+
+/**
+ * Store a new history entry (the client-generated id is kept by the server)
+ */
+export const createHistoryEntry = (
+  entry: Entry,
+  options?: ApiOptions,
+): Promise<HistoryEntryResponse> =>
+  call(
+    {
+      method: "post",
+      url: "/api/history",
+      data: entry,
+      // การบันทึกอาจตอบกลับพร้อมรายการที่เก็บไว้หรือไม่มี data ก็ได้
+      schema: optional(entrySchema),
+    },
+    options,
+  );
+
+/**
+ * Replace an existing history entry
+ */
+export const updateHistoryEntry = (
+  entry: Entry,
+  options?: ApiOptions,
+): Promise<HistoryEntryResponse> =>
+  call(
+    {
+      method: "put",
+      url: `/api/history/${encodeURIComponent(entry.id)}`,
+      data: entry,
+      schema: optional(entrySchema),
+    },
+    options,
+  );
+
+/**
+ * Delete one history entry
+ */
+export const deleteHistoryEntry = (
+  id: Entry["id"],
+  options?: ApiOptions,
+): Promise<ApiResponse<null>> =>
+  call(
+    {
+      method: "delete",
+      url: `/api/history/${encodeURIComponent(id)}`,
+      schema: noData,
+    },
+    options,
+  );
+
+/**
+ * Delete the whole history
+ */
+export const clearHistory = (
+  options?: ApiOptions,
+): Promise<ApiResponse<null>> =>
+  call({ method: "delete", url: "/api/history", schema: noData }, options);
+
+export type ClosedPeriodsResponse = ApiResponse<ClosedPeriod[]>;
+
+/**
+ * List the months closed on the server
+ */
+export const fetchClosedPeriods = (
+  options?: ApiOptions,
+): Promise<ClosedPeriodsResponse> =>
+  call(
+    { method: "get", url: "/api/periods", schema: array(closedPeriodSchema) },
+    options,
+  );
+
+/**
+ * Close months; the server answers with every closed month, periods that
+ * were already closed keep their first close
+ */
+export const closePeriods = (
+  closed: ClosedPeriod[],
+  options?: ApiOptions,
+): Promise<ClosedPeriodsResponse> =>
+  call(
+    {
+      method: "post",
+      url: "/api/periods",
+      data: closed,
+      schema: array(closedPeriodSchema),
+      idempotent: true,
+    },
+    options,
+  );
+
+export type SalesTargetsResponse = ApiResponse<SalesTarget[]>;
+export type SalesTargetResponse = ApiResponse<SalesTarget>;
+
+/**
+ * List the sales targets the user may see: reps their own, managers their
+ * team's, admins all
+ */
+export const fetchSalesTargets = (
+  options?: ApiOptions,
+): Promise<SalesTargetsResponse> =>
+  call(
+    { method: "get", url: "/api/targets", schema: array(salesTargetSchema) },
+    options,
+  );
+
+/**
+ * Set the target of one employee and period (`id` from targetId), replacing
+ * the previous one
+ */
+export const saveSalesTarget = (
+  id: string,
+  target: SalesTarget,
+  options?: ApiOptions,
+): Promise<SalesTargetResponse> =>
+  call(
+    {
+      method: "put",
+      url: `/api/targets/${encodeURIComponent(id)}`,
+      data: target,
+      schema: optional(salesTargetSchema),
+    },
+    options,
+  );
+
+/**
+ * Remove the target of one employee and period
+ */
+export const deleteSalesTarget = (
+  id: string,
+  options?: ApiOptions,
+): Promise<ApiResponse<null>> =>
+  call(
+    {
+      method: "delete",
+      url: `/api/targets/${encodeURIComponent(id)}`,
+      schema: noData,
+    },
+    options,
+  );
+
+export type EmployeesResponse = ApiResponse<Employee[]>;
+
+/**
+ * List the employee directory
+ */
+export const fetchEmployees = (
+  options?: ApiOptions,
+): Promise<EmployeesResponse> =>
+  call(
+    { method: "get", url: "/api/employees", schema: array(employeeSchema) },
+    options,
+  );
+
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
+export type UserResponse = ApiResponse<User>;
+
+/**
+ * Sign in; the server answers with the user and sets the session cookie
+ */
+export const login = (
+  credentials: Credentials,
+  options?: ApiOptions,
+): Promise<UserResponse> =>
+  call(
+    {
+      method: "post",
+      url: "/api/auth/login",
+      data: credentials,
+      schema: userSchema,
+      authenticates: true,
+    },
+    options,
+  );
+
+/**
+ * End the session on the server
+ */
+export const logout = (options?: ApiOptions): Promise<ApiResponse<null>> =>
+  call(
+    {
+      method: "post",
+      url: "/api/auth/logout",
+      schema: noData,
+      idempotent: true,
+      authenticates: true,
+    },
+    options,
+  );
+
+/**
+ * User of the current session cookie; 401 when nobody is signed in
+ */
+export const fetchSession = (options?: ApiOptions): Promise<UserResponse> =>
+  call(
+    {
+      method: "get",
+      url: "/api/auth/session",
+      schema: userSchema,
+      authenticates: true,
+    },
+    options,
+  );
+
+export type UsersResponse = ApiResponse<User[]>;
+
+/**
+ * List the users (admins only)
+ */
+export const fetchUsers = (options?: ApiOptions): Promise<UsersResponse> =>
+  call(
+    { method: "get", url: "/api/users", schema: array(userSchema) },
+    options,
+  );
+
+/**
+ * Change a user's role, team or linked employee (admins only)
+ */
+export const updateUser = (
+  user: User,
+  options?: ApiOptions,
+): Promise<UserResponse> =>
+  call(
+    {
+      method: "put",
+      url: `/api/users/${encodeURIComponent(user.id)}`,
+      data: user,
+      schema: optional(userSchema),
+    },
+    options,
+  );
@@ -0,0 +1,324 @@
+import { afterEach, describe, it, expect } from "vitest";
+import {
+  apiClient,
+  createHistoryEntry,
+  deleteHistoryEntry,
+  updateHistoryEntry,
+} from "./api";
+import {
+  canChangeStatus,
+  changeStatus,
+  changeStatuses,
+  isReadOnly,
+  rejectionOf,
+  statusNotifications,
+} from "./approval";
+import { reviseEntry } from "./entries";
+import { appError } from "./errors";
+import {
+  MOCK_USERS,
+  createMockAdapter,
+  createMockState,
+  publicUser,
+} from "./mockApi";
+import { normalizeEntry } from "./storage";
+import { Entry, User } from "./types";
+import { validateRejectionReason } from "./validation";
+
+const userNamed = (username: string): User =>
+  publicUser(MOCK_USERS.find((user) => user.username === username)!);
+
+const REP = userNamed("thakun");
+const OTHER_REP = userNamed("ken");
+const MANAGER = userNamed("north.manager");
+const ADMIN = userNamed("admin");
+
+const draft: Entry = {
+  id: "1",
+  number: 1,
+  name: "ฐากูร",
+  employeeId: "E001",
+  locks: 10,
+  stocks: 10,
+  barrels: 10,
+  sales: 1000,
+  commission: 100,
+  isValid: true,
+  errors: [],
+  date: "2026-10-01",
+  period: "2026-10",
+  createdBy: REP.id,
+};
+
+const submitted = changeStatus(
+  draft,
+  "submitted",
+  REP,
+  undefined,
+  "2026-10-01T10:00:00.000Z",
+);
+
+const originalAdapter = apiClient.defaults.adapter;
+afterEach(() => {
+  apiClient.defaults.adapter = originalAdapter;
+});
+
+/**
+ * FR-22: ขั้นตอนอนุมัติค่าคอมมิชชั่น
+ * - รายการมีสถานะ ฉบับร่าง, รออนุมัติ, อนุมัติแล้ว, ไม่อนุมัติ และจ่ายแล้ว
+ * - ผู้จัดการอนุมัติหรือไม่อนุมัติทีละหลายรายการ การไม่อนุมัติต้องมีเหตุผล
+ * - พนักงานขายได้รับแจ้งเมื่อสถานะรายการเปลี่ยน
+ * - รายการที่อนุมัติแล้วแก้ไขหรือลบไม่ได้
+ */
+describe("FR-22: Approval Workflow", () => {
+  describe("transitions", () => {
+    it("should let reps submit drafts and managers approve or reject them", () => {
+      expect(canChangeStatus(REP, draft, "submitted")).toBe(true);
+      expect(canChangeStatus(REP, draft, "approved")).toBe(false);
+      expect(canChangeStatus(REP, submitted, "approved")).toBe(false);
+      expect(canChangeStatus(MANAGER, submitted, "approved")).toBe(true);
+      expect(canChangeStatus(MANAGER, submitted, "rejected")).toBe(true);
+      expect(canChangeStatus(MANAGER, draft, "approved")).toBe(false);
+    });
+
+    it("should only let admins mark approved entries as paid", () => {
+      const approved = changeStatus(submitted, "approved", MANAGER);
+      expect(canChangeStatus(MANAGER, approved, "paid")).toBe(false);
+      expect(canChangeStatus(ADMIN, approved, "paid")).toBe(true);
+      expect(canChangeStatus(ADMIN, draft, "paid")).toBe(false);
+    });
+
+    it("should not submit invalid or unverified entries", () => {
+      expect(
+        canChangeStatus(REP, { ...draft, isValid: false }, "submitted"),
+      ).toBe(false);
+      expect(
+        canChangeStatus(
+          REP,
+          { ...draft, calculatedOffline: true },
+          "submitted",
+        ),
+      ).toBe(false);
+      expect(canChangeStatus(null, draft, "submitted")).toBe(false);
+    });
+
+    it("should record who changed the status and keep the values", () => {
+      const rejected = changeStatus(
+        submitted,
+        "rejected",
+        MANAGER,
+        "  Wrong date  ",
+        "2026-10-02T10:00:00.000Z",
+      );
+
+      expect(rejected.sales).toBe(draft.sales);
+      expect(rejected.revisions).toBeUndefined();
+      expect(rejected.statusHistory).toEqual([
+        {
+          status: "submitted",
+          changedAt: "2026-10-01T10:00:00.000Z",
+          userId: REP.id,
+          name: REP.name,
+        },
+        {
+          status: "rejected",
+          changedAt: "2026-10-02T10:00:00.000Z",
+          userId: MANAGER.id,
+          name: MANAGER.name,
+          reason: "Wrong date",
+        },
+      ]);
+      expect(rejectionOf(rejected)?.reason).toBe("Wrong date");
+      expect(rejectionOf(changeStatus(rejected, "submitted", REP))).toBe(
+        undefined,
+      );
+    });
+
+    it("should skip entries that cannot move in a bulk change", () => {
+      const changed = changeStatuses(
+        [submitted, draft, { ...submitted, id: "2", number: 2 }],
+        "approved",
+        MANAGER,
+      );
+      expect(changed.map(({ number, status }) => [number, status])).toEqual([
+        [1, "approved"],
+        [2, "approved"],
+      ]);
+    });
+
+    it("should require a rejection reason", () => {
+      expect(validateRejectionReason("   ")).toEqual(
+        appError("REASON_REQUIRED"),
+      );
+      expect(validateRejectionReason("Wrong date")).toBeNull();
+    });
+  });
+
+  describe("read-only entries", () => {
+    it("should lock approved and paid entries", () => {
+      const approved = changeStatus(submitted, "approved", MANAGER);
+      expect(isReadOnly(draft)).toBe(false);
+      expect(isReadOnly(submitted)).toBe(false);
+      expect(isReadOnly(approved)).toBe(true);
+      expect(isReadOnly(changeStatus(approved, "paid", ADMIN))).toBe(true);
+    });
+
+    it("should send an edited entry back to draft", () => {
+      const rejected = changeStatus(submitted, "rejected", MANAGER, "Typo");
+      const revised = reviseEntry(rejected, { ...draft, locks: 12 }, REP);
+
+      expect(revised.status).toBeUndefined();
+      expect(revised.statusHistory).toHaveLength(2);
+      expect(canChangeStatus(REP, revised, "submitted")).toBe(true);
+    });
+
+    it("should read entries approved before statuses existed as approved", () => {
+      const legacy = {
+        ...draft,
+        approval: {
+          userId: MANAGER.id,
+          name: MANAGER.name,
+          approvedAt: "2026-10-03T08:00:00.000Z",
+        },
+      };
+      const normalized = normalizeEntry(legacy);
+
+      expect(normalized.status).toBe("approved");
+      expect(normalized.statusHistory?.[0]).toMatchObject({
+        userId: MANAGER.id,
+        changedAt: "2026-10-03T08:00:00.000Z",
+      });
+      expect("approval" in normalized).toBe(false);
+    });
+  });
+
+  describe("notifications", () => {
+    it("should list changes made by others after the last read, newest first", () => {
+      const rejected = changeStatus(
+        submitted,
+        "rejected",
+        MANAGER,
+        "Typo",
+        "2026-10-02T10:00:00.000Z",
+      );
+      const approved = changeStatus(
+        { ...submitted, id: "2", number: 2 },
+        "approved",
+        MANAGER,
+        undefined,
+        "2026-10-03T10:00:00.000Z",
+      );
+
+      const all = statusNotifications([rejected, approved], REP);
+      expect(
+        all.map(({ entry, change }) => [entry.number, change.status]),
+      ).toEqual([
+        [2, "approved"],
+        [1, "rejected"],
+      ]);
+      expect(
+        statusNotifications(
+          [rejected, approved],
+          REP,
+          "2026-10-02T10:00:00.000Z",
+        ),
+      ).toHaveLength(1);
+      // การส่งอนุมัติของพนักงานขายแจ้งผู้จัดการ ไม่ใช่ตัวเอง
+      expect(
+        statusNotifications([submitted], MANAGER).map(
+          ({ change }) => change.status,
+        ),
+      ).toEqual(["submitted"]);
+    });
+  });
+
+  describe("API", () => {
+    it("should refuse status changes the user may not make", async () => {
+      const state = createMockState();
+      apiClient.defaults.adapter = createMockAdapter({
+        state,
+        signedInAs: REP.id,
+      });
+      await createHistoryEntry(draft);
+
+      expect((await updateHistoryEntry(submitted)).success).toBe(true);
+      const approved = changeStatus(submitted, "approved", MANAGER);
+      expect((await updateHistoryEntry(approved)).errors).toEqual([
+        appError("FORBIDDEN"),
+      ]);
+
+      apiClient.defaults.adapter = createMockAdapter({
+        state,
+        signedInAs: MANAGER.id,
+      });
+      expect((await updateHistoryEntry(approved)).success).toBe(true);
+      expect((await deleteHistoryEntry(approved.id)).status).toBe(403);
+    });
+
+    it("should only let read-only entries move to the next status", async () => {
+      const state = createMockState();
+      apiClient.defaults.adapter = createMockAdapter({
+        state,
+        signedInAs: REP.id,
+      });
+      await createHistoryEntry(submitted);
+      apiClient.defaults.adapter = createMockAdapter({
+        state,
+        signedInAs: ADMIN.id,
+      });
+      const inflated = {
+        ...changeStatus(submitted, "approved", ADMIN),
+        sales: 9000,
+      };
+      expect((await updateHistoryEntry(inflated)).status).toBe(403);
+
+      const approved = changeStatus(submitted, "approved", ADMIN);
+      expect((await updateHistoryEntry(approved)).success).toBe(true);
+      expect(
+        (await updateHistoryEntry({ ...approved, commission: 900 })).status,
+      ).toBe(403);
+      expect(
+        (await updateHistoryEntry({ ...approved, name: "Ken" })).status,
+      ).toBe(403);
+      const paid = changeStatus(approved, "paid", ADMIN);
+      expect((await updateHistoryEntry(paid)).success).toBe(true);
+      expect(state.history.get(draft.id)).toMatchObject({
+        status: "paid",
+        sales: 1000,
+        commission: 100,
+      });
+    });
+
+    it("should not let a rep write or delete another rep's entries", async () => {
+      const state = createMockState();
+      apiClient.defaults.adapter = createMockAdapter({
+        state,
+        signedInAs: REP.id,
+      });
+      await createHistoryEntry(draft);
+      expect(
+        (await createHistoryEntry({ ...draft, id: "2", employeeId: "E002" }))
+          .status,
+      ).toBe(403);
+
+      apiClient.defaults.adapter = createMockAdapter({
+        state,
+        signedInAs: OTHER_REP.id,
+      });
+      expect(
+        (
+          await updateHistoryEntry({
+            ...draft,
+            createdBy: OTHER_REP.id,
+            sales: 1,
+          })
+        ).status,
+      ).toBe(403);
+      expect((await deleteHistoryEntry(draft.id)).status).toBe(403);
+      expect(state.history.get(draft.id)).toMatchObject({
+        sales: 1000,
+        createdBy: REP.id,
+      });
+    });
+  });
+});
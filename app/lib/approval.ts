@@ -0,0 +1,169 @@
+// Approval workflow: entry status, allowed transitions and status notifications
+// api.ts อ่าน ENTRY_STATUSES ตอนโหลด จึงไม่ import โมดูลที่วนกลับไปหา api.ts
+import { can } from "./auth";
+import { Entry, EntryStatus, StatusChange, User } from "./types";
+import { readVersioned, writeVersioned } from "./versionedStorage";
+
+export const ENTRY_STATUSES: EntryStatus[] = [
+  "draft",
+  "submitted",
+  "approved",
+  "rejected",
+  "paid",
+];
+
+export const NOTIFICATIONS_SEEN_KEY = "commissionNotificationsSeen";
+
+export const statusOf = (entry: Entry): EntryStatus => entry.status ?? "draft";
+
+// สถานะถัดไปที่เปลี่ยนได้ และผู้ที่เปลี่ยนได้
+const TRANSITIONS: Record<
+  EntryStatus,
+  Partial<Record<EntryStatus, (user: User) => boolean>>
+> = {
+  draft: { submitted: () => true },
+  // แก้ไขรายการที่ไม่อนุมัติหรือถอนการส่ง ทำให้กลับเป็นฉบับร่าง
+  rejected: { submitted: () => true, draft: () => true },
+  submitted: {
+    draft: () => true,
+    approved: (user) => can(user, "approve"),
+    rejected: (user) => can(user, "approve"),
+  },
+  approved: { paid: (user) => can(user, "markPaid") },
+  paid: {},
+};
+
+/**
+ * Whether the user may move a valid entry they can see to the given status.
+ * Entries calculated offline are submitted only after the server verified them.
+ */
+export const canChangeStatus = (
+  user: User | null,
+  entry: Entry,
+  to: EntryStatus,
+): boolean => {
+  if (!user || !entry.isValid || entry.calculatedOffline) return false;
+  const allows = TRANSITIONS[statusOf(entry)][to];
+  return allows !== undefined && allows(user);
+};
+
+/**
+ * Approved and paid entries can no longer be edited or deleted
+ */
+export const isReadOnly = (entry: Entry): boolean =>
+  statusOf(entry) === "approved" || statusOf(entry) === "paid";
+
+/**
+ * Only approved or paid entries count toward payouts, month closes and
+ * target bonuses; entries calculated offline wait for server verification
+ */
+export const isPayable = (entry: Entry): boolean =>
+  entry.isValid && !entry.calculatedOffline && isReadOnly(entry);
+
+/**
+ * Move an entry to a new status and record who did it; the values do not
+ * change, so no revision is added
+ */
+export const changeStatus = (
+  entry: Entry,
+  to: EntryStatus,
+  user: User,
+  reason?: string,
+  changedAt: string = new Date().toISOString(),
+): Entry => {
+  const change: StatusChange = {
+    status: to,
+    changedAt,
+    userId: user.id,
+    name: user.name,
+    ...(reason?.trim() ? { reason: reason.trim() } : {}),
+  };
+  return {
+    ...entry,
+    status: to,
+    statusHistory: [...(entry.statusHistory ?? []), change],
+  };
+};
+
+/**
+ * Bulk version of changeStatus; entries the user may not move are skipped
+ */
+export const changeStatuses = (
+  entries: Entry[],
+  to: EntryStatus,
+  user: User,
+  reason?: string,
+  changedAt: string = new Date().toISOString(),
+): Entry[] =>
+  entries
+    .filter((entry) => canChangeStatus(user, entry, to))
+    .map((entry) => changeStatus(entry, to, user, reason, changedAt));
+
+export const entriesWithStatus = (
+  entries: Entry[],
+  status: EntryStatus,
+): Entry[] => entries.filter((entry) => statusOf(entry) === status);
+
+/**
+ * Reason of the latest rejection, shown to the rep until they resubmit
+ */
+export const rejectionOf = (entry: Entry): StatusChange | undefined =>
+  statusOf(entry) === "rejected"
+    ? entry.statusHistory?.findLast((change) => change.status === "rejected")
+    : undefined;
+
+export interface StatusNotification {
+  entry: Entry;
+  change: StatusChange;
+}
+
+/**
+ * Status changes other users made to the given entries after `seenAt`,
+ * newest first
+ */
+export const statusNotifications = (
+  entries: Entry[],
+  user: User,
+  seenAt?: string,
+): StatusNotification[] =>
+  entries
+    .flatMap((entry) =>
+      (entry.statusHistory ?? [])
+        .filter(
+          (change) =>
+            change.userId !== user.id && (!seenAt || change.changedAt > seenAt),
+        )
+        .map((change) => ({ entry, change })),
+    )
+    .sort((a, b) => b.change.changedAt.localeCompare(a.change.changedAt));
+
+const NOTIFICATIONS_SEEN = {
+  key: NOTIFICATIONS_SEEN_KEY,
+  migrations: {},
+  // เก็บเฉพาะเวลาที่เป็นข้อความ ค่าอื่นถูกตัดทิ้ง
+  recover: (data: unknown) => {
+    if (typeof data !== "object" || data === null || Array.isArray(data)) {
+      return { data: {}, dropped: data == null ? 0 : 1 };
+    }
+    const all = Object.entries(data);
+    const kept = all.filter(([, seenAt]) => typeof seenAt === "string");
+    return {
+      data: Object.fromEntries(kept) as Record<string, string>,
+      dropped: all.length - kept.length,
+    };
+  },
+  empty: (): Record<string, string> => ({}),
+};
+
+/**
+ * When each user last read their notifications, by user id
+ */
+export const loadNotificationsSeenAt = (userId: string): string | undefined =>
+  readVersioned(NOTIFICATIONS_SEEN).data[userId];
+
+export const saveNotificationsSeenAt = (userId: string, seenAt: string) => {
+  writeVersioned(NOTIFICATIONS_SEEN_KEY, {
+    ...readVersioned(NOTIFICATIONS_SEEN).data,
+    [userId]: seenAt,
+  });
+};
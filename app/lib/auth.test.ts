@@ -0,0 +1,183 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import {
+  apiClient,
+  createHistoryEntry,
+  fetchHistory,
+  fetchSession,
+  fetchUsers,
+  login,
+  logout,
+  saveCommissionPlan,
+  setUnauthorizedHandler,
+} from "./api";
+import {
+  can,
+  canCalculateFor,
+  canViewEntry,
+  loginPath,
+  routeAccess,
+  safeNextPath,
+} from "./auth";
+import { appError } from "./errors";
+import {
+  MOCK_EMPLOYEES,
+  MOCK_PASSWORD,
+  MOCK_USERS,
+  createMockAdapter,
+  createMockState,
+  publicUser,
+} from "./mockApi";
+import { DEFAULT_PLAN } from "./plan";
+import { User } from "./types";
+import { testEntry } from "./testing/fixtures";
+
+const userNamed = (username: string): User =>
+  publicUser(MOCK_USERS.find((user) => user.username === username)!);
+
+const REP = userNamed("thakun");
+const OTHER_REP = userNamed("ken");
+const MANAGER = userNamed("north.manager");
+const ADMIN = userNamed("admin");
+
+const originalAdapter = apiClient.defaults.adapter;
+afterEach(() => {
+  apiClient.defaults.adapter = originalAdapter;
+  setUnauthorizedHandler(null);
+});
+
+/**
+ * FR-21: เข้าสู่ระบบและสิทธิ์ตามบทบาท
+ * - พนักงานขายเห็นเฉพาะรายการของตนเอง
+ * - ผู้จัดการเห็นรายการของทีม
+ * - ผู้ดูแลระบบจัดการแผนค่าคอมมิชชั่นและผู้ใช้งาน
+ * - API ตอบ 401 ให้กลับไปหน้าเข้าสู่ระบบ
+ */
+describe("FR-21: Authentication and Role-based Access", () => {
+  describe("permissions", () => {
+    it("should give each role its permissions", () => {
+      expect(can(REP, "calculateForOthers")).toBe(false);
+      expect(can(MANAGER, "approve")).toBe(true);
+      expect(can(MANAGER, "managePlans")).toBe(false);
+      expect(can(ADMIN, "manageUsers")).toBe(true);
+      expect(can(null, "approve")).toBe(false);
+    });
+
+    it("should let reps calculate for themselves and managers for their team", () => {
+      const [thakun, ken, ekarin] = MOCK_EMPLOYEES;
+      expect(canCalculateFor(REP, thakun)).toBe(true);
+      expect(canCalculateFor(REP, ekarin)).toBe(false);
+      expect(canCalculateFor(MANAGER, ekarin)).toBe(true);
+      expect(canCalculateFor(MANAGER, ken)).toBe(false);
+      expect(canCalculateFor(ADMIN, ken)).toBe(true);
+    });
+
+    it("should show reps their own entries and managers their team's", () => {
+      const own = testEntry({ employeeId: "E001" });
+      const south = testEntry({ employeeId: "E002" });
+      const untracked = testEntry({ employeeId: undefined, createdBy: REP.id });
+
+      expect(canViewEntry(REP, own, MOCK_EMPLOYEES)).toBe(true);
+      expect(canViewEntry(REP, south, MOCK_EMPLOYEES)).toBe(false);
+      expect(canViewEntry(REP, untracked, MOCK_EMPLOYEES)).toBe(true);
+      expect(canViewEntry(OTHER_REP, untracked, MOCK_EMPLOYEES)).toBe(false);
+      expect(canViewEntry(MANAGER, own, MOCK_EMPLOYEES)).toBe(true);
+      expect(canViewEntry(MANAGER, south, MOCK_EMPLOYEES)).toBe(false);
+      expect(canViewEntry(ADMIN, south, MOCK_EMPLOYEES)).toBe(true);
+    });
+  });
+
+  describe("routes", () => {
+    it("should send visitors without a session to the login page", () => {
+      expect(routeAccess(null, "/")).toBe("signIn");
+      expect(routeAccess(null, "/login")).toBe("allowed");
+      expect(loginPath("/dashboard")).toBe("/login?next=%2Fdashboard");
+      expect(loginPath("/")).toBe("/login");
+    });
+
+    it("should restrict pages by role", () => {
+      expect(routeAccess(REP, "/")).toBe("allowed");
+      expect(routeAccess(REP, "/plan")).toBe("forbidden");
+      expect(routeAccess(REP, "/employees")).toBe("forbidden");
+      expect(routeAccess(REP, "/employees/E001")).toBe("allowed");
+      expect(routeAccess(REP, "/employees/E002")).toBe("forbidden");
+      expect(routeAccess(MANAGER, "/periods")).toBe("allowed");
+      expect(routeAccess(MANAGER, "/users")).toBe("forbidden");
+      expect(routeAccess(MANAGER, "/approvals")).toBe("allowed");
+      expect(routeAccess(REP, "/approvals")).toBe("forbidden");
+      expect(routeAccess(ADMIN, "/plan")).toBe("allowed");
+      expect(routeAccess(MANAGER, "/targets")).toBe("allowed");
+      expect(routeAccess(REP, "/targets")).toBe("forbidden");
+    });
+
+    it("should only follow same-site paths after login", () => {
+      expect(safeNextPath("/dashboard")).toBe("/dashboard");
+      expect(safeNextPath("//evil.example")).toBe("/");
+      expect(safeNextPath("https://evil.example")).toBe("/");
+      expect(safeNextPath("/\\evil.com")).toBe("/");
+      expect(safeNextPath("/%5Cevil.com")).toBe("/");
+      expect(safeNextPath("/%2F%2Fevil.com")).toBe("/");
+      expect(safeNextPath("/\tevil.com")).toBe("/");
+      expect(safeNextPath("/%E0%A4%A")).toBe("/");
+      expect(safeNextPath("/employees/E001?tab=2")).toBe(
+        "/employees/E001?tab=2",
+      );
+      expect(safeNextPath(null)).toBe("/");
+    });
+  });
+
+  describe("API", () => {
+    it("should sign in, keep the session and sign out", async () => {
+      apiClient.defaults.adapter = createMockAdapter();
+      expect((await fetchSession()).status).toBe(401);
+
+      const response = await login({
+        username: "thakun",
+        password: MOCK_PASSWORD,
+      });
+      expect(response.data).toEqual(REP);
+      expect((await fetchSession()).data).toEqual(REP);
+
+      await logout();
+      expect((await fetchSession()).success).toBe(false);
+    });
+
+    it("should reject a wrong password without redirecting", async () => {
+      apiClient.defaults.adapter = createMockAdapter();
+      const onUnauthorized = vi.fn();
+      setUnauthorizedHandler(onUnauthorized);
+
+      const response = await login({ username: "thakun", password: "nope" });
+      expect(response.errors).toEqual([appError("INVALID_CREDENTIALS")]);
+      expect(onUnauthorized).not.toHaveBeenCalled();
+    });
+
+    it("should call the unauthorized handler when a call answers 401", async () => {
+      apiClient.defaults.adapter = createMockAdapter();
+      const onUnauthorized = vi.fn();
+      setUnauthorizedHandler(onUnauthorized);
+
+      const response = await fetchHistory();
+      expect(response).toMatchObject({ success: false, status: 401 });
+      expect(response.errors).toEqual([appError("UNAUTHORIZED")]);
+      expect(onUnauthorized).toHaveBeenCalledTimes(1);
+    });
+
+    it("should enforce roles on the server", async () => {
+      const state = createMockState();
+      apiClient.defaults.adapter = createMockAdapter({
+        state,
+        signedInAs: REP.id,
+      });
+      await createHistoryEntry(testEntry({ number: 1, employeeId: "E001" }));
+      await createHistoryEntry(testEntry({ number: 2, employeeId: "E002" }));
+
+      expect((await fetchHistory()).data?.map(({ number }) => number)).toEqual([
+        1,
+      ]);
+      expect((await saveCommissionPlan(DEFAULT_PLAN)).errors).toEqual([
+        appError("FORBIDDEN"),
+      ]);
+      expect((await fetchUsers()).status).toBe(403);
+    });
+  });
+});
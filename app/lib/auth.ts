@@ -0,0 +1,198 @@
+// Roles, permissions, entry visibility and route access
+// ฝั่ง client ใช้ซ่อนเมนูและกรองรายการ ส่วนการบังคับสิทธิ์จริงอยู่ที่เซิร์ฟเวอร์
+import { Employee, Entry, Role, User } from "./types";
+
+export const ROLES: Role[] = ["rep", "manager", "admin"];
+
+export type Permission =
+  | "calculateForOthers"
+  | "viewEmployees"
+  | "approve"
+  | "markPaid"
+  | "closePeriods"
+  | "setTargets"
+  | "managePlans"
+  | "manageUsers";
+
+export const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  rep: [],
+  manager: [
+    "calculateForOthers",
+    "viewEmployees",
+    "approve",
+    "closePeriods",
+    "setTargets",
+  ],
+  admin: [
+    "calculateForOthers",
+    "viewEmployees",
+    "approve",
+    "markPaid",
+    "closePeriods",
+    "setTargets",
+    "managePlans",
+    "manageUsers",
+  ],
+};
+
+export const SESSION_KEY = "commissionSession";
+
+export const LOGIN_PATH = "/login";
+
+export const isRole = (value: unknown): value is Role =>
+  ROLES.includes(value as Role);
+
+export const can = (user: User | null, permission: Permission): boolean =>
+  user !== null && ROLE_PERMISSIONS[user.role].includes(permission);
+
+const teamOf = (employees: Employee[], employeeId?: string) =>
+  employees.find((employee) => employee.id === employeeId)?.team;
+
+/**
+ * Whether the user may calculate commission in this employee's name:
+ * reps for themselves, managers for their team, admins for anyone
+ */
+export const canCalculateFor = (user: User, employee: Employee): boolean => {
+  switch (user.role) {
+    case "admin":
+      return true;
+    case "manager":
+      return employee.team === user.team;
+    default:
+      return employee.id === user.employeeId;
+  }
+};
+
+/**
+ * Reps see their own entries, managers their team's, admins everything.
+ * Entries a user created stay visible to them.
+ */
+export const canViewEntry = (
+  user: User,
+  entry: Entry,
+  employees: Employee[],
+): boolean => {
+  if (user.role === "admin" || entry.createdBy === user.id) return true;
+  if (user.role === "manager") {
+    return (
+      user.team !== undefined &&
+      teamOf(employees, entry.employeeId) === user.team
+    );
+  }
+  return user.employeeId !== undefined && entry.employeeId === user.employeeId;
+};
+
+export const visibleEntries = (
+  user: User | null,
+  entries: Entry[],
+  employees: Employee[],
+): Entry[] =>
+  user ? entries.filter((entry) => canViewEntry(user, entry, employees)) : [];
+
+export type RouteAccess = "allowed" | "signIn" | "forbidden";
+
+interface RouteRule {
+  pattern: RegExp;
+  /** Receives the captured groups of `pattern` */
+  allows: (user: User, params: string[]) => boolean;
+}
+
+// เส้นทางที่ไม่อยู่ในรายการนี้ต้องเข้าสู่ระบบเท่านั้น
+const ROUTE_RULES: RouteRule[] = [
+  { pattern: /^\/plan(\/|$)/, allows: (user) => can(user, "managePlans") },
+  { pattern: /^\/users(\/|$)/, allows: (user) => can(user, "manageUsers") },
+  { pattern: /^\/periods(\/|$)/, allows: (user) => can(user, "closePeriods") },
+  { pattern: /^\/targets(\/|$)/, allows: (user) => can(user, "setTargets") },
+  {
+    pattern: /^\/approvals(\/|$)/,
+    allows: (user) => can(user, "approve") || can(user, "markPaid"),
+  },
+  {
+    pattern: /^\/employees\/([^/]+)$/,
+    allows: (user, [id]) =>
+      can(user, "viewEmployees") || decodeURIComponent(id) === user.employeeId,
+  },
+  {
+    pattern: /^\/employees\/?$/,
+    allows: (user) => can(user, "viewEmployees"),
+  },
+];
+
+export const isPublicRoute = (pathname: string): boolean =>
+  pathname === LOGIN_PATH;
+
+/**
+ * What the guard should do with a page: show it, send the visitor to the
+ * login page, or refuse because of the role
+ */
+export const routeAccess = (
+  user: User | null,
+  pathname: string,
+): RouteAccess => {
+  if (isPublicRoute(pathname)) return "allowed";
+  if (!user) return "signIn";
+  for (const { pattern, allows } of ROUTE_RULES) {
+    const match = pathname.match(pattern);
+    if (match) return allows(user, match.slice(1)) ? "allowed" : "forbidden";
+  }
+  return "allowed";
+};
+
+// เบราว์เซอร์ตีความ "/\host" เป็น "//host" และตัดอักขระควบคุมทิ้งก่อนแยก URL
+const hasUnsafeCharacter = (path: string): boolean =>
+  [...path].some(
+    (char) => char === "\\" || char <= "\u001f" || char === "\u007f",
+  );
+
+const decodedPath = (path: string): string | null => {
+  try {
+    return decodeURIComponent(path);
+  } catch {
+    return null;
+  }
+};
+
+const SAME_ORIGIN_BASE = "http://same-origin.invalid";
+
+/**
+ * Only same-site paths are followed after login, never another origin.
+ * Backslashes and control characters are refused, also percent-encoded.
+ */
+export const safeNextPath = (next: string | null | undefined): string => {
+  if (!next || next === LOGIN_PATH) return "/";
+  const decoded = decodedPath(next);
+  const isSafe =
+    decoded !== null &&
+    [next, decoded].every(
+      (path) =>
+        path.startsWith("/") &&
+        !path.startsWith("//") &&
+        !hasUnsafeCharacter(path),
+    ) &&
+    new URL(next, SAME_ORIGIN_BASE).origin === SAME_ORIGIN_BASE;
+  return isSafe ? next : "/";
+};
+
+export const loginPath = (next: string): string =>
+  next === "/" || next === LOGIN_PATH
+    ? LOGIN_PATH
+    : `${LOGIN_PATH}?next=${encodeURIComponent(next)}`;
+
+/**
+ * Last known session, so the app keeps working offline
+ */
+export const loadStoredSession = (): User | null => {
+  if (typeof window === "undefined") return null;
+  try {
+    const saved = localStorage.getItem(SESSION_KEY);
+    const user = saved ? (JSON.parse(saved) as User) : null;
+    return user && isRole(user.role) ? user : null;
+  } catch {
+    return null;
+  }
+};
+
+export const storeSession = (user: User | null): void => {
+  if (user) localStorage.setItem(SESSION_KEY, JSON.stringify(user));
+  else localStorage.removeItem(SESSION_KEY);
+};
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import {
+  calculateSales,
+  calculateTieredCommission,
+  calculateCommissionLocally,
+  calculateBreakdown,
+  mirrorBreakdown,
+} from "./commission";
+import { entryFromResponse } from "./entries";
+
+/**
+ * FR-02: ระบบคำนวณยอดขายและค่าคอมมิชชั่นได้ แม้ไม่สามารถเชื่อมต่อ API ได้ (offline fallback)
+ * - Locks 45 ฿, Stocks 30 ฿, Barrels 25 ฿
+ * - 10% สำหรับ 1,000 ฿ แรก, 15% สำหรับ 800 ฿ ถัดไป, 20% สำหรับส่วนที่เกิน 1,800 ฿
+ */
+describe("FR-02: Client-side Commission Calculation", () => {
+  describe("calculateSales", () => {
+    it("should multiply quantities by unit prices", () => {
+      expect(calculateSales(1, 1, 1)).toBe(100);
+      expect(calculateSales(10, 10, 10)).toBe(1000);
+      expect(calculateSales(70, 80, 90)).toBe(7800);
+    });
+  });
+
+  describe("calculateTieredCommission", () => {
+    it("should apply 10% up to 1,000", () => {
+      expect(calculateTieredCommission(100)).toBe(10);
+      expect(calculateTieredCommission(1000)).toBe(100);
+    });
+
+    it("should apply 15% between 1,000 and 1,800", () => {
+      expect(calculateTieredCommission(1500)).toBe(175);
+      expect(calculateTieredCommission(1800)).toBe(220);
+    });
+
+    it("should apply 20% above 1,800", () => {
+      expect(calculateTieredCommission(2000)).toBe(260);
+      expect(calculateTieredCommission(7800)).toBe(1420);
+    });
+
+    it("should return zero for zero sales", () => {
+      expect(calculateTieredCommission(0)).toBe(0);
+    });
+  });
+
+  describe("calculateCommissionLocally", () => {
+    it("should return both sales and commission", () => {
+      expect(calculateCommissionLocally(20, 20, 20)).toEqual({
+        sales: 2000,
+        commission: 260,
+      });
+    });
+  });
+});
+
+/**
+ * FR-27: แสดงที่มาของยอดขาย (ราคาต่อหน่วย × จำนวน) และค่าคอมมิชชั่นแต่ละขั้น
+ * จากเซิร์ฟเวอร์หรือคำนวณซ้ำฝั่ง client เมื่อเซิร์ฟเวอร์ไม่ได้ส่งมา
+ */
+describe("FR-27: Commission Breakdown", () => {
+  const request = { name: "Ken", locks: 20, stocks: 20, barrels: 20 };
+
+  describe("calculateBreakdown", () => {
+    it("should list unit price times quantity and each tier slice", () => {
+      expect(calculateBreakdown(20, 20, 20)).toEqual({
+        items: [
+          { item: "locks", quantity: 20, unitPrice: 45, amount: 900 },
+          { item: "stocks", quantity: 20, unitPrice: 30, amount: 600 },
+          { item: "barrels", quantity: 20, unitPrice: 25, amount: 500 },
+        ],
+        tiers: [
+          { from: 0, upTo: 1000, sales: 1000, rate: 0.1, commission: 100 },
+          { from: 1000, upTo: 1800, sales: 800, rate: 0.15, commission: 120 },
+          { from: 1800, upTo: null, sales: 200, rate: 0.2, commission: 40 },
+        ],
+      });
+    });
+
+    it("should list only the tiers that sales reach", () => {
+      const { tiers } = calculateBreakdown(1, 1, 1);
+      expect(tiers).toEqual([
+        { from: 0, upTo: 1000, sales: 100, rate: 0.1, commission: 10 },
+      ]);
+    });
+  });
+
+  describe("mirrorBreakdown", () => {
+    it("should recompute when the plan reproduces the figures", () => {
+      expect(
+        mirrorBreakdown({ ...request, sales: 2000, commission: 260 }),
+      ).toEqual(calculateBreakdown(20, 20, 20));
+    });
+
+    it("should give nothing when the figures came from another plan", () => {
+      expect(
+        mirrorBreakdown({ ...request, sales: 2000, commission: 300 }),
+      ).toBeUndefined();
+    });
+  });
+
+  describe("entryFromResponse", () => {
+    const identity = { id: "1", number: 1 };
+
+    it("should keep the breakdown sent by the server", () => {
+      const breakdown = calculateBreakdown(1, 1, 1);
+      const entry = entryFromResponse(identity, request, {
+        success: true,
+        data: { ...request, sales: 2000, commission: 260, breakdown },
+      });
+      expect(entry.breakdown).toBe(breakdown);
+    });
+
+    it("should mirror a server without breakdowns and explain offline results", () => {
+      const data = { ...request, sales: 2000, commission: 260 };
+      const expected = calculateBreakdown(20, 20, 20);
+      expect(
+        entryFromResponse(identity, request, { success: true, data }).breakdown,
+      ).toEqual(expected);
+      expect(
+        entryFromResponse(identity, request, {
+          success: false,
+          networkError: true,
+        }).breakdown,
+      ).toEqual(expected);
+    });
+  });
+});
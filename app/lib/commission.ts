@@ -0,0 +1,149 @@
+// Client-side commission engine for Commission Calculator
+// ใช้ราคาและอัตราค่าคอมมิชชั่นจากแผนเดียวกับฝั่งเซิร์ฟเวอร์ เพื่อคำนวณแบบออฟไลน์ได้
+import { CommissionPlan, DEFAULT_PLAN, ITEM_KEYS, ItemKey } from "./plan";
+
+export interface CommissionResult {
+  sales: number;
+  commission: number;
+}
+
+/** Unit price times quantity of one item */
+export interface ItemAmount {
+  item: ItemKey;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
+/** The part of sales that falls inside one commission tier */
+export interface TierSlice {
+  /** Sales range of the tier, `upTo` is `null` for the last tier */
+  from: number;
+  upTo: number | null;
+  /** Sales inside the range */
+  sales: number;
+  rate: number;
+  commission: number;
+}
+
+/**
+ * How sales and commission were computed. Only the tiers that sales
+ * reached are listed.
+ */
+export interface CommissionBreakdown {
+  items: ItemAmount[];
+  tiers: TierSlice[];
+}
+
+export const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Calculate total sales from quantities of locks, stocks, and barrels
+ */
+export const calculateSales = (
+  locks: number,
+  stocks: number,
+  barrels: number,
+  plan: CommissionPlan = DEFAULT_PLAN,
+): number => {
+  return roundCurrency(
+    locks * plan.items.locks.unitPrice +
+      stocks * plan.items.stocks.unitPrice +
+      barrels * plan.items.barrels.unitPrice,
+  );
+};
+
+// ยอดขายที่ตกอยู่ในแต่ละขั้น ยังไม่ปัดเศษค่าคอมมิชชั่น
+const sliceTiers = (sales: number, plan: CommissionPlan): TierSlice[] => {
+  const slices: TierSlice[] = [];
+  let lowerBound = 0;
+
+  for (const tier of plan.tiers) {
+    if (sales <= lowerBound) break;
+    const upperBound = tier.upTo ?? Infinity;
+    const slice = Math.min(sales, upperBound) - lowerBound;
+    slices.push({
+      from: lowerBound,
+      upTo: tier.upTo,
+      sales: slice,
+      rate: tier.rate,
+      commission: slice * tier.rate,
+    });
+    lowerBound = upperBound;
+  }
+
+  return slices;
+};
+
+/**
+ * Apply the plan's tiered rates to a sales amount
+ */
+export const calculateTieredCommission = (
+  sales: number,
+  plan: CommissionPlan = DEFAULT_PLAN,
+): number => {
+  return roundCurrency(
+    sliceTiers(sales, plan).reduce((total, slice) => total + slice.commission, 0),
+  );
+};
+
+/**
+ * Calculate sales and commission locally, without calling the API
+ */
+export const calculateCommissionLocally = (
+  locks: number,
+  stocks: number,
+  barrels: number,
+  plan: CommissionPlan = DEFAULT_PLAN,
+): CommissionResult => {
+  const sales = calculateSales(locks, stocks, barrels, plan);
+  return { sales, commission: calculateTieredCommission(sales, plan) };
+};
+
+/**
+ * Unit price times quantity of each item and the commission of each tier
+ * slice, for showing how an entry's figures were reached
+ */
+export const calculateBreakdown = (
+  locks: number,
+  stocks: number,
+  barrels: number,
+  plan: CommissionPlan = DEFAULT_PLAN,
+): CommissionBreakdown => {
+  const quantities: Record<ItemKey, number> = { locks, stocks, barrels };
+  return {
+    items: ITEM_KEYS.map((item) => ({
+      item,
+      quantity: quantities[item],
+      unitPrice: plan.items[item].unitPrice,
+      amount: roundCurrency(quantities[item] * plan.items[item].unitPrice),
+    })),
+    tiers: sliceTiers(calculateSales(locks, stocks, barrels, plan), plan).map(
+      (slice) => ({
+        ...slice,
+        sales: roundCurrency(slice.sales),
+        commission: roundCurrency(slice.commission),
+      }),
+    ),
+  };
+};
+
+/** Figures a breakdown is checked against */
+type Calculated = CommissionResult & Record<ItemKey, number>;
+
+/**
+ * Breakdown of a calculation the server returned without one, recomputed
+ * with the plan. `undefined` when the plan does not reproduce the figures,
+ * e.g. the plan changed after an old entry was saved.
+ */
+export const mirrorBreakdown = (
+  calculated: Calculated,
+  plan: CommissionPlan = DEFAULT_PLAN,
+): CommissionBreakdown | undefined => {
+  const { locks, stocks, barrels } = calculated;
+  const result = calculateCommissionLocally(locks, stocks, barrels, plan);
+  return result.sales === calculated.sales &&
+    result.commission === calculated.commission
+    ? calculateBreakdown(locks, stocks, barrels, plan)
+    : undefined;
+};
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import {
+  displayName,
+  employeeTotals,
+  entriesForEmployee,
+  findEmployeeByName,
+  searchEmployees,
+} from "./employees";
+import { Employee } from "./types";
+import { testEntry } from "./testing/fixtures";
+
+const employees: Employee[] = [
+  { id: "E001", nameTh: "ฐากูร", nameEn: "Thakun", team: "North" },
+  { id: "E002", nameTh: "เคน", nameEn: "Ken", team: "South" },
+  { id: "E003", nameTh: "สมชาย", nameEn: "Somchai Ken", team: "North" },
+];
+
+/**
+ * FR-11: ทะเบียนพนักงานพร้อมการค้นหาอัตโนมัติ และประวัติการคำนวณรายบุคคล
+ */
+describe("FR-11: Employee Directory", () => {
+  describe("searchEmployees", () => {
+    it("should match id, Thai name and English name case-insensitively", () => {
+      expect(searchEmployees(employees, "e001").map((e) => e.id)).toEqual([
+        "E001",
+      ]);
+      expect(searchEmployees(employees, "ฐา").map((e) => e.id)).toEqual([
+        "E001",
+      ]);
+      expect(searchEmployees(employees, "thak").map((e) => e.id)).toEqual([
+        "E001",
+      ]);
+    });
+
+    it("should list prefix matches before substring matches", () => {
+      expect(searchEmployees(employees, "ken").map((e) => e.id)).toEqual([
+        "E002",
+        "E003",
+      ]);
+    });
+
+    it("should return nothing for an empty query and respect the limit", () => {
+      expect(searchEmployees(employees, "  ")).toEqual([]);
+      expect(searchEmployees(employees, "E", 2)).toHaveLength(2);
+    });
+  });
+
+  describe("findEmployeeByName", () => {
+    it("should find an exact Thai or English name", () => {
+      expect(findEmployeeByName(employees, "ken ")?.id).toBe("E002");
+      expect(findEmployeeByName(employees, "สมชาย")?.id).toBe("E003");
+      expect(findEmployeeByName(employees, "Som")).toBeUndefined();
+    });
+  });
+
+  describe("displayName", () => {
+    it("should prefer the Thai name", () => {
+      expect(displayName(employees[0])).toBe("ฐากูร");
+      expect(displayName({ ...employees[0], nameTh: "" })).toBe("Thakun");
+    });
+  });
+
+  describe("entriesForEmployee and employeeTotals", () => {
+    const history = [
+      testEntry({ number: 1, employeeId: "E002", name: "เคน" }),
+      testEntry({ number: 2, name: "Ken" }),
+      testEntry({ number: 3, employeeId: "E003", name: "เคน" }),
+      testEntry({
+        number: 4,
+        employeeId: "E002",
+        name: "เคน",
+        isValid: false,
+        sales: 0,
+      }),
+    ];
+
+    it("should match by employee id, and by name for legacy entries", () => {
+      expect(
+        entriesForEmployee(history, employees[1]).map((e) => e.number),
+      ).toEqual([1, 2, 4]);
+    });
+
+    it("should total valid entries and count invalid ones", () => {
+      expect(employeeTotals(entriesForEmployee(history, employees[1]))).toEqual(
+        {
+          entries: 2,
+          invalidEntries: 1,
+          locks: 20,
+          stocks: 20,
+          barrels: 20,
+          sales: 2000,
+          commission: 200,
+        },
+      );
+    });
+  });
+});
@@ -0,0 +1,147 @@
+// Employee directory: client cache, lookup and per-employee history
+import { fetchEmployees } from "./api";
+import { Employee, Entry } from "./types";
+import {
+  readVersioned,
+  recoverItems,
+  writeVersioned,
+} from "./versionedStorage";
+
+export const EMPLOYEES_KEY = "commissionEmployees";
+
+export interface EmployeeTotals {
+  entries: number;
+  invalidEntries: number;
+  locks: number;
+  stocks: number;
+  barrels: number;
+  sales: number;
+  commission: number;
+}
+
+const normalize = (value: string): string => value.trim().toLowerCase();
+
+/**
+ * Name stored on entries for an employee (Thai name, English as fallback)
+ */
+export const displayName = (employee: Employee): string =>
+  employee.nameTh || employee.nameEn;
+
+const isEmployee = (item: unknown): item is Employee =>
+  typeof item === "object" &&
+  item !== null &&
+  typeof (item as Employee).id === "string" &&
+  typeof (item as Employee).nameTh === "string" &&
+  typeof (item as Employee).nameEn === "string" &&
+  typeof (item as Employee).team === "string";
+
+const EMPLOYEES = {
+  key: EMPLOYEES_KEY,
+  migrations: {},
+  recover: (data: unknown) =>
+    recoverItems(data, (item) => (isEmployee(item) ? item : null)),
+  empty: (): Employee[] => [],
+};
+
+export const loadCachedEmployees = (): Employee[] =>
+  readVersioned(EMPLOYEES).data;
+
+/**
+ * Fetch the directory from the API and refresh the cache,
+ * falling back to the cached copy when the API is unreachable
+ */
+export const loadEmployees = async (): Promise<Employee[]> => {
+  const response = await fetchEmployees();
+  if (response.success && response.data) {
+    writeVersioned(EMPLOYEES_KEY, response.data);
+    return response.data;
+  }
+  return loadCachedEmployees();
+};
+
+/**
+ * Employees whose id, Thai name or English name contains the query.
+ * Prefix matches are listed first.
+ */
+export const searchEmployees = (
+  employees: Employee[],
+  query: string,
+  limit = 8,
+): Employee[] => {
+  const needle = normalize(query);
+  if (needle === "") return [];
+
+  const scored = employees.flatMap((employee) => {
+    const fields = [employee.id, employee.nameTh, employee.nameEn].map(
+      normalize,
+    );
+    if (fields.some((field) => field.startsWith(needle))) {
+      return [{ employee, score: 0 }];
+    }
+    if (fields.some((field) => field.includes(needle))) {
+      return [{ employee, score: 1 }];
+    }
+    return [];
+  });
+
+  return scored
+    .sort((a, b) => a.score - b.score)
+    .slice(0, limit)
+    .map(({ employee }) => employee);
+};
+
+/**
+ * Exact (case-insensitive) match on the Thai or English name
+ */
+export const findEmployeeByName = (
+  employees: Employee[],
+  name: string,
+): Employee | undefined => {
+  const needle = normalize(name);
+  return employees.find(
+    (employee) =>
+      normalize(employee.nameTh) === needle ||
+      normalize(employee.nameEn) === needle,
+  );
+};
+
+/**
+ * History entries of one employee. Entries saved before the directory
+ * existed are matched by name.
+ */
+export const entriesForEmployee = (
+  entries: Entry[],
+  employee: Employee,
+): Entry[] =>
+  entries.filter((entry) =>
+    entry.employeeId
+      ? entry.employeeId === employee.id
+      : findEmployeeByName([employee], entry.name) !== undefined,
+  );
+
+export const employeeTotals = (entries: Entry[]): EmployeeTotals =>
+  entries.reduce<EmployeeTotals>(
+    (totals, entry) => {
+      if (!entry.isValid) {
+        return { ...totals, invalidEntries: totals.invalidEntries + 1 };
+      }
+      return {
+        ...totals,
+        entries: totals.entries + 1,
+        locks: totals.locks + entry.locks,
+        stocks: totals.stocks + entry.stocks,
+        barrels: totals.barrels + entry.barrels,
+        sales: totals.sales + entry.sales,
+        commission: totals.commission + entry.commission,
+      };
+    },
+    {
+      entries: 0,
+      invalidEntries: 0,
+      locks: 0,
+      stocks: 0,
+      barrels: 0,
+      sales: 0,
+      commission: 0,
+    },
+  );
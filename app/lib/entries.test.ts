@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import {
+  CHANGED_BY_SERVER_VERIFICATION,
+  entryFromResponse,
+  reviseEntry,
+} from "./entries";
+import { Entry } from "./types";
+
+const EDITOR = { id: "U002", name: "Ken Manager" };
+
+const original: Entry = {
+  id: "7",
+  number: 7,
+  employeeId: "E001",
+  name: "Ken",
+  locks: 10,
+  stocks: 10,
+  barrels: 10,
+  sales: 1000,
+  commission: 100,
+  isValid: true,
+  errors: [],
+  date: "2026-10-01",
+  period: "2026-10",
+  syncedAt: "2026-10-01T09:00:00.000Z",
+};
+
+/**
+ * FR-14: แก้ไขรายการในประวัติและคำนวณใหม่ โดยเก็บค่าเดิมไว้เป็นประวัติการแก้ไข
+ */
+describe("FR-14: Edit and Recalculate Entry", () => {
+  it("should keep the id and record the previous values", () => {
+    const recalculated = entryFromResponse(
+      { id: "99", number: 99 },
+      { name: "Ken", locks: 20, stocks: 20, barrels: 20 },
+      {
+        success: true,
+        data: {
+          name: "Ken",
+          locks: 20,
+          stocks: 20,
+          barrels: 20,
+          sales: 2000,
+          commission: 260,
+        },
+      },
+      undefined,
+      "2026-10-05",
+    );
+    const revised = reviseEntry(
+      original,
+      recalculated,
+      EDITOR,
+      "2026-10-05T10:00:00.000Z",
+    );
+
+    expect(revised).toMatchObject({ id: "7", number: 7 });
+    expect(revised.sales).toBe(2000);
+    expect(revised.date).toBe("2026-10-05");
+    expect(revised.revisions).toEqual([
+      {
+        changedAt: "2026-10-05T10:00:00.000Z",
+        changedBy: EDITOR.id,
+        name: EDITOR.name,
+        previous: {
+          employeeId: "E001",
+          name: "Ken",
+          locks: 10,
+          stocks: 10,
+          barrels: 10,
+          sales: 1000,
+          commission: 100,
+          isValid: true,
+          errors: [],
+          date: "2026-10-01",
+          period: "2026-10",
+          calculatedOffline: undefined,
+        },
+      },
+    ]);
+  });
+
+  it("should append to an existing audit trail", () => {
+    const first = reviseEntry(
+      original,
+      { ...original, locks: 15 },
+      EDITOR,
+      "2026-10-02T00:00:00.000Z",
+    );
+    const second = reviseEntry(
+      first,
+      { ...first, commission: 120 },
+      CHANGED_BY_SERVER_VERIFICATION,
+      "2026-10-03T00:00:00.000Z",
+    );
+
+    expect(second.revisions?.map((r) => r.changedBy)).toEqual([
+      EDITOR.id,
+      CHANGED_BY_SERVER_VERIFICATION,
+    ]);
+    expect(second.revisions?.map((r) => r.name)).toEqual([
+      EDITOR.name,
+      undefined,
+    ]);
+    expect(second.revisions?.[1].previous.locks).toBe(15);
+  });
+
+  it("should keep the sync marker so the update is sent as an edit", () => {
+    const revised = reviseEntry(
+      original,
+      { ...original, syncedAt: undefined },
+      EDITOR,
+    );
+    expect(revised.syncedAt).toBe(original.syncedAt);
+  });
+});
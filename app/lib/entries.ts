@@ -0,0 +1,180 @@
+// Helpers for building history entries from calculation results
+import type { CalculateRequest, CalculateResponse } from "./api";
+import {
+  calculateBreakdown,
+  calculateCommissionLocally,
+  mirrorBreakdown,
+} from "./commission";
+import { appError } from "./errors";
+import { periodOf, todayIso } from "./periods";
+import { CommissionPlan, DEFAULT_PLAN } from "./plan";
+import { AppError, Entry, EntrySnapshot, User } from "./types";
+
+/** System change source recorded in an entry's audit trail */
+export const CHANGED_BY_SERVER_VERIFICATION = "server-verification";
+
+/** Id and display number given to a new entry */
+export type EntryIdentity = Pick<Entry, "id" | "number">;
+
+const hex = (bytes: Uint8Array) =>
+  [...bytes].map((byte) => byte.toString(16).padStart(2, "0")).join("");
+
+/**
+ * Random (version 4) UUID for a new entry. crypto.randomUUID only exists on
+ * secure origins, so plain-http deployments build one from getRandomValues.
+ */
+export const newEntryId = (): string => {
+  if (typeof crypto.randomUUID === "function") return crypto.randomUUID();
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const value = hex(bytes);
+  return [
+    value.slice(0, 8),
+    value.slice(8, 12),
+    value.slice(12, 16),
+    value.slice(16, 20),
+    value.slice(20),
+  ].join("-");
+};
+
+/**
+ * Build an invalid entry for input that never reached the API
+ */
+export const invalidEntry = (
+  { id, number }: EntryIdentity,
+  request: CalculateRequest,
+  errors: AppError[],
+  date: string = todayIso(),
+): Entry => ({
+  id,
+  number,
+  name: request.name || "Employee",
+  locks: request.locks,
+  stocks: request.stocks,
+  barrels: request.barrels,
+  sales: 0,
+  commission: 0,
+  isValid: false,
+  errors,
+  date,
+  period: periodOf(date),
+});
+
+/**
+ * Turn an API response into a history entry.
+ * Falls back to the client-side engine when the API could not be reached.
+ */
+export const entryFromResponse = (
+  identity: EntryIdentity,
+  request: CalculateRequest,
+  response: CalculateResponse,
+  plan: CommissionPlan = DEFAULT_PLAN,
+  date: string = todayIso(),
+): Entry => {
+  if (response.success && response.data) {
+    return {
+      ...identity,
+      name: response.data.name,
+      locks: response.data.locks,
+      stocks: response.data.stocks,
+      barrels: response.data.barrels,
+      sales: response.data.sales,
+      commission: response.data.commission,
+      breakdown:
+        response.data.breakdown ?? mirrorBreakdown(response.data, plan),
+      isValid: true,
+      errors: [],
+      date,
+      period: periodOf(date),
+    };
+  }
+  if (response.networkError) {
+    // API ติดต่อไม่ได้ คำนวณด้วย engine ฝั่ง client แล้วค่อยตรวจสอบกับเซิร์ฟเวอร์ภายหลัง
+    const { sales, commission } = calculateCommissionLocally(
+      request.locks,
+      request.stocks,
+      request.barrels,
+      plan,
+    );
+    return {
+      ...identity,
+      name: request.name,
+      locks: request.locks,
+      stocks: request.stocks,
+      barrels: request.barrels,
+      sales,
+      commission,
+      breakdown: calculateBreakdown(
+        request.locks,
+        request.stocks,
+        request.barrels,
+        plan,
+      ),
+      isValid: true,
+      errors: [],
+      date,
+      period: periodOf(date),
+      calculatedOffline: true,
+    };
+  }
+  return invalidEntry(
+    identity,
+    request,
+    response.errors ?? [appError("UNKNOWN_SERVER_ERROR")],
+    date,
+  );
+};
+
+const snapshotOf = (entry: Entry): EntrySnapshot => ({
+  employeeId: entry.employeeId,
+  name: entry.name,
+  locks: entry.locks,
+  stocks: entry.stocks,
+  barrels: entry.barrels,
+  sales: entry.sales,
+  commission: entry.commission,
+  isValid: entry.isValid,
+  errors: entry.errors,
+  date: entry.date,
+  period: entry.period,
+  calculatedOffline: entry.calculatedOffline,
+});
+
+/**
+ * Whether two versions of an entry have the same values, ignoring status,
+ * audit trail and sync bookkeeping
+ */
+export const hasSameValues = (a: Entry, b: Entry): boolean =>
+  JSON.stringify(snapshotOf(a)) === JSON.stringify(snapshotOf(b));
+
+/**
+ * Replace an entry's values in place, keeping its id and appending the
+ * previous values to its audit trail, credited to the signed-in user or a
+ * system source. The status comes from `next`, so an edited entry goes back
+ * to draft; its status history is kept.
+ */
+export const reviseEntry = (
+  previous: Entry,
+  next: Entry,
+  changedBy: Pick<User, "id" | "name"> | string,
+  changedAt: string = new Date().toISOString(),
+): Entry => ({
+  ...next,
+  id: previous.id,
+  number: previous.number,
+  syncedAt: previous.syncedAt,
+  createdBy: previous.createdBy ?? next.createdBy,
+  statusHistory: previous.statusHistory,
+  revisions: [
+    ...(previous.revisions ?? []),
+    typeof changedBy === "string"
+      ? { changedAt, changedBy, previous: snapshotOf(previous) }
+      : {
+          changedAt,
+          changedBy: changedBy.id,
+          name: changedBy.name,
+          previous: snapshotOf(previous),
+        },
+  ],
+});
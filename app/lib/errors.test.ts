@@ -0,0 +1,129 @@
+import { describe, it, expect } from "vitest";
+import {
+  appError,
+  errorMessage,
+  fromServerError,
+  hasFieldError,
+  toAppError,
+} from "./errors";
+import { formatMessage, message } from "./i18n";
+import { validateInputRanges, validateName } from "./validation";
+
+/**
+ * FR-17: ข้อผิดพลาดมีโครงสร้าง (field, code, params, severity) ใช้ร่วมกันระหว่าง validation และ API
+ * - ไฮไลต์ช่องและแปลข้อความจาก code ไม่ใช่จากการค้นหาข้อความ
+ */
+describe("FR-17: Structured Errors", () => {
+  describe("validation", () => {
+    it("should point errors at the input they belong to", () => {
+      expect(validateName("")).toEqual(appError("NAME_REQUIRED", "name"));
+      expect(validateInputRanges(75, 50, 99)).toEqual([
+        appError("OUT_OF_RANGE", "locks", { label: "Locks", min: 1, max: 70 }),
+        appError("OUT_OF_RANGE", "barrels", {
+          label: "Barrels",
+          min: 1,
+          max: 90,
+        }),
+      ]);
+    });
+  });
+
+  describe("errorMessage", () => {
+    it("should translate by code in either language", () => {
+      const error = appError("OUT_OF_RANGE", "stocks", {
+        label: "Stocks",
+        min: 1,
+        max: 80,
+      });
+      expect(formatMessage("en", errorMessage(error))).toBe(
+        "Stocks must be between 1 and 80",
+      );
+      expect(formatMessage("th", errorMessage(error))).toBe(
+        "Stocks ต้องอยู่ระหว่าง 1 ถึง 80",
+      );
+    });
+  });
+
+  describe("hasFieldError", () => {
+    it("should match the field rather than the message text", () => {
+      const errors = [appError("NOT_INTEGER", "locks")];
+      expect(hasFieldError(errors, "locks")).toBe(true);
+      expect(hasFieldError(errors, "stocks")).toBe(false);
+    });
+
+    it("should not highlight warnings", () => {
+      const warning = appError("SERVER_MESSAGE", "locks", {}, "warning");
+      expect(hasFieldError([warning], "locks")).toBe(false);
+    });
+  });
+
+  describe("fromServerError", () => {
+    it("should keep structured server errors", () => {
+      expect(
+        fromServerError({
+          field: "barrels",
+          code: "OUT_OF_RANGE",
+          params: { label: "Barrels", min: 1, max: 90 },
+          severity: "error",
+        }),
+      ).toEqual(
+        appError("OUT_OF_RANGE", "barrels", {
+          label: "Barrels",
+          min: 1,
+          max: 90,
+        }),
+      );
+    });
+
+    it("should drop unknown fields from structured errors", () => {
+      expect(fromServerError({ field: "price", code: "NOT_INTEGER" })).toEqual(
+        appError("NOT_INTEGER"),
+      );
+    });
+
+    it("should recognise the legacy free-text messages", () => {
+      expect(fromServerError("Locks must be between 1 and 70")).toEqual(
+        appError("OUT_OF_RANGE", "locks", { label: "Locks", min: 1, max: 70 }),
+      );
+      expect(fromServerError("Please enter Stocks")).toEqual(
+        appError("VALUE_REQUIRED", "stocks", { label: "Stocks" }),
+      );
+      expect(fromServerError("Please enter Employee Name")).toEqual(
+        appError("NAME_REQUIRED", "name"),
+      );
+    });
+
+    it("should show any other text as is", () => {
+      expect(fromServerError("Database is down")).toEqual(
+        appError("SERVER_MESSAGE", null, { text: "Database is down" }),
+      );
+      expect(fromServerError("")).toEqual(appError("UNKNOWN_SERVER_ERROR"));
+    });
+  });
+
+  describe("toAppError", () => {
+    it("should upgrade errors saved as messages", () => {
+      expect(
+        toAppError(
+          message("validation.outOfRange", { field: "Locks", min: 1, max: 70 }),
+        ),
+      ).toEqual(
+        appError("OUT_OF_RANGE", "locks", { label: "Locks", min: 1, max: 70 }),
+      );
+      expect(toAppError(message("errors.text", { text: "boom" }))).toEqual(
+        appError("SERVER_MESSAGE", null, { text: "boom" }),
+      );
+    });
+
+    it("should upgrade errors saved as plain text", () => {
+      expect(toAppError("Please enter with integer or whole number")).toEqual(
+        appError("NOT_INTEGER"),
+      );
+    });
+
+    it("should keep errors that are already structured", () => {
+      const error = appError("PERIOD_CLOSED", "date", { period: "2026-10" });
+      expect(toAppError(error)).toEqual(error);
+    });
+  });
+});
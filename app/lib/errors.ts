@@ -0,0 +1,132 @@
+// Structured errors: construction, translation and mapping of server errors
+import { Message, MessageKey, MessageParams } from "./i18n";
+import { ITEM_KEYS, ItemKey } from "./plan";
+import { AppError, ErrorCode, ErrorField, ErrorSeverity } from "./types";
+
+/** Catalog message shown for each error code */
+export const ERROR_MESSAGES: Record<ErrorCode, MessageKey> = {
+  NAME_REQUIRED: "validation.nameRequired",
+  NAME_INVALID: "validation.nameLetters",
+  VALUE_REQUIRED: "validation.required",
+  NOT_INTEGER: "validation.integer",
+  OUT_OF_RANGE: "validation.outOfRange",
+  INVALID_DATE: "validation.dateFormat",
+  PERIOD_CLOSED: "validation.periodClosed",
+  HTTP_ERROR: "errors.http",
+  NETWORK_ERROR: "errors.network",
+  TIMEOUT: "errors.timeout",
+  INVALID_RESPONSE: "errors.invalidResponse",
+  SERVER_MESSAGE: "errors.text",
+  UNKNOWN_SERVER_ERROR: "errors.unknownServer",
+  UNAUTHORIZED: "errors.unauthorized",
+  FORBIDDEN: "errors.forbidden",
+  INVALID_CREDENTIALS: "errors.invalidCredentials",
+  REASON_REQUIRED: "errors.reasonRequired",
+  UNEXPECTED: "errors.unexpected",
+};
+
+const ERROR_CODES = Object.keys(ERROR_MESSAGES) as ErrorCode[];
+
+// plan.ts ถูก import วนกลับมาผ่าน api.ts จึงอ่าน ITEM_KEYS ตอนเรียกใช้เท่านั้น
+const isErrorField = (value: unknown): value is ErrorField =>
+  value === "name" || value === "date" || ITEM_KEYS.includes(value as ItemKey);
+
+export const appError = (
+  code: ErrorCode,
+  field: ErrorField | null = null,
+  params?: MessageParams,
+  severity: ErrorSeverity = "error",
+): AppError => ({
+  field,
+  code,
+  severity,
+  ...(params ? { params } : {}),
+});
+
+export const errorMessage = (error: AppError): Message => ({
+  key: ERROR_MESSAGES[error.code],
+  params: error.params,
+});
+
+/**
+ * Whether any error (not warning) points at the given input
+ */
+export const hasFieldError = (errors: AppError[], field: ErrorField) =>
+  errors.some((error) => error.field === field && error.severity === "error");
+
+const itemKeyOf = (label: string): ItemKey | null =>
+  ITEM_KEYS.find((key) => key === label.trim().toLowerCase()) ?? null;
+
+// ข้อความจาก API เวอร์ชันเก่าที่ยังส่งเป็นข้อความอิสระ แปลงเป็น code ตามรูปแบบที่รู้จัก
+const LEGACY_SERVER_MESSAGES: [
+  RegExp,
+  (match: RegExpMatchArray) => AppError,
+][] = [
+  [/^Please enter Employee Name$/i, () => appError("NAME_REQUIRED", "name")],
+  [
+    /^Name must be Thai or English letters only$/i,
+    () => appError("NAME_INVALID", "name"),
+  ],
+  [
+    /^Please enter with integer or whole number$/i,
+    () => appError("NOT_INTEGER"),
+  ],
+  [
+    /^Please enter (\w+)$/i,
+    ([, label]) => appError("VALUE_REQUIRED", itemKeyOf(label), { label }),
+  ],
+  [
+    /^(\w+) must be between (\d+) and (\d+)$/i,
+    ([, label, min, max]) =>
+      appError("OUT_OF_RANGE", itemKeyOf(label), {
+        label,
+        min: Number(min),
+        max: Number(max),
+      }),
+  ],
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+/**
+ * Map one error from an API response: structured errors are kept, free text
+ * is matched against the known legacy messages or shown as is
+ */
+export const fromServerError = (raw: unknown): AppError => {
+  if (isRecord(raw) && ERROR_CODES.includes(raw.code as ErrorCode)) {
+    return appError(
+      raw.code as ErrorCode,
+      isErrorField(raw.field) ? raw.field : null,
+      isRecord(raw.params) ? (raw.params as MessageParams) : undefined,
+      raw.severity === "warning" ? "warning" : "error",
+    );
+  }
+  const text = isRecord(raw) ? String(raw.message ?? "") : String(raw);
+  for (const [pattern, build] of LEGACY_SERVER_MESSAGES) {
+    const match = text.trim().match(pattern);
+    if (match) return build(match);
+  }
+  return text.trim() === ""
+    ? appError("UNKNOWN_SERVER_ERROR")
+    : appError("SERVER_MESSAGE", null, { text });
+};
+
+/**
+ * Bring an error saved by an older version (plain text or a bare message)
+ * into the structured form
+ */
+export const toAppError = (stored: unknown): AppError => {
+  if (!isRecord(stored) || !("key" in stored)) return fromServerError(stored);
+  const params = stored.params as MessageParams | undefined;
+  if (stored.key === "errors.text") return fromServerError(params?.text);
+  const code = ERROR_CODES.find((c) => ERROR_MESSAGES[c] === stored.key);
+  if (!code) return appError("UNKNOWN_SERVER_ERROR");
+  if (code === "NAME_REQUIRED" || code === "NAME_INVALID") {
+    return appError(code, "name");
+  }
+  if (params?.field === undefined) return appError(code, null, params);
+  // ข้อความรุ่นก่อนเก็บชื่อสินค้าไว้ใน {field} แทน {label}
+  const { field: label, ...rest } = params;
+  return appError(code, itemKeyOf(String(label)), { ...rest, label });
+};
@@ -0,0 +1,265 @@
+import { describe, it, expect } from "vitest";
+import { calculateBreakdown } from "./commission";
+import {
+  BREAKDOWN_HEADERS,
+  SUMMARY_HEADERS,
+  TARGET_HEADERS,
+  breakdownToRows,
+  entriesToRows,
+  summarizeByEmployee,
+  summaryToRows,
+  toCsv,
+  targetsToRows,
+  totalOf,
+} from "./export";
+import { targetProgresses } from "./targets";
+import { appError } from "./errors";
+import { DEFAULT_PLAN } from "./plan";
+import { testEntry } from "./testing/fixtures";
+import { ClosedPeriod } from "./types";
+
+/**
+ * FR-09: ส่งออกประวัติการคำนวณเป็น CSV/XLSX และรายงานสรุปการจ่ายค่าคอมมิชชั่น
+ */
+describe("FR-09: Export Calculation History", () => {
+  describe("entriesToRows", () => {
+    it("should include every Entry field with validity and errors", () => {
+      const rows = entriesToRows(
+        [
+          testEntry({
+            number: 2,
+            isValid: false,
+            errors: [
+              appError("NOT_INTEGER", "locks"),
+              appError("SERVER_MESSAGE", null, { text: "b" }),
+            ],
+            sales: 0,
+            createdBy: "U001",
+            status: "submitted",
+          }),
+        ],
+        "en",
+      );
+      expect(rows[0]).toContain("isValid");
+      expect(rows[1]).toEqual([
+        "2",
+        2,
+        "",
+        "Ken",
+        "2026-10-01",
+        "2026-10",
+        10,
+        10,
+        10,
+        0,
+        100,
+        false,
+        false,
+        "submitted",
+        "U001",
+        "",
+        "Please enter with integer or whole number; b",
+        "",
+        "",
+        "",
+        "",
+        "",
+        "",
+      ]);
+    });
+  });
+
+  describe("toCsv", () => {
+    it("should prefix a BOM and escape commas, quotes and newlines", () => {
+      const csv = toCsv([
+        ["name", "note"],
+        ['Doe, "J"', "line1\nline2"],
+      ]);
+      expect(csv).toBe('\uFEFFname,note\r\n"Doe, ""J""","line1\nline2"');
+    });
+  });
+
+  describe("summarizeByEmployee", () => {
+    const entries = [
+      testEntry({ number: 1, name: "Ken", status: "approved" }),
+      testEntry({
+        number: 2,
+        name: "Ken",
+        locks: 20,
+        stocks: 20,
+        barrels: 20,
+        sales: 2000,
+        commission: 260,
+        status: "paid",
+      }),
+      testEntry({
+        number: 3,
+        name: "ฐากูร",
+        status: "approved",
+        locks: 1,
+        stocks: 1,
+        barrels: 1,
+        sales: 100,
+        commission: 10,
+      }),
+      testEntry({
+        number: 4,
+        name: "Ken",
+        isValid: false,
+        sales: 0,
+        commission: 0,
+      }),
+      // ยังไม่อนุมัติ จึงยังไม่จ่าย
+      testEntry({ number: 5, name: "Ken", status: "submitted" }),
+    ];
+    // ปิดงวดไว้แล้วด้วยแผนเดิม ยอดที่ปิดไว้ต้องไม่ถูกคำนวณใหม่
+    const closed: ClosedPeriod[] = [
+      {
+        employeeKey: "ฐากูร",
+        name: "ฐากูร",
+        period: "2026-10",
+        entryIds: ["3"],
+        locks: 1,
+        stocks: 1,
+        barrels: 1,
+        sales: 100,
+        commission: 12,
+        closedAt: "2026-11-01T00:00:00.000Z",
+      },
+    ];
+
+    it("should total payable entries per employee (Thai collation) and skip the rest", () => {
+      const summaries = summarizeByEmployee(entries, closed);
+      expect(summaries).toEqual([
+        {
+          name: "ฐากูร",
+          entries: 1,
+          locks: 1,
+          stocks: 1,
+          barrels: 1,
+          sales: 100,
+          commission: 12,
+          provisional: false,
+        },
+        {
+          name: "Ken",
+          entries: 2,
+          locks: 30,
+          stocks: 30,
+          barrels: 30,
+          sales: 3000,
+          commission: 460,
+          provisional: true,
+        },
+      ]);
+      expect(totalOf(summaries)).toMatchObject({
+        entries: 3,
+        sales: 3100,
+        commission: 472,
+        provisional: true,
+      });
+    });
+
+    it("should preview open months with the given plan", () => {
+      const flat = {
+        ...DEFAULT_PLAN,
+        tiers: [{ upTo: null, rate: 0.05 }],
+      };
+      expect(
+        summarizeByEmployee(entries, [], flat).map((s) => [
+          s.name,
+          s.commission,
+        ]),
+      ).toEqual([
+        ["ฐากูร", 5],
+        ["Ken", 150],
+      ]);
+    });
+
+    it("should list the summaries with a header row", () => {
+      expect(summaryToRows(summarizeByEmployee(entries, closed))).toEqual([
+        SUMMARY_HEADERS,
+        ["ฐากูร", 1, 1, 1, 1, 100, 12, false],
+        ["Ken", 2, 30, 30, 30, 3000, 460, true],
+      ]);
+    });
+  });
+});
+
+/**
+ * FR-27: ไฟล์ที่ส่งออกมียอดเงินของสินค้าแต่ละชนิดและค่าคอมมิชชั่นแต่ละขั้น
+ */
+describe("FR-27: Export Commission Breakdown", () => {
+  const explained = testEntry({
+    stocks: 20,
+    barrels: 30,
+    sales: 1800,
+    commission: 220,
+    breakdown: calculateBreakdown(10, 20, 30),
+  });
+
+  it("should add item amounts and tier slices to each row", () => {
+    const [headers, row] = entriesToRows([explained], "en");
+    expect(
+      row.slice(
+        headers.indexOf("locksAmount"),
+        headers.indexOf("commissionTiers") + 1,
+      ),
+    ).toEqual([
+      450,
+      600,
+      750,
+      "0-1000: 1000 x 10% = 100; 1000-1800: 800 x 15% = 120",
+    ]);
+  });
+
+  it("should list one row per item and tier slice", () => {
+    expect(breakdownToRows([explained, testEntry({ number: 2 })])).toEqual([
+      BREAKDOWN_HEADERS,
+      ["1", 1, "Ken", "item", "locks", 10, 45, "", "", "", "", 450],
+      ["1", 1, "Ken", "item", "stocks", 20, 30, "", "", "", "", 600],
+      ["1", 1, "Ken", "item", "barrels", 30, 25, "", "", "", "", 750],
+      ["1", 1, "Ken", "tier", "", "", "", 0, 1000, 1000, 0.1, 100],
+      ["1", 1, "Ken", "tier", "", "", "", 1000, 1800, 800, 0.15, 120],
+    ]);
+  });
+});
+
+/**
+ * FR-29: ไฟล์ที่ส่งออกมีเป้าและเปอร์เซ็นต์การบรรลุเป้าของพนักงานในงวดของแต่ละรายการ
+ * และแผ่นงาน Targets ที่มีโบนัสเร่งยอด
+ */
+describe("FR-29: Export Sales Targets", () => {
+  const entries = [
+    testEntry({ sales: 3000, status: "approved" }),
+    testEntry({ number: 2, sales: 3000, status: "approved" }),
+    testEntry({ number: 3, name: "Ann", status: "approved" }),
+  ];
+  const progresses = targetProgresses(
+    [
+      {
+        employeeKey: "ken",
+        name: "Ken",
+        period: "2026-10",
+        target: 5000,
+        acceleratorRate: 0.1,
+      },
+    ],
+    entries,
+  );
+
+  it("should add the target and attainment of the entry's month", () => {
+    const [headers, ken, , ann] = entriesToRows(entries, "en", progresses);
+    const from = headers.indexOf("periodTarget");
+    expect(ken.slice(from)).toEqual([5000, 120]);
+    expect(ann.slice(from)).toEqual(["", ""]);
+    expect(entriesToRows(entries, "en")[1].slice(from)).toEqual(["", ""]);
+  });
+
+  it("should list one row per target", () => {
+    expect(targetsToRows(progresses)).toEqual([
+      TARGET_HEADERS,
+      ["ken", "Ken", "2026-10", 6000, 5000, 120, true, 0.1, 100],
+    ]);
+  });
+});
@@ -0,0 +1,355 @@
+// Export of calculation history (CSV, XLSX) and payout report helpers
+import { CommissionBreakdown, TierSlice, roundCurrency } from "./commission";
+import { errorMessage } from "./errors";
+import { statusOf } from "./approval";
+import { DEFAULT_LOCALE, Locale, formatMessage } from "./i18n";
+import {
+  closePeriod,
+  findClosedPeriod,
+  groupByEmployeePeriod,
+} from "./periods";
+import { CommissionPlan, DEFAULT_PLAN, ITEM_KEYS } from "./plan";
+import { TargetProgress, attainmentPercent, findProgress } from "./targets";
+import { ClosedPeriod, Entry } from "./types";
+
+type Cell = string | number | boolean;
+
+export const EXPORT_HEADERS = [
+  "id",
+  "number",
+  "employeeId",
+  "name",
+  "date",
+  "period",
+  "locks",
+  "stocks",
+  "barrels",
+  "sales",
+  "commission",
+  "isValid",
+  "calculatedOffline",
+  "status",
+  "createdBy",
+  "syncedAt",
+  "errors",
+  "locksAmount",
+  "stocksAmount",
+  "barrelsAmount",
+  "commissionTiers",
+  "periodTarget",
+  "periodAttainment",
+];
+
+export const TARGET_HEADERS = [
+  "employeeKey",
+  "name",
+  "period",
+  "sales",
+  "target",
+  "attainment",
+  "attained",
+  "acceleratorRate",
+  "bonus",
+];
+
+export const SUMMARY_HEADERS = [
+  "name",
+  "entries",
+  "locks",
+  "stocks",
+  "barrels",
+  "sales",
+  "commission",
+  "provisional",
+];
+
+export const BREAKDOWN_HEADERS = [
+  "id",
+  "number",
+  "name",
+  "part",
+  "item",
+  "quantity",
+  "unitPrice",
+  "from",
+  "upTo",
+  "sales",
+  "rate",
+  "amount",
+];
+
+export interface EmployeeSummary {
+  name: string;
+  entries: number;
+  locks: number;
+  stocks: number;
+  barrels: number;
+  sales: number;
+  commission: number;
+  /** Some months are still open, so their figures preview the close */
+  provisional: boolean;
+}
+
+const itemAmounts = (breakdown: CommissionBreakdown | undefined): Cell[] =>
+  ITEM_KEYS.map(
+    (key) => breakdown?.items.find(({ item }) => item === key)?.amount ?? "",
+  );
+
+const tierText = ({ from, upTo, sales, rate, commission }: TierSlice) =>
+  `${from}-${upTo ?? ""}: ${sales} x ${roundCurrency(rate * 100)}% = ${commission}`;
+
+const periodTargetCells = (progress: TargetProgress | undefined): Cell[] =>
+  progress ? [progress.target.target, attainmentPercent(progress)] : ["", ""];
+
+/**
+ * Flatten entries into export rows (header row first), with error messages
+ * in the given language. Each row carries the target and attainment (%) of
+ * the entry's employee and month.
+ */
+export const entriesToRows = (
+  entries: Entry[],
+  locale: Locale = DEFAULT_LOCALE,
+  progresses: TargetProgress[] = [],
+): Cell[][] => [
+  EXPORT_HEADERS,
+  ...entries.map((entry) => [
+    entry.id,
+    entry.number,
+    entry.employeeId ?? "",
+    entry.name,
+    entry.date,
+    entry.period,
+    entry.locks,
+    entry.stocks,
+    entry.barrels,
+    entry.sales,
+    entry.commission,
+    entry.isValid,
+    entry.calculatedOffline ?? false,
+    statusOf(entry),
+    entry.createdBy ?? "",
+    entry.syncedAt ?? "",
+    entry.errors
+      .map((error) => formatMessage(locale, errorMessage(error)))
+      .join("; "),
+    ...itemAmounts(entry.breakdown),
+    entry.breakdown?.tiers.map(tierText).join("; ") ?? "",
+    ...periodTargetCells(findProgress(progresses, entry)),
+  ]),
+];
+
+/**
+ * One row per sales target with its attainment (%) and accelerator bonus,
+ * header row first
+ */
+export const targetsToRows = (progresses: TargetProgress[]): Cell[][] => [
+  TARGET_HEADERS,
+  ...progresses.map((progress) => [
+    progress.target.employeeKey,
+    progress.target.name,
+    progress.target.period,
+    progress.sales,
+    progress.target.target,
+    attainmentPercent(progress),
+    progress.attained,
+    progress.target.acceleratorRate ?? "",
+    progress.bonus,
+  ]),
+];
+
+/**
+ * One row per employee summary, header row first
+ */
+export const summaryToRows = (summaries: EmployeeSummary[]): Cell[][] => [
+  SUMMARY_HEADERS,
+  ...summaries.map((summary) => [
+    summary.name,
+    summary.entries,
+    summary.locks,
+    summary.stocks,
+    summary.barrels,
+    summary.sales,
+    summary.commission,
+    summary.provisional,
+  ]),
+];
+
+/**
+ * One row per item and per tier slice of each entry's breakdown (header row
+ * first); entries without a breakdown are left out
+ */
+export const breakdownToRows = (entries: Entry[]): Cell[][] => [
+  BREAKDOWN_HEADERS,
+  ...entries.flatMap(({ id, number, name, breakdown }) =>
+    breakdown
+      ? [
+          ...breakdown.items.map(({ item, quantity, unitPrice, amount }) => [
+            id,
+            number,
+            name,
+            "item",
+            item,
+            quantity,
+            unitPrice,
+            "",
+            "",
+            "",
+            "",
+            amount,
+          ]),
+          ...breakdown.tiers.map(({ from, upTo, sales, rate, commission }) => [
+            id,
+            number,
+            name,
+            "tier",
+            "",
+            "",
+            "",
+            from,
+            upTo ?? "",
+            sales,
+            rate,
+            commission,
+          ]),
+        ]
+      : [],
+  ),
+];
+
+const escapeCsvCell = (cell: Cell): string => {
+  const text = String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialize rows as CSV, prefixed with a BOM so Excel reads Thai text as UTF-8
+ */
+export const toCsv = (rows: Cell[][]): string =>
+  "\uFEFF" + rows.map((row) => row.map(escapeCsvCell).join(",")).join("\r\n");
+
+/**
+ * Per-employee totals over payable entries, sorted by name. Sales and
+ * commission come from the monthly close; open months are previewed with
+ * the given plan.
+ */
+export const summarizeByEmployee = (
+  entries: Entry[],
+  closed: ClosedPeriod[] = [],
+  plan: CommissionPlan = DEFAULT_PLAN,
+): EmployeeSummary[] => {
+  const summaries = new Map<string, EmployeeSummary>();
+
+  for (const group of groupByEmployeePeriod(entries)) {
+    const closedPeriod = findClosedPeriod(closed, group);
+    const close = closedPeriod ?? closePeriod(group, plan);
+    const summary = summaries.get(group.name) ?? {
+      name: group.name,
+      entries: 0,
+      locks: 0,
+      stocks: 0,
+      barrels: 0,
+      sales: 0,
+      commission: 0,
+      provisional: false,
+    };
+    summary.entries += group.entries.length;
+    summary.locks += group.locks;
+    summary.stocks += group.stocks;
+    summary.barrels += group.barrels;
+    summary.sales += close.sales;
+    summary.commission += close.commission;
+    summary.provisional ||= !closedPeriod;
+    summaries.set(group.name, summary);
+  }
+
+  return [...summaries.values()].sort((a, b) =>
+    a.name.localeCompare(b.name, "th"),
+  );
+};
+
+/**
+ * Grand total across employee summaries
+ */
+export const totalOf = (summaries: EmployeeSummary[]): EmployeeSummary =>
+  summaries.reduce(
+    (total, summary) => ({
+      ...total,
+      entries: total.entries + summary.entries,
+      locks: total.locks + summary.locks,
+      stocks: total.stocks + summary.stocks,
+      barrels: total.barrels + summary.barrels,
+      sales: total.sales + summary.sales,
+      commission: total.commission + summary.commission,
+      provisional: total.provisional || summary.provisional,
+    }),
+    {
+      name: "",
+      entries: 0,
+      locks: 0,
+      stocks: 0,
+      barrels: 0,
+      sales: 0,
+      commission: 0,
+      provisional: false,
+    },
+  );
+
+/**
+ * Trigger a browser download for the given content
+ */
+export const downloadBlob = (blob: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const downloadCsv = (
+  entries: Entry[],
+  fileName: string,
+  locale: Locale = DEFAULT_LOCALE,
+  progresses: TargetProgress[] = [],
+): void => {
+  const csv = toCsv(entriesToRows(entries, locale, progresses));
+  downloadBlob(
+    new Blob([csv], { type: "text/csv;charset=utf-8" }),
+    `${fileName}.csv`,
+  );
+};
+
+export const downloadXlsx = async (
+  entries: Entry[],
+  fileName: string,
+  locale: Locale = DEFAULT_LOCALE,
+  progresses: TargetProgress[] = [],
+  closed: ClosedPeriod[] = [],
+  plan: CommissionPlan = DEFAULT_PLAN,
+): Promise<void> => {
+  const XLSX = await import("xlsx");
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.aoa_to_sheet(entriesToRows(entries, locale, progresses)),
+    "History",
+  );
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.aoa_to_sheet(
+      summaryToRows(summarizeByEmployee(entries, closed, plan)),
+    ),
+    "Summary",
+  );
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.aoa_to_sheet(breakdownToRows(entries)),
+    "Breakdown",
+  );
+  XLSX.utils.book_append_sheet(
+    workbook,
+    XLSX.utils.aoa_to_sheet(targetsToRows(progresses)),
+    "Targets",
+  );
+  XLSX.writeFile(workbook, `${fileName}.xlsx`);
+};
@@ -0,0 +1,154 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_HISTORY_QUERY,
+  HistoryQuery,
+  filterEntries,
+  historyQueryString,
+  paginate,
+  parseHistoryQuery,
+  sortEntries,
+  toggleSort,
+} from "./historyQuery";
+import { Entry } from "./types";
+import { testEntry } from "./testing/fixtures";
+
+const ENTRIES = [
+  testEntry({
+    number: 1,
+    name: "Ken Tanaka",
+    date: "2026-09-28",
+    commission: 100,
+  }),
+  testEntry({ number: 2, name: "ฐากูร", date: "2026-10-02", commission: 260 }),
+  testEntry({
+    number: 3,
+    name: "kenji",
+    date: "2026-10-05",
+    commission: 0,
+    isValid: false,
+  }),
+  testEntry({ number: 4, name: "Ann", date: "2026-10-09", commission: 420 }),
+];
+
+const query = (changes: Partial<HistoryQuery>): HistoryQuery => ({
+  ...DEFAULT_HISTORY_QUERY,
+  ...changes,
+});
+
+const numbers = (entries: Entry[]) => entries.map(({ number }) => number);
+
+/**
+ * FR-23: ค้นหา กรอง เรียง และแบ่งหน้าประวัติการคำนวณ
+ * - ค้นหาตามชื่อพนักงาน กรองตามความถูกต้อง ช่วงวันที่ และช่วงค่าคอมมิชชั่น
+ * - เรียงตามคอลัมน์ในตารางผลลัพธ์
+ * - เก็บสถานะตัวกรองใน URL เพื่อแชร์มุมมองได้
+ */
+describe("FR-23: Search, Filter, Sort and Paginate History", () => {
+  describe("filters", () => {
+    it("should search employee names case-insensitively", () => {
+      expect(
+        numbers(filterEntries(ENTRIES, query({ search: " KEN " }))),
+      ).toEqual([1, 3]);
+      expect(numbers(filterEntries(ENTRIES, query({ search: "ฐา" })))).toEqual([
+        2,
+      ]);
+    });
+
+    it("should filter by validity, date range and commission range", () => {
+      expect(
+        numbers(filterEntries(ENTRIES, query({ validity: "invalid" }))),
+      ).toEqual([3]);
+      expect(
+        numbers(
+          filterEntries(
+            ENTRIES,
+            query({ from: "2026-10-02", to: "2026-10-05" }),
+          ),
+        ),
+      ).toEqual([2, 3]);
+      expect(
+        numbers(
+          filterEntries(
+            ENTRIES,
+            query({
+              validity: "valid",
+              minCommission: 100,
+              maxCommission: 260,
+            }),
+          ),
+        ),
+      ).toEqual([1, 2]);
+    });
+  });
+
+  describe("sorting", () => {
+    it("should sort by a column and keep the added order for ties", () => {
+      expect(numbers(sortEntries(ENTRIES, "commission", "desc"))).toEqual([
+        4, 2, 1, 3,
+      ]);
+      expect(
+        numbers(
+          sortEntries(
+            [...ENTRIES, testEntry({ number: 5, name: "Ann" })],
+            "name",
+            "asc",
+          ),
+        ),
+      ).toEqual([4, 5, 1, 3, 2]);
+    });
+
+    it("should flip the direction when the same column is chosen again", () => {
+      expect(toggleSort(DEFAULT_HISTORY_QUERY, "id")).toEqual({
+        sort: "id",
+        direction: "desc",
+      });
+      expect(
+        toggleSort(query({ sort: "id", direction: "desc" }), "sales"),
+      ).toEqual({ sort: "sales", direction: "asc" });
+    });
+  });
+
+  describe("pagination", () => {
+    it("should cut the list into pages and clamp the page number", () => {
+      const items = Array.from({ length: 45 }, (_, index) => index);
+
+      expect(paginate(items, 3)).toMatchObject({
+        items: [40, 41, 42, 43, 44],
+        page: 3,
+        pageCount: 3,
+        total: 45,
+      });
+      expect(paginate(items, 9).page).toBe(3);
+      expect(paginate([], 1)).toMatchObject({ items: [], pageCount: 1 });
+    });
+  });
+
+  describe("URL query", () => {
+    it("should round-trip the query through the URL", () => {
+      const shared = query({
+        search: "Ken",
+        validity: "valid",
+        from: "2026-10-01",
+        minCommission: 50,
+        sort: "commission",
+        direction: "desc",
+        historyPage: 2,
+      });
+      const search = historyQueryString(shared);
+
+      expect(search).toBe(
+        "q=Ken&validity=valid&from=2026-10-01&minCommission=50&sort=commission&dir=desc&historyPage=2",
+      );
+      expect(parseHistoryQuery(`?${search}`)).toEqual(shared);
+      expect(historyQueryString(DEFAULT_HISTORY_QUERY)).toBe("");
+    });
+
+    it("should ignore malformed values in a shared link", () => {
+      expect(
+        parseHistoryQuery(
+          "?validity=maybe&from=2026-13-40&minCommission=abc&sort=salary&page=-2",
+        ),
+      ).toEqual(DEFAULT_HISTORY_QUERY);
+    });
+  });
+});
@@ -0,0 +1,193 @@
+// Search, filters, sort order and paging of the history, kept in the URL query
+import { isIsoDate } from "./periods";
+import { Entry } from "./types";
+
+export const HISTORY_PAGE_SIZE = 20;
+
+export type SortKey = "id" | "name" | "date" | "sales" | "commission";
+
+export type SortDirection = "asc" | "desc";
+
+export type ValidityFilter = "all" | "valid" | "invalid";
+
+export const SORT_KEYS: SortKey[] = [
+  "id",
+  "name",
+  "date",
+  "sales",
+  "commission",
+];
+
+export const VALIDITY_FILTERS: ValidityFilter[] = ["all", "valid", "invalid"];
+
+export interface HistoryQuery {
+  /** Part of the employee name, case-insensitive */
+  search: string;
+  validity: ValidityFilter;
+  /** Sales date range (YYYY-MM-DD), both ends included */
+  from?: string;
+  to?: string;
+  /** Commission range, both ends included */
+  minCommission?: number;
+  maxCommission?: number;
+  sort: SortKey;
+  direction: SortDirection;
+  /** 1-based page of the results table */
+  page: number;
+  /** 1-based page of the history list */
+  historyPage: number;
+}
+
+export const DEFAULT_HISTORY_QUERY: HistoryQuery = {
+  search: "",
+  validity: "all",
+  sort: "id",
+  direction: "asc",
+  page: 1,
+  historyPage: 1,
+};
+
+const pageParam = (value: string | null): number => {
+  const page = Number(value);
+  return Number.isInteger(page) && page >= 1 ? page : 1;
+};
+
+const amountParam = (value: string | null): number | undefined =>
+  value !== null && value.trim() !== "" && Number.isFinite(Number(value))
+    ? Number(value)
+    : undefined;
+
+const dateParam = (value: string | null): string | undefined =>
+  value && isIsoDate(value) ? value : undefined;
+
+/**
+ * Read a query string; unknown or malformed values fall back to the defaults
+ * so a hand-edited or outdated link still opens
+ */
+export const parseHistoryQuery = (search: string): HistoryQuery => {
+  const params = new URLSearchParams(search);
+  const validity = params.get("validity") as ValidityFilter;
+  const sort = params.get("sort") as SortKey;
+  return {
+    search: params.get("q") ?? "",
+    validity: VALIDITY_FILTERS.includes(validity) ? validity : "all",
+    from: dateParam(params.get("from")),
+    to: dateParam(params.get("to")),
+    minCommission: amountParam(params.get("minCommission")),
+    maxCommission: amountParam(params.get("maxCommission")),
+    sort: SORT_KEYS.includes(sort) ? sort : DEFAULT_HISTORY_QUERY.sort,
+    direction: params.get("dir") === "desc" ? "desc" : "asc",
+    page: pageParam(params.get("page")),
+    historyPage: pageParam(params.get("historyPage")),
+  };
+};
+
+/**
+ * Query string of the non-default values, without the leading "?"
+ */
+export const historyQueryString = (query: HistoryQuery): string => {
+  const params = new URLSearchParams();
+  if (query.search) params.set("q", query.search);
+  if (query.validity !== "all") params.set("validity", query.validity);
+  if (query.from) params.set("from", query.from);
+  if (query.to) params.set("to", query.to);
+  if (query.minCommission !== undefined) {
+    params.set("minCommission", String(query.minCommission));
+  }
+  if (query.maxCommission !== undefined) {
+    params.set("maxCommission", String(query.maxCommission));
+  }
+  if (query.sort !== DEFAULT_HISTORY_QUERY.sort) params.set("sort", query.sort);
+  if (query.direction !== DEFAULT_HISTORY_QUERY.direction) {
+    params.set("dir", query.direction);
+  }
+  if (query.page > 1) params.set("page", String(query.page));
+  if (query.historyPage > 1) {
+    params.set("historyPage", String(query.historyPage));
+  }
+  return params.toString();
+};
+
+export const isFiltered = (query: HistoryQuery): boolean =>
+  query.search.trim() !== "" ||
+  query.validity !== "all" ||
+  query.from !== undefined ||
+  query.to !== undefined ||
+  query.minCommission !== undefined ||
+  query.maxCommission !== undefined;
+
+export const filterEntries = (
+  entries: Entry[],
+  query: HistoryQuery,
+): Entry[] => {
+  const search = query.search.trim().toLowerCase();
+  return entries.filter(
+    (entry) =>
+      (search === "" || entry.name.toLowerCase().includes(search)) &&
+      (query.validity === "all" ||
+        entry.isValid === (query.validity === "valid")) &&
+      (query.from === undefined || entry.date >= query.from) &&
+      (query.to === undefined || entry.date <= query.to) &&
+      (query.minCommission === undefined ||
+        entry.commission >= query.minCommission) &&
+      (query.maxCommission === undefined ||
+        entry.commission <= query.maxCommission),
+  );
+};
+
+const COMPARE: Record<SortKey, (a: Entry, b: Entry) => number> = {
+  // ชื่อคีย์ "id" คงไว้ให้ลิงก์เดิมใช้ได้ เรียงตามหมายเลขที่แสดง
+  id: (a, b) => a.number - b.number,
+  name: (a, b) => a.name.localeCompare(b.name),
+  date: (a, b) => a.date.localeCompare(b.date),
+  sales: (a, b) => a.sales - b.sales,
+  commission: (a, b) => a.commission - b.commission,
+};
+
+/**
+ * Sorted copy; ties keep the order in which the entries were added
+ */
+export const sortEntries = (
+  entries: Entry[],
+  sort: SortKey,
+  direction: SortDirection,
+): Entry[] => {
+  const sign = direction === "asc" ? 1 : -1;
+  return [...entries].sort(
+    (a, b) => sign * COMPARE[sort](a, b) || a.number - b.number,
+  );
+};
+
+/**
+ * Sort by a column; choosing the current column again flips the direction
+ */
+export const toggleSort = (
+  query: HistoryQuery,
+  sort: SortKey,
+): Pick<HistoryQuery, "sort" | "direction"> => ({
+  sort,
+  direction: query.sort === sort && query.direction === "asc" ? "desc" : "asc",
+});
+
+export interface Page<T> {
+  items: T[];
+  /** Requested page, clamped to the pages that exist */
+  page: number;
+  pageCount: number;
+  total: number;
+}
+
+export const paginate = <T>(
+  items: T[],
+  page: number,
+  pageSize: number = HISTORY_PAGE_SIZE,
+): Page<T> => {
+  const pageCount = Math.max(1, Math.ceil(items.length / pageSize));
+  const current = Math.min(Math.max(1, page), pageCount);
+  return {
+    items: items.slice((current - 1) * pageSize, current * pageSize),
+    page: current,
+    pageCount,
+    total: items.length,
+  };
+};
@@ -0,0 +1,207 @@
+import { describe, it, expect, vi } from "vitest";
+import {
+  SyncApi,
+  enqueue,
+  flushSyncQueue,
+  markRefused,
+  markSynced,
+  mergeServerHistory,
+} from "./historySync";
+import { appError } from "./errors";
+import { testEntry } from "./testing/fixtures";
+
+const okApi = (): SyncApi => ({
+  create: vi.fn().mockResolvedValue({ success: true }),
+  update: vi.fn().mockResolvedValue({ success: true }),
+  remove: vi.fn().mockResolvedValue({ success: true }),
+  clear: vi.fn().mockResolvedValue({ success: true }),
+});
+
+/**
+ * FR-10: ประวัติการคำนวณถูกบันทึกบนเซิร์ฟเวอร์ โดยใช้ localStorage เป็น cache และซิงค์เมื่อกลับมาออนไลน์
+ */
+describe("FR-10: Server-backed History Sync", () => {
+  describe("enqueue", () => {
+    it("should append operations with unique opIds", () => {
+      const queue = enqueue(enqueue([], { type: "clear" }), {
+        type: "delete",
+        id: "1",
+      });
+      expect(queue.map((op) => op.type)).toEqual(["clear", "delete"]);
+      expect(queue[0].opId).not.toBe(queue[1].opId);
+    });
+  });
+
+  describe("flushSyncQueue", () => {
+    it("should send operations in order and report synced entries", async () => {
+      const api = okApi();
+      const queue = enqueue(
+        enqueue([], { type: "create", entry: testEntry({ number: 1 }) }),
+        {
+          type: "delete",
+          id: "2",
+        },
+      );
+      const result = await flushSyncQueue(queue, api);
+      expect(api.create).toHaveBeenCalledWith(testEntry({ number: 1 }));
+      expect(api.remove).toHaveBeenCalledWith("2");
+      expect(result.done.size).toBe(2);
+      expect([...result.synced.keys()]).toEqual(["1"]);
+      expect(result.offline).toBe(false);
+    });
+
+    it("should stop at the first network error and keep the rest queued", async () => {
+      const api = okApi();
+      api.create = vi
+        .fn()
+        .mockResolvedValueOnce({ success: true })
+        .mockResolvedValueOnce({ success: false, networkError: true });
+      const queue = enqueue(
+        enqueue(
+          enqueue([], { type: "create", entry: testEntry({ number: 1 }) }),
+          {
+            type: "create",
+            entry: testEntry({ number: 2 }),
+          },
+        ),
+        { type: "clear" },
+      );
+      const result = await flushSyncQueue(queue, api);
+      expect(result.offline).toBe(true);
+      expect(result.done).toEqual(new Set([queue[0].opId]));
+      expect(api.clear).not.toHaveBeenCalled();
+    });
+
+    it("should treat deleting an entry already removed elsewhere as done", async () => {
+      const api = okApi();
+      api.remove = vi.fn().mockResolvedValue({
+        success: false,
+        status: 404,
+        errors: [appError("HTTP_ERROR", null, { status: 404 })],
+      });
+      const result = await flushSyncQueue(
+        enqueue([], { type: "delete", id: "7" }),
+        api,
+      );
+      expect(result.done.size).toBe(1);
+      expect(result.failed).toEqual([]);
+    });
+
+    const BAD = appError("SERVER_MESSAGE", null, { text: "bad" });
+
+    it("should drop operations the server rejects and report the errors", async () => {
+      const api = okApi();
+      api.create = vi
+        .fn()
+        .mockResolvedValue({ success: false, status: 400, errors: [BAD] });
+      const result = await flushSyncQueue(
+        enqueue([], { type: "create", entry: testEntry({ number: 1 }) }),
+        api,
+      );
+      expect(result.done.size).toBe(1);
+      expect(result.synced.size).toBe(0);
+      expect(result.failed).toEqual([BAD]);
+    });
+
+    it("should report entries the server refused, but not server errors", async () => {
+      const api = okApi();
+      api.create = vi
+        .fn()
+        .mockResolvedValueOnce({ success: false, status: 403, errors: [BAD] })
+        .mockResolvedValueOnce({ success: false, status: 500, errors: [BAD] });
+      const result = await flushSyncQueue(
+        enqueue(
+          enqueue([], { type: "create", entry: testEntry({ number: 1 }) }),
+          { type: "create", entry: testEntry({ number: 2 }) },
+        ),
+        api,
+      );
+      expect([...result.refused.keys()]).toEqual(["1"]);
+      expect(result.failed).toEqual([BAD, BAD]);
+    });
+  });
+
+  describe("markRefused", () => {
+    it("should stamp refused entries until the server confirms them", () => {
+      const [refused, other] = markRefused(
+        [testEntry({ number: 1 }), testEntry({ number: 2 })],
+        new Map([["1", "2026-01-01T00:00:00.000Z"]]),
+      );
+      expect(refused.syncRefusedAt).toBe("2026-01-01T00:00:00.000Z");
+      expect(other.syncRefusedAt).toBeUndefined();
+      const [confirmed] = markSynced(
+        [refused],
+        new Map([["1", "2026-01-02T00:00:00.000Z"]]),
+      );
+      expect(confirmed.syncRefusedAt).toBeUndefined();
+    });
+  });
+
+  describe("markSynced", () => {
+    it("should stamp syncedAt on confirmed entries only", () => {
+      const entries = markSynced(
+        [testEntry({ number: 1 }), testEntry({ number: 2 })],
+        new Map([["2", "2026-01-01T00:00:00.000Z"]]),
+      );
+      expect(entries[0].syncedAt).toBeUndefined();
+      expect(entries[1].syncedAt).toBe("2026-01-01T00:00:00.000Z");
+    });
+  });
+
+  describe("mergeServerHistory", () => {
+    const synced = { syncedAt: "2026-01-01T00:00:00.000Z" };
+
+    it("should add entries created on other devices", () => {
+      const { entries } = mergeServerHistory(
+        [testEntry({ number: 1, ...synced })],
+        [
+          testEntry({ number: 1, ...synced }),
+          testEntry({ number: 2, ...synced }),
+        ],
+        [],
+      );
+      expect(entries.map((e) => e.number)).toEqual([1, 2]);
+    });
+
+    it("should drop synced entries deleted on another device and report them", () => {
+      const { entries, removedElsewhere } = mergeServerHistory(
+        [
+          testEntry({ number: 1, ...synced }),
+          testEntry({ number: 2, ...synced }),
+        ],
+        [testEntry({ number: 1, ...synced })],
+        [],
+      );
+      expect(entries.map((e) => e.number)).toEqual([1]);
+      expect(removedElsewhere.map((e) => e.number)).toEqual([2]);
+    });
+
+    it("should keep unsynced local entries and replay pending operations", () => {
+      const pending = enqueue(
+        enqueue([], { type: "create", entry: testEntry({ number: 3 }) }),
+        { type: "delete", id: "1" },
+      );
+      const { entries, removedElsewhere } = mergeServerHistory(
+        [
+          testEntry({ number: 1, ...synced }),
+          testEntry({ number: 3 }),
+          testEntry({ number: 4 }),
+        ],
+        [testEntry({ number: 1, ...synced })],
+        pending,
+      );
+      expect(entries.map((e) => e.number)).toEqual([3, 4]);
+      expect(removedElsewhere).toEqual([]);
+    });
+
+    it("should hide server entries when a clear is still pending", () => {
+      const { entries, removedElsewhere } = mergeServerHistory(
+        [],
+        [testEntry({ number: 1, ...synced })],
+        enqueue([], { type: "clear" }),
+      );
+      expect(entries).toEqual([]);
+      expect(removedElsewhere).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,248 @@
+// Offline-first sync of calculation history with the server
+// localStorage เป็น cache หลัก การเปลี่ยนแปลงจะถูกเก็บในคิวแล้วส่งไปเซิร์ฟเวอร์เมื่อเชื่อมต่อได้
+import {
+  ApiResponse,
+  clearHistory,
+  createHistoryEntry,
+  deleteHistoryEntry,
+  updateHistoryEntry,
+} from "./api";
+import { appError } from "./errors";
+import { AppError, Entry } from "./types";
+import {
+  Recovered,
+  readVersioned,
+  recoverItems,
+  writeVersioned,
+} from "./versionedStorage";
+
+export const SYNC_QUEUE_KEY = "commissionSyncQueue";
+
+export type SyncChange =
+  | { type: "create"; entry: Entry }
+  | { type: "update"; entry: Entry }
+  | { type: "delete"; id: Entry["id"] }
+  | { type: "clear" };
+
+export type SyncOperation = SyncChange & { opId: string };
+
+export interface SyncApi {
+  create: (entry: Entry) => Promise<ApiResponse<unknown>>;
+  update: (entry: Entry) => Promise<ApiResponse<unknown>>;
+  remove: (id: Entry["id"]) => Promise<ApiResponse<unknown>>;
+  clear: () => Promise<ApiResponse<unknown>>;
+}
+
+export const defaultSyncApi: SyncApi = {
+  create: createHistoryEntry,
+  update: updateHistoryEntry,
+  remove: deleteHistoryEntry,
+  clear: clearHistory,
+};
+
+export interface FlushResult {
+  /** opIds that no longer need to be sent (sent, or rejected by the server) */
+  done: Set<string>;
+  /** ids of entries confirmed by the server, with the confirmation time */
+  synced: Map<Entry["id"], string>;
+  /** ids of entries the server refused to store (4xx), with the refusal time */
+  refused: Map<Entry["id"], string>;
+  /** Error messages for operations the server rejected */
+  failed: AppError[];
+  /** true when flushing stopped because the server was unreachable */
+  offline: boolean;
+}
+
+export interface MergeResult {
+  entries: Entry[];
+  /** Previously synced entries that are gone from the server (deleted on another device) */
+  removedElsewhere: Entry[];
+}
+
+const isOperation = (item: unknown): item is SyncOperation =>
+  typeof item === "object" &&
+  item !== null &&
+  typeof (item as SyncOperation).opId === "string" &&
+  ["create", "update", "delete", "clear"].includes(
+    (item as SyncOperation).type,
+  );
+
+const SYNC_QUEUE = {
+  key: SYNC_QUEUE_KEY,
+  migrations: {
+    // id เดิมเป็นตัวเลข เซิร์ฟเวอร์ยังรู้จักในรูปข้อความ
+    1: (queue: unknown) =>
+      Array.isArray(queue)
+        ? queue.map((op) =>
+            !isOperation(op)
+              ? op
+              : op.type === "delete"
+                ? { ...op, id: String(op.id) }
+                : op.type === "clear"
+                  ? op
+                  : { ...op, entry: { ...op.entry, id: String(op.entry.id) } },
+          )
+        : queue,
+  },
+  recover: (data: unknown): Recovered<SyncOperation[]> =>
+    recoverItems(data, (item) => (isOperation(item) ? item : null)),
+  empty: (): SyncOperation[] => [],
+};
+
+export const loadSyncQueue = (): SyncOperation[] =>
+  readVersioned(SYNC_QUEUE).data;
+
+export const saveSyncQueue = (queue: SyncOperation[]): void => {
+  writeVersioned(SYNC_QUEUE_KEY, queue);
+};
+
+/**
+ * Append an operation to the queue with a unique opId
+ */
+export const enqueue = (
+  queue: SyncOperation[],
+  change: SyncChange,
+): SyncOperation[] => [
+  ...queue,
+  { ...change, opId: `${Date.now()}-${Math.random().toString(36).slice(2)}` },
+];
+
+const send = (operation: SyncOperation, api: SyncApi) => {
+  switch (operation.type) {
+    case "create":
+      return api.create(operation.entry);
+    case "update":
+      return api.update(operation.entry);
+    case "delete":
+      return api.remove(operation.id);
+    case "clear":
+      return api.clear();
+  }
+};
+
+/**
+ * Send queued operations in order, stopping at the first network failure
+ */
+export const flushSyncQueue = async (
+  queue: SyncOperation[],
+  api: SyncApi = defaultSyncApi,
+): Promise<FlushResult> => {
+  const result: FlushResult = {
+    done: new Set(),
+    synced: new Map(),
+    refused: new Map(),
+    failed: [],
+    offline: false,
+  };
+
+  for (const operation of queue) {
+    const response = await send(operation, api);
+    if (response.networkError) {
+      result.offline = true;
+      break;
+    }
+    result.done.add(operation.opId);
+
+    // ลบรายการที่ถูกลบไปแล้วจากอุปกรณ์อื่น ถือว่าสำเร็จ
+    const alreadyDeleted =
+      operation.type === "delete" && response.status === 404;
+    if (!response.success && !alreadyDeleted) {
+      result.failed.push(
+        ...(response.errors ?? [appError("UNKNOWN_SERVER_ERROR")]),
+      );
+      // เซิร์ฟเวอร์ปฏิเสธ (เช่น 403, 409) ส่งซ้ำก็ไม่ผ่าน ต่างจาก 5xx ที่ลองใหม่ได้
+      const status = response.status ?? 0;
+      if (
+        (operation.type === "create" || operation.type === "update") &&
+        status >= 400 &&
+        status < 500
+      ) {
+        result.refused.set(operation.entry.id, new Date().toISOString());
+      }
+      continue;
+    }
+    if (operation.type === "create" || operation.type === "update") {
+      result.synced.set(operation.entry.id, new Date().toISOString());
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Mark the entries confirmed by a flush as synced
+ */
+export const markSynced = (
+  entries: Entry[],
+  synced: FlushResult["synced"],
+): Entry[] =>
+  entries.map((entry) =>
+    synced.has(entry.id)
+      ? { ...entry, syncedAt: synced.get(entry.id), syncRefusedAt: undefined }
+      : entry,
+  );
+
+/**
+ * Mark the entries the server refused in a flush, so they are not queued
+ * again on every start
+ */
+export const markRefused = (
+  entries: Entry[],
+  refused: FlushResult["refused"],
+): Entry[] =>
+  entries.map((entry) =>
+    refused.has(entry.id)
+      ? { ...entry, syncRefusedAt: refused.get(entry.id) }
+      : entry,
+  );
+
+/**
+ * Combine the server history with the local cache.
+ * The server is authoritative for synced entries; pending operations are
+ * replayed on top so unsynced local changes are not lost.
+ */
+export const mergeServerHistory = (
+  local: Entry[],
+  server: Entry[],
+  pending: SyncOperation[],
+): MergeResult => {
+  const now = new Date().toISOString();
+  const merged = new Map<Entry["id"], Entry>(
+    server.map((entry) => [
+      entry.id,
+      { ...entry, syncedAt: entry.syncedAt ?? now },
+    ]),
+  );
+
+  for (const operation of pending) {
+    if (operation.type === "create" || operation.type === "update") {
+      merged.set(operation.entry.id, operation.entry);
+    } else if (operation.type === "delete") {
+      merged.delete(operation.id);
+    } else {
+      merged.clear();
+    }
+  }
+
+  const deletedIds = new Set(
+    pending.flatMap((op) => (op.type === "delete" ? [op.id] : [])),
+  );
+  const clearedLocally = pending.some((op) => op.type === "clear");
+  const removedElsewhere: Entry[] = [];
+  for (const entry of local) {
+    if (merged.has(entry.id) || deletedIds.has(entry.id) || clearedLocally) {
+      continue;
+    }
+    if (entry.syncedAt === undefined) {
+      // ยังไม่เคยส่งขึ้นเซิร์ฟเวอร์ เก็บไว้ในเครื่องต่อ
+      merged.set(entry.id, entry);
+    } else {
+      removedElsewhere.push(entry);
+    }
+  }
+
+  return {
+    entries: [...merged.values()].sort((a, b) => a.number - b.number),
+    removedElsewhere,
+  };
+};
@@ -0,0 +1,52 @@
+import { describe, it, expect } from "vitest";
+import {
+  CATALOGS,
+  LocalizedError,
+  formatCurrency,
+  formatMessage,
+  formatNumber,
+  isLocale,
+  message,
+  translate,
+} from "./i18n";
+import { errorMessage } from "./errors";
+import { validateInputRanges } from "./validation";
+
+/**
+ * FR-16: รองรับภาษาไทยและภาษาอังกฤษ ข้อความแจ้งเตือนเป็น message key พร้อมพารามิเตอร์
+ * และแสดงตัวเลข/สกุลเงินตามภาษา
+ */
+describe("FR-16: Thai and English Localization", () => {
+  it("should define the same keys in every catalog", () => {
+    expect(Object.keys(CATALOGS.en).sort()).toEqual(
+      Object.keys(CATALOGS.th).sort(),
+    );
+  });
+
+  it("should fill in message parameters per language", () => {
+    const error = errorMessage(validateInputRanges(75, 50, 50)[0]);
+    expect(formatMessage("en", error)).toBe("Locks must be between 1 and 70");
+    expect(formatMessage("th", error)).toBe("Locks ต้องอยู่ระหว่าง 1 ถึง 70");
+  });
+
+  it("should leave unknown placeholders untouched", () => {
+    expect(translate("en", "validation.required")).toBe("Please enter {label}");
+  });
+
+  it("should use English text for LocalizedError messages", () => {
+    const error = new LocalizedError(message("plan.invalidJson"));
+    expect(error.message).toBe("File is not valid JSON");
+    expect(error.detail).toEqual(message("plan.invalidJson"));
+  });
+
+  it("should format baht and numbers with thousands separators", () => {
+    expect(formatCurrency(1420, "th")).toBe("฿1,420.00");
+    expect(formatCurrency(1420, "en")).toBe("฿1,420.00");
+    expect(formatNumber(12345, "en")).toBe("12,345");
+  });
+
+  it("should recognise supported locales", () => {
+    expect(isLocale("th")).toBe(true);
+    expect(isLocale("fr")).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+// Message catalogs (Thai / English) and locale-aware formatting
+import en from "./messages/en.json";
+import th from "./messages/th.json";
+
+export type Locale = "th" | "en";
+
+export const LOCALES: Locale[] = ["th", "en"];
+export const DEFAULT_LOCALE: Locale = "th";
+
+/** Cookie holding the chosen language, read by the root layout for `lang` */
+export const LOCALE_COOKIE = "commissionLocale";
+
+export type MessageKey = keyof typeof th;
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * A translatable message: catalog key plus values for its {placeholders}
+ */
+export interface Message {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+export const CATALOGS: Record<Locale, Record<MessageKey, string>> = { th, en };
+
+const INTL_LOCALES: Record<Locale, string> = { th: "th-TH", en: "en-US" };
+
+export const message = (key: MessageKey, params?: MessageParams): Message =>
+  params ? { key, params } : { key };
+
+export const isLocale = (value: unknown): value is Locale =>
+  LOCALES.includes(value as Locale);
+
+/**
+ * Look up a catalog entry and fill in its {placeholders}
+ */
+export const translate = (
+  locale: Locale,
+  key: MessageKey,
+  params: MessageParams = {},
+): string =>
+  (CATALOGS[locale][key] ?? key).replace(/\{(\w+)\}/g, (match, name) =>
+    name in params ? String(params[name]) : match,
+  );
+
+export const formatMessage = (locale: Locale, { key, params }: Message) =>
+  translate(locale, key, params);
+
+/**
+ * Error carrying a translatable message; `message` is the English text for logs
+ */
+export class LocalizedError extends Error {
+  constructor(readonly detail: Message) {
+    super(formatMessage("en", detail));
+    this.name = "LocalizedError";
+  }
+}
+
+export const formatNumber = (value: number, locale: Locale): string =>
+  new Intl.NumberFormat(INTL_LOCALES[locale]).format(value);
+
+/**
+ * Format an amount in Thai baht, e.g. "฿1,420.00"
+ */
+export const formatCurrency = (value: number, locale: Locale): string =>
+  new Intl.NumberFormat(INTL_LOCALES[locale], {
+    style: "currency",
+    currency: "THB",
+    currencyDisplay: "narrowSymbol",
+  }).format(value);
+
+export const formatDateTime = (iso: string, locale: Locale): string =>
+  new Date(iso).toLocaleString(INTL_LOCALES[locale]);
+
+export const formatDate = (date: Date, locale: Locale): string =>
+  date.toLocaleDateString(INTL_LOCALES[locale], { dateStyle: "long" });
+
+/**
+ * Remember the chosen language for the next page load
+ */
+export const storeLocale = (locale: Locale): void => {
+  document.cookie = `${LOCALE_COOKIE}=${locale}; path=/; max-age=31536000; samesite=lax`;
+};
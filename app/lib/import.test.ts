@@ -0,0 +1,187 @@
+import { describe, it, expect } from "vitest";
+import {
+  parseCsv,
+  readImportFile,
+  rowsFromTable,
+  validateImportRows,
+} from "./import";
+import { entryFromResponse, invalidEntry } from "./entries";
+import { appError } from "./errors";
+import { message } from "./i18n";
+
+/**
+ * FR-08: นำเข้าไฟล์ CSV/XLSX เพื่อคำนวณค่าคอมมิชชั่นของพนักงานหลายคนพร้อมกัน
+ * - ทุกแถวต้องผ่านการตรวจสอบแบบเดียวกับฟอร์ม และมีรายงานข้อผิดพลาดรายแถว
+ */
+describe("FR-08: Bulk CSV/XLSX Import", () => {
+  describe("parseCsv", () => {
+    it("should split rows and cells", () => {
+      expect(parseCsv("name,locks\nKen,10\r\nฐากูร,20\n")).toEqual([
+        ["name", "locks"],
+        ["Ken", "10"],
+        ["ฐากูร", "20"],
+      ]);
+    });
+
+    it("should handle quoted cells with commas and escaped quotes", () => {
+      expect(parseCsv('"Doe, John","say ""hi"""')).toEqual([
+        ["Doe, John", 'say "hi"'],
+      ]);
+    });
+
+    it("should strip a UTF-8 byte order mark", () => {
+      expect(parseCsv("\uFEFFname\nKen")).toEqual([["name"], ["Ken"]]);
+    });
+  });
+
+  describe("readImportFile", () => {
+    it("should read CSV files and refuse workbooks", async () => {
+      const csv = new File(["name\nKen"], "sales.csv", { type: "text/csv" });
+      expect(await readImportFile(csv)).toEqual([["name"], ["Ken"]]);
+
+      const workbook = new File(["PK"], "sales.xlsx");
+      await expect(readImportFile(workbook)).rejects.toMatchObject({
+        detail: message("import.csvOnly"),
+      });
+    });
+  });
+
+  describe("rowsFromTable", () => {
+    it("should map columns by header name regardless of order and case", () => {
+      const rows = rowsFromTable([
+        ["Barrels", "NAME", "Stocks", "Locks"],
+        ["30", "Ken", "20", "10"],
+      ]);
+      expect(rows).toEqual([
+        { line: 2, name: "Ken", locks: "10", stocks: "20", barrels: "30" },
+      ]);
+    });
+
+    it("should skip blank lines", () => {
+      const rows = rowsFromTable([
+        ["name", "locks", "stocks", "barrels"],
+        ["", "", "", ""],
+        ["Ken", "1", "1", "1"],
+      ]);
+      expect(rows).toHaveLength(1);
+      expect(rows[0].line).toBe(3);
+    });
+
+    it("should read the optional date column", () => {
+      const rows = rowsFromTable([
+        ["name", "locks", "stocks", "barrels", "date"],
+        ["Ken", "1", "1", "1", "2026-09-30"],
+        ["Ken", "1", "1", "1", ""],
+      ]);
+      expect(rows[0].date).toBe("2026-09-30");
+      expect(rows[1].date).toBeUndefined();
+    });
+
+    it("should throw when a required column is missing", () => {
+      expect(() => rowsFromTable([["name", "locks"]])).toThrow(
+        expect.objectContaining({
+          detail: message("import.missingColumns", {
+            columns: "stocks, barrels",
+          }),
+        }),
+      );
+    });
+  });
+
+  describe("validateImportRows", () => {
+    it("should accept valid rows and report rejected ones per line", () => {
+      const report = validateImportRows([
+        { line: 2, name: " Ken ", locks: "10", stocks: "20", barrels: "30" },
+        { line: 3, name: "John123", locks: "1.5", stocks: "20", barrels: "99" },
+      ]);
+      expect(report.accepted).toEqual([
+        {
+          line: 2,
+          request: { name: "Ken", locks: 10, stocks: 20, barrels: 30 },
+          date: expect.stringMatching(/^\d{4}-\d{2}-\d{2}$/),
+        },
+      ]);
+      expect(report.rejected).toEqual([
+        {
+          line: 3,
+          name: "John123",
+          errors: [
+            appError("NAME_INVALID", "name"),
+            appError("NOT_INTEGER", "locks"),
+            appError("OUT_OF_RANGE", "barrels", {
+              label: "Barrels",
+              min: 1,
+              max: 90,
+            }),
+          ],
+        },
+      ]);
+    });
+  });
+
+  describe("validateImportRows - dates", () => {
+    it("should use the row date, defaulting to today, and reject bad dates", () => {
+      const base = { name: "Ken", locks: "1", stocks: "1", barrels: "1" };
+      const report = validateImportRows(
+        [
+          { ...base, line: 2, date: "2026-09-30" },
+          { ...base, line: 3 },
+          { ...base, line: 4, date: "30/09/2026" },
+        ],
+        undefined,
+        "2026-10-19",
+      );
+      expect(report.accepted.map((row) => row.date)).toEqual([
+        "2026-09-30",
+        "2026-10-19",
+      ]);
+      expect(report.rejected).toEqual([
+        { line: 4, name: "Ken", errors: [appError("INVALID_DATE", "date")] },
+      ]);
+    });
+  });
+
+  describe("entryFromResponse", () => {
+    const request = { name: "Ken", locks: 10, stocks: 10, barrels: 10 };
+
+    it("should use the API result when the call succeeds", () => {
+      const entry = entryFromResponse({ id: "1", number: 1 }, request, {
+        success: true,
+        data: { ...request, sales: 1000, commission: 100 },
+      });
+      expect(entry).toMatchObject({
+        id: "1",
+        number: 1,
+        sales: 1000,
+        isValid: true,
+      });
+      expect(entry.calculatedOffline).toBeUndefined();
+    });
+
+    it("should fall back to the client-side engine on network errors", () => {
+      const entry = entryFromResponse({ id: "2", number: 2 }, request, {
+        success: false,
+        networkError: true,
+        errors: [appError("NETWORK_ERROR", null, { detail: "offline" })],
+      });
+      expect(entry).toMatchObject({
+        sales: 1000,
+        commission: 100,
+        isValid: true,
+        calculatedOffline: true,
+      });
+    });
+
+    it("should keep server errors on an invalid entry", () => {
+      const entry = entryFromResponse({ id: "3", number: 3 }, request, {
+        success: false,
+        errors: [appError("OUT_OF_RANGE", "locks", { label: "Locks" })],
+      });
+      expect(entry).toEqual(
+        invalidEntry({ id: "3", number: 3 }, request, [
+          appError("OUT_OF_RANGE", "locks", { label: "Locks" }),
+        ]),
+      );
+    });
+  });
+});
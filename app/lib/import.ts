@@ -0,0 +1,177 @@
+// Bulk import of monthly sales from CSV files
+import type { CalculateRequest } from "./api";
+import { appError } from "./errors";
+import { LocalizedError, message } from "./i18n";
+import { isIsoDate, todayIso } from "./periods";
+import { CommissionPlan, DEFAULT_PLAN } from "./plan";
+import { AppError } from "./types";
+import {
+  validateInputRanges,
+  validateName,
+  validateNumericField,
+} from "./validation";
+
+export const IMPORT_COLUMNS = ["name", "locks", "stocks", "barrels"] as const;
+
+/** Optional sales date column (YYYY-MM-DD), defaults to today */
+export const IMPORT_DATE_COLUMN = "date";
+
+type ImportColumn = (typeof IMPORT_COLUMNS)[number];
+
+/**
+ * One data row of an import file, values kept as raw strings
+ */
+export interface ImportRow extends Record<ImportColumn, string> {
+  /** 1-based line number in the source file (header is line 1) */
+  line: number;
+  date?: string;
+}
+
+export interface AcceptedRow {
+  line: number;
+  request: CalculateRequest;
+  date: string;
+}
+
+export interface RejectedRow {
+  line: number;
+  name: string;
+  errors: AppError[];
+}
+
+export interface ImportReport {
+  accepted: AcceptedRow[];
+  rejected: RejectedRow[];
+}
+
+/**
+ * Parse CSV text into a table of cells (supports quoted fields and "" escapes)
+ */
+export const parseCsv = (text: string): string[][] => {
+  const table: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  const source = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && source[i + 1] === "\n") i++;
+      row.push(cell);
+      table.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    table.push(row);
+  }
+
+  return table;
+};
+
+/**
+ * Map a table with a header row onto import rows.
+ * Throws when one of the required columns is missing.
+ */
+export const rowsFromTable = (table: string[][]): ImportRow[] => {
+  const [header = [], ...body] = table;
+  const normalizedHeader = header.map((cell) => cell.trim().toLowerCase());
+  const indexes = IMPORT_COLUMNS.map((column) =>
+    normalizedHeader.indexOf(column),
+  );
+
+  const dateIndex = normalizedHeader.indexOf(IMPORT_DATE_COLUMN);
+
+  const missing = IMPORT_COLUMNS.filter((_, i) => indexes[i] === -1);
+  if (missing.length > 0) {
+    throw new LocalizedError(
+      message("import.missingColumns", { columns: missing.join(", ") }),
+    );
+  }
+
+  return body
+    .map((cells, i) => {
+      const row = { line: i + 2 } as ImportRow;
+      IMPORT_COLUMNS.forEach((column, c) => {
+        row[column] = String(cells[indexes[c]] ?? "");
+      });
+      if (dateIndex !== -1 && String(cells[dateIndex] ?? "").trim() !== "") {
+        row.date = String(cells[dateIndex]).trim();
+      }
+      return row;
+    })
+    .filter((row) =>
+      IMPORT_COLUMNS.some((column) => row[column].trim() !== ""),
+    );
+};
+
+/**
+ * Run every row through the same validation as the single-entry form
+ */
+export const validateImportRows = (
+  rows: ImportRow[],
+  plan: CommissionPlan = DEFAULT_PLAN,
+  today: string = todayIso(),
+): ImportReport => {
+  const report: ImportReport = { accepted: [], rejected: [] };
+
+  for (const row of rows) {
+    const errors = [
+      validateName(row.name),
+      validateNumericField(row.locks, "locks", plan),
+      validateNumericField(row.stocks, "stocks", plan),
+      validateNumericField(row.barrels, "barrels", plan),
+    ].filter((error): error is AppError => error !== null);
+
+    const locks = parseInt(row.locks) || 0;
+    const stocks = parseInt(row.stocks) || 0;
+    const barrels = parseInt(row.barrels) || 0;
+    errors.push(...validateInputRanges(locks, stocks, barrels, plan));
+    if (row.date !== undefined && !isIsoDate(row.date)) {
+      errors.push(appError("INVALID_DATE", "date"));
+    }
+
+    if (errors.length > 0) {
+      report.rejected.push({ line: row.line, name: row.name, errors });
+    } else {
+      report.accepted.push({
+        line: row.line,
+        request: { name: row.name.trim(), locks, stocks, barrels },
+        date: row.date ?? today,
+      });
+    }
+  }
+
+  return report;
+};
+
+/**
+ * Read a CSV file into a table of cells. Workbooks are refused: the SheetJS
+ * release on npm has unpatched parser advisories, so uploaded files are
+ * never handed to it; save the sheet as CSV instead.
+ */
+export const readImportFile = async (file: File): Promise<string[][]> => {
+  if (!/\.csv$/i.test(file.name) && file.type !== "text/csv") {
+    throw new LocalizedError(message("import.csvOnly"));
+  }
+  return parseCsv(await file.text());
+};
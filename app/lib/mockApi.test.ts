@@ -0,0 +1,204 @@
+import { afterEach, describe, it, expect } from "vitest";
+import {
+  apiClient,
+  calculateCommission,
+  calculateCommissionBatch,
+  createHistoryEntry,
+  deleteHistoryEntry,
+  fetchEmployees,
+  fetchHistory,
+  fetchSession,
+  login,
+} from "./api";
+import { calculateBreakdown } from "./commission";
+import { entryFromResponse, newEntryId } from "./entries";
+import { appError } from "./errors";
+import {
+  MOCK_EMPLOYEES,
+  MOCK_SCENARIO_HEADER,
+  MOCK_SESSION_COOKIE,
+  MockScenario,
+  createMockAdapter,
+  createMockState,
+  mockRouteHandler,
+} from "./mockApi";
+import { Entry } from "./types";
+
+const request = { name: "Ken", locks: 10, stocks: 10, barrels: 10 };
+const DATE = "2026-10-01";
+
+const ADMIN_ID = "U004";
+
+const useMock = (scenario: MockScenario, state = createMockState()) => {
+  apiClient.defaults.adapter = createMockAdapter({
+    scenario,
+    state,
+    slowMs: 50,
+    signedInAs: ADMIN_ID,
+  });
+  return state;
+};
+
+// เหมือน handleCalculate: เรียก API แล้วสร้างรายการจากผลลัพธ์
+const calculateEntry = async (options = {}) =>
+  entryFromResponse(
+    { id: "1", number: 1 },
+    request,
+    await calculateCommission(request, { retryDelayMs: 0, ...options }),
+    undefined,
+    DATE,
+  );
+
+const originalAdapter = apiClient.defaults.adapter;
+afterEach(() => {
+  apiClient.defaults.adapter = originalAdapter;
+});
+
+/**
+ * FR-19: Mock API สำหรับพัฒนาและทดสอบ เลือกสถานการณ์ได้
+ * (สำเร็จ, ข้อมูลไม่ถูกต้อง, 500, ตอบช้า, JSON เสีย)
+ */
+describe("FR-19: Mock API Scenarios", () => {
+  describe("calculate", () => {
+    it("should calculate with the plan in the success scenario", async () => {
+      useMock("success");
+      expect(await calculateEntry()).toMatchObject({
+        sales: 1000,
+        commission: 100,
+        isValid: true,
+      });
+    });
+
+    it("should answer a batch row by row", async () => {
+      useMock("success");
+      const responses = await calculateCommissionBatch([
+        request,
+        { ...request, locks: 71 },
+      ]);
+      expect(responses[0]).toMatchObject({
+        success: true,
+        data: { sales: 1000 },
+      });
+      expect(responses[1].errors).toEqual([
+        appError("OUT_OF_RANGE", "locks", { label: "Locks", min: 1, max: 70 }),
+      ]);
+    });
+
+    it("should validate the request like the real server", async () => {
+      useMock("success");
+      const response = await calculateCommission({ ...request, locks: 71 });
+      expect(response.status).toBe(400);
+      expect(response.errors).toEqual([
+        appError("OUT_OF_RANGE", "locks", { label: "Locks", min: 1, max: 70 }),
+      ]);
+    });
+
+    it("should return field errors in the validation scenario", async () => {
+      useMock("validation");
+      const entry = await calculateEntry();
+      expect(entry.isValid).toBe(false);
+      expect(entry.errors.map((error) => error.field)).toEqual([
+        "name",
+        "locks",
+      ]);
+    });
+
+    it("should fail with HTTP_ERROR in the serverError scenario", async () => {
+      useMock("serverError");
+      const entry = await calculateEntry();
+      expect(entry.errors).toEqual([
+        appError("HTTP_ERROR", null, {
+          status: 500,
+          statusText: "Internal Server Error",
+        }),
+      ]);
+    });
+
+    it("should time out and fall back offline in the slow scenario", async () => {
+      useMock("slow");
+      const entry = await calculateEntry({ timeoutMs: 10, retries: 0 });
+      expect(entry).toMatchObject({ calculatedOffline: true, commission: 100 });
+    });
+
+    it("should answer the slow scenario within a longer time limit", async () => {
+      useMock("slow");
+      const entry = await calculateEntry({ timeoutMs: 1000 });
+      expect(entry.calculatedOffline).toBeUndefined();
+    });
+
+    it("should report an invalid response in the malformed scenario", async () => {
+      useMock("malformed");
+      const entry = await calculateEntry();
+      expect(entry.errors[0].code).toBe("INVALID_RESPONSE");
+    });
+  });
+
+  describe("auth under scenarios", () => {
+    it("should sign in normally whatever the scenario", async () => {
+      for (const scenario of [
+        "validation",
+        "serverError",
+        "malformed",
+      ] as const) {
+        apiClient.defaults.adapter = createMockAdapter({ scenario });
+        expect(
+          (await login({ username: "admin", password: "demo1234" })).success,
+        ).toBe(true);
+        expect((await fetchSession()).data?.username).toBe("admin");
+        expect((await fetchHistory()).success).toBe(false);
+      }
+    });
+  });
+
+  describe("other endpoints", () => {
+    it("should keep history between requests", async () => {
+      const state = useMock("success");
+      const entry: Entry = { ...(await calculateEntry()), id: newEntryId() };
+      await createHistoryEntry(entry);
+      // เซิร์ฟเวอร์บันทึกผู้สร้างจาก session ไม่เชื่อค่าที่ client ส่งมา
+      expect((await fetchHistory()).data).toEqual([
+        { ...entry, createdBy: ADMIN_ID },
+      ]);
+
+      expect((await deleteHistoryEntry(entry.id)).success).toBe(true);
+      expect(state.history.size).toBe(0);
+      expect((await deleteHistoryEntry(entry.id)).status).toBe(404);
+    });
+
+    it("should list the sample employees", async () => {
+      useMock("success");
+      expect((await fetchEmployees()).data).toEqual(MOCK_EMPLOYEES);
+    });
+  });
+
+  describe("mockRouteHandler", () => {
+    it("should serve the contract over HTTP with the scenario header", async () => {
+      const post = (scenario: MockScenario) =>
+        mockRouteHandler(
+          new Request("http://localhost/api/commission/calculate", {
+            method: "POST",
+            headers: {
+              [MOCK_SCENARIO_HEADER]: scenario,
+              cookie: `${MOCK_SESSION_COOKIE}=${ADMIN_ID}`,
+            },
+            body: JSON.stringify(request),
+          }),
+        );
+
+      const success = await post("success");
+      expect(success.status).toBe(200);
+      expect(await success.json()).toEqual({
+        success: true,
+        data: {
+          ...request,
+          sales: 1000,
+          commission: 100,
+          breakdown: calculateBreakdown(10, 10, 10),
+        },
+      });
+
+      expect((await post("serverError")).status).toBe(500);
+      await expect((await post("malformed")).json()).rejects.toThrow();
+    });
+  });
+});
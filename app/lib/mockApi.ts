@@ -0,0 +1,755 @@
+// In-memory mock of the backend API for development and tests
+// ใช้ได้ทั้งเป็น route handler ของ Next.js (app/api) และเป็น axios adapter ใน Vitest
+import {
+  AxiosAdapter,
+  AxiosError,
+  AxiosResponse,
+  CanceledError,
+  InternalAxiosRequestConfig,
+} from "axios";
+import type { CalculateRequest, Credentials } from "./api";
+import { canChangeStatus, isReadOnly, statusOf } from "./approval";
+import {
+  can,
+  canCalculateFor,
+  canViewEntry,
+  isRole,
+  visibleEntries,
+} from "./auth";
+import { calculateBreakdown, calculateCommissionLocally } from "./commission";
+import { hasSameValues } from "./entries";
+import { appError } from "./errors";
+import { formatMessage } from "./i18n";
+import { isEntryLocked } from "./periods";
+import { removeTarget, setTarget, targetId, validateTarget } from "./targets";
+import { CommissionPlan, DEFAULT_PLAN, ITEM_KEYS, validatePlan } from "./plan";
+import {
+  AppError,
+  ClosedPeriod,
+  Employee,
+  Entry,
+  SalesTarget,
+  User,
+} from "./types";
+import {
+  validateInputRanges,
+  validateName,
+  validateNumericField,
+} from "./validation";
+
+export type MockScenario =
+  "success" | "validation" | "serverError" | "slow" | "malformed";
+
+export const MOCK_SCENARIOS: MockScenario[] = [
+  "success",
+  "validation",
+  "serverError",
+  "slow",
+  "malformed",
+];
+
+/** Request header, cookie and env variable that pick the scenario */
+export const MOCK_SCENARIO_HEADER = "x-mock-scenario";
+export const MOCK_SCENARIO_COOKIE = "mockScenario";
+export const MOCK_SCENARIO_ENV = "MOCK_API_SCENARIO";
+
+/** Cookie holding the id of the signed-in user */
+export const MOCK_SESSION_COOKIE = "mockSession";
+
+/** Delay of the "slow" scenario, above the client's default timeout */
+export const SLOW_RESPONSE_MS = 15000;
+
+export const isMockScenario = (value: unknown): value is MockScenario =>
+  MOCK_SCENARIOS.includes(value as MockScenario);
+
+export interface MockRequest {
+  method: string;
+  /** Path without the origin, e.g. "/api/users/u-1" */
+  path: string;
+  body?: unknown;
+  /** User id from the session cookie */
+  session?: string | null;
+}
+
+export interface MockReply {
+  status: number;
+  /** Raw response text, so the malformed scenario can send broken JSON */
+  body: string;
+  delayMs: number;
+  /** New session cookie value: a user id, `null` to clear it, absent to keep it */
+  session?: string | null;
+}
+
+export interface MockOptions {
+  scenario?: MockScenario;
+  /** Delay of the slow scenario (default SLOW_RESPONSE_MS) */
+  slowMs?: number;
+}
+
+/**
+ * Data kept by the mock server between requests
+ */
+export interface MockState {
+  plan: CommissionPlan;
+  history: Map<Entry["id"], Entry>;
+  employees: Employee[];
+  users: MockUser[];
+  closedPeriods: ClosedPeriod[];
+  targets: SalesTarget[];
+}
+
+export interface MockUser extends User {
+  password: string;
+}
+
+export const MOCK_EMPLOYEES: Employee[] = [
+  { id: "E001", nameTh: "ฐากูร", nameEn: "Thakun", team: "North" },
+  { id: "E002", nameTh: "เคน", nameEn: "Ken", team: "South" },
+  { id: "E003", nameTh: "เอกรินทร์", nameEn: "Ekarin", team: "North" },
+];
+
+/** Password of every sample user */
+export const MOCK_PASSWORD = "demo1234";
+
+export const MOCK_USERS: MockUser[] = [
+  {
+    id: "U001",
+    username: "thakun",
+    name: "Thakun",
+    role: "rep",
+    employeeId: "E001",
+    team: "North",
+    password: MOCK_PASSWORD,
+  },
+  {
+    id: "U002",
+    username: "ken",
+    name: "Ken",
+    role: "rep",
+    employeeId: "E002",
+    team: "South",
+    password: MOCK_PASSWORD,
+  },
+  {
+    id: "U003",
+    username: "north.manager",
+    name: "Napat",
+    role: "manager",
+    team: "North",
+    password: MOCK_PASSWORD,
+  },
+  {
+    id: "U004",
+    username: "admin",
+    name: "Admin",
+    role: "admin",
+    password: MOCK_PASSWORD,
+  },
+];
+
+export const createMockState = (): MockState => ({
+  plan: DEFAULT_PLAN,
+  history: new Map(),
+  employees: MOCK_EMPLOYEES,
+  users: MOCK_USERS.map((user) => ({ ...user })),
+  closedPeriods: [],
+  targets: [],
+});
+
+// คำตอบที่ใช้ในสถานการณ์ "validation" ไม่ว่าข้อมูลที่ส่งมาจะเป็นอะไร
+const CANNED_VALIDATION_ERRORS: AppError[] = [
+  appError("NAME_INVALID", "name"),
+  appError("OUT_OF_RANGE", "locks", { label: "Locks", min: 1, max: 70 }),
+];
+
+const MALFORMED_BODY = '{"success": true, "data": {"sales": 10';
+
+const reply = (status: number, body: unknown): MockReply => ({
+  status,
+  body: JSON.stringify(body),
+  delayMs: 0,
+});
+
+const ok = (data: unknown) => reply(200, { success: true, data });
+
+const rejected = (errors: AppError[]) => reply(400, { success: false, errors });
+
+const unauthorized = () =>
+  reply(401, { success: false, errors: [appError("UNAUTHORIZED")] });
+
+const forbidden = () =>
+  reply(403, { success: false, errors: [appError("FORBIDDEN")] });
+
+const periodClosed = (entry: Entry) =>
+  reply(409, {
+    success: false,
+    errors: [appError("PERIOD_CLOSED", "date", { period: entry.period })],
+  });
+
+const notFound = (path: string) =>
+  reply(404, {
+    success: false,
+    errors: [appError("SERVER_MESSAGE", null, { text: `Not found: ${path}` })],
+  });
+
+/**
+ * Server-side check of a calculation request, same rules as the form
+ */
+const validateCalculateRequest = (
+  body: unknown,
+  plan: CommissionPlan,
+): AppError[] => {
+  const request = (body ?? {}) as Partial<
+    Record<keyof CalculateRequest, unknown>
+  >;
+  const errors = [
+    validateName(typeof request.name === "string" ? request.name : ""),
+    ...ITEM_KEYS.map((key) =>
+      validateNumericField(String(request[key] ?? ""), key, plan),
+    ),
+  ].filter((error): error is AppError => error !== null);
+  if (errors.length > 0) return errors;
+  const { locks, stocks, barrels } = request as CalculateRequest;
+  return validateInputRanges(locks, stocks, barrels, plan);
+};
+
+const calculateRow = (state: MockState, body: unknown) => {
+  const errors = validateCalculateRequest(body, state.plan);
+  if (errors.length > 0) return { success: false, errors };
+  const request = body as CalculateRequest;
+  const result = calculateCommissionLocally(
+    request.locks,
+    request.stocks,
+    request.barrels,
+    state.plan,
+  );
+  return {
+    success: true,
+    data: {
+      name: request.name.trim(),
+      locks: request.locks,
+      stocks: request.stocks,
+      barrels: request.barrels,
+      ...result,
+      breakdown: calculateBreakdown(
+        request.locks,
+        request.stocks,
+        request.barrels,
+        state.plan,
+      ),
+    },
+  };
+};
+
+const calculate = (state: MockState, body: unknown): MockReply => {
+  const row = calculateRow(state, body);
+  return row.success ? ok(row.data) : rejected(row.errors!);
+};
+
+// แถวที่ไม่ผ่านไม่ทำให้ทั้งกลุ่มล้มเหลว แต่ละแถวมีผลลัพธ์ของตัวเอง
+const calculateBatch = (state: MockState, body: unknown): MockReply => {
+  const { requests } = (body ?? {}) as { requests?: unknown };
+  if (!Array.isArray(requests)) {
+    return rejected([
+      appError("SERVER_MESSAGE", null, { text: "requests must be an array" }),
+    ]);
+  }
+  return ok(requests.map((request) => calculateRow(state, request)));
+};
+
+const savePlan = (state: MockState, body: unknown): MockReply => {
+  const errors = validatePlan(body);
+  if (errors.length > 0) {
+    return rejected(
+      errors.map((error) =>
+        appError("SERVER_MESSAGE", null, { text: formatMessage("en", error) }),
+      ),
+    );
+  }
+  state.plan = body as CommissionPlan;
+  return ok(state.plan);
+};
+
+const sortedHistory = (state: MockState, user: User) =>
+  visibleEntries(
+    user,
+    [...state.history.values()].sort((a, b) => a.number - b.number),
+    state.employees,
+  );
+
+// พนักงานขายบันทึกได้เฉพาะชื่อตัวเอง ผู้จัดการเฉพาะทีมตัวเอง ชื่อที่ไม่อยู่ในทะเบียนบันทึกได้
+const mayRecordFor = (state: MockState, user: User, entry: Entry) => {
+  if (entry.employeeId === undefined) return true;
+  const employee = state.employees.find((e) => e.id === entry.employeeId);
+  return employee
+    ? canCalculateFor(user, employee)
+    : can(user, "calculateForOthers");
+};
+
+// สถานะเปลี่ยนได้ตามขั้นตอนอนุมัติเท่านั้น รายการที่อนุมัติแล้วเปลี่ยนได้แค่สถานะ
+const saveEntry = (state: MockState, user: User, sent: Entry): MockReply => {
+  const stored = state.history.get(sent.id);
+  const entry: Entry = {
+    ...sent,
+    createdBy: stored ? stored.createdBy : user.id,
+  };
+  const status = statusOf(entry);
+  if (!stored) {
+    if (status !== "draft" && status !== "submitted") return forbidden();
+    if (!mayRecordFor(state, user, entry)) return forbidden();
+    if (isEntryLocked(state.closedPeriods, entry)) return periodClosed(entry);
+    state.history.set(entry.id, entry);
+    return ok(entry);
+  }
+  if (!canViewEntry(user, stored, state.employees)) return forbidden();
+  const statusChanged = statusOf(stored) !== status;
+  if (statusChanged && !canChangeStatus(user, stored, status))
+    return forbidden();
+  // อนุมัติได้เฉพาะค่าที่ส่งมาให้อนุมัติ
+  if (
+    (isReadOnly(stored) || isReadOnly(entry)) &&
+    !hasSameValues(stored, entry)
+  ) {
+    return forbidden();
+  }
+  if (
+    entry.employeeId !== stored.employeeId &&
+    !mayRecordFor(state, user, entry)
+  ) {
+    return forbidden();
+  }
+  // เดือนที่ปิดแล้วยังอนุมัติหรือจ่ายได้ แต่แก้ค่าหรือย้ายเข้าไปไม่ได้
+  const locked = [stored, entry].find((e) =>
+    isEntryLocked(state.closedPeriods, e),
+  );
+  if (locked && !hasSameValues(stored, entry)) return periodClosed(locked);
+  state.history.set(entry.id, entry);
+  return ok(entry);
+};
+
+// ลบได้เฉพาะรายการที่มองเห็น และรายการที่อนุมัติแล้วลบไม่ได้
+const deleteEntry = (
+  state: MockState,
+  user: User,
+  id: string,
+  path: string,
+) => {
+  const stored = state.history.get(id);
+  if (!stored) return notFound(path);
+  if (!canViewEntry(user, stored, state.employees)) return forbidden();
+  if (isReadOnly(stored)) return forbidden();
+  if (isEntryLocked(state.closedPeriods, stored)) return periodClosed(stored);
+  state.history.delete(id);
+  return ok(null);
+};
+
+// ผู้ที่ปิดงวดได้เห็นทุกงวด คนอื่นเห็นเฉพาะงวดที่มีรายการที่ตัวเองมองเห็น
+const visibleClosedPeriods = (state: MockState, user: User) => {
+  if (can(user, "closePeriods")) return state.closedPeriods;
+  const visible = new Set(sortedHistory(state, user).map((entry) => entry.id));
+  return state.closedPeriods.filter((closed) =>
+    closed.entryIds.some((id) => visible.has(id)),
+  );
+};
+
+const isClosedPeriod = (value: unknown): value is ClosedPeriod =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as ClosedPeriod).employeeKey === "string" &&
+  typeof (value as ClosedPeriod).period === "string" &&
+  Array.isArray((value as ClosedPeriod).entryIds);
+
+// งวดที่ปิดไปแล้วไม่ถูกแทนที่ ปิดซ้ำได้โดยไม่เกิดผลอะไร
+const closePeriods = (
+  state: MockState,
+  user: User,
+  body: unknown,
+): MockReply => {
+  if (!Array.isArray(body) || !body.every(isClosedPeriod)) {
+    return rejected([
+      appError("SERVER_MESSAGE", null, {
+        text: "body must be an array of closed periods",
+      }),
+    ]);
+  }
+  for (const closed of body) {
+    const already = state.closedPeriods.some(
+      (c) => c.employeeKey === closed.employeeKey && c.period === closed.period,
+    );
+    if (!already) state.closedPeriods.push(closed);
+  }
+  return ok(visibleClosedPeriods(state, user));
+};
+
+// พนักงานขายเห็นเป้าของตัวเอง ผู้จัดการของทีม ชื่อที่ไม่อยู่ในทะเบียนเฉพาะผู้กำหนดเป้า
+const mayViewTarget = (
+  state: MockState,
+  user: User,
+  target: Pick<SalesTarget, "employeeKey">,
+) => {
+  const employee = state.employees.find((e) => e.id === target.employeeKey);
+  return employee ? canCalculateFor(user, employee) : can(user, "setTargets");
+};
+
+const saveTarget = (
+  state: MockState,
+  user: User,
+  id: string,
+  body: unknown,
+): MockReply => {
+  const target = (body ?? {}) as SalesTarget;
+  if (
+    typeof target.employeeKey !== "string" ||
+    typeof target.name !== "string" ||
+    typeof target.period !== "string" ||
+    targetId(target) !== id
+  ) {
+    return rejected([
+      appError("SERVER_MESSAGE", null, {
+        text: "body must be the target of the employee and period in the path",
+      }),
+    ]);
+  }
+  if (!mayViewTarget(state, user, target)) return forbidden();
+  const errors = validateTarget(target);
+  if (errors.length > 0) {
+    return rejected(
+      errors.map((error) =>
+        appError("SERVER_MESSAGE", null, { text: formatMessage("en", error) }),
+      ),
+    );
+  }
+  state.targets = setTarget(state.targets, target);
+  return ok(target);
+};
+
+const deleteTarget = (
+  state: MockState,
+  user: User,
+  id: string,
+  path: string,
+): MockReply => {
+  const target = state.targets.find((t) => targetId(t) === id);
+  if (!target) return notFound(path);
+  if (!mayViewTarget(state, user, target)) return forbidden();
+  state.targets = removeTarget(state.targets, target);
+  return ok(null);
+};
+
+/**
+ * A sample user as the API returns it, without the password
+ */
+export const publicUser = (user: MockUser): User => ({
+  id: user.id,
+  username: user.username,
+  name: user.name,
+  role: user.role,
+  employeeId: user.employeeId,
+  team: user.team,
+});
+
+const signIn = (state: MockState, body: unknown): MockReply => {
+  const { username, password } = (body ?? {}) as Partial<Credentials>;
+  const user = state.users.find(
+    (candidate) =>
+      candidate.username === username && candidate.password === password,
+  );
+  if (!user) {
+    return reply(401, {
+      success: false,
+      errors: [appError("INVALID_CREDENTIALS")],
+    });
+  }
+  return { ...ok(publicUser(user)), session: user.id };
+};
+
+const saveUser = (state: MockState, id: string, body: unknown): MockReply => {
+  const user = state.users.find((candidate) => candidate.id === id);
+  if (!user) return notFound(`/api/users/${id}`);
+  const changes = (body ?? {}) as Partial<User>;
+  if (!isRole(changes.role)) {
+    return rejected([
+      appError("SERVER_MESSAGE", null, { text: "Unknown role" }),
+    ]);
+  }
+  user.role = changes.role;
+  user.team = changes.team || undefined;
+  user.employeeId = changes.employeeId || undefined;
+  return ok(publicUser(user));
+};
+
+// path ที่มี id แปลงเป็นรูปแบบ ":id" เพื่อใช้ใน switch
+const ROUTE_PATTERNS: [RegExp, string][] = [
+  [/^\/api\/history\/([^/]+)$/, "/api/history/:id"],
+  [/^\/api\/users\/([^/]+)$/, "/api/users/:id"],
+  [/^\/api\/targets\/([^/]+)$/, "/api/targets/:id"],
+];
+
+const matchRoute = (path: string) => {
+  for (const [pattern, name] of ROUTE_PATTERNS) {
+    const match = path.match(pattern);
+    if (match) return { name, param: decodeURIComponent(match[1]) };
+  }
+  return { name: path, param: undefined };
+};
+
+/**
+ * Answer one request the way the real backend would
+ */
+const route = (
+  state: MockState,
+  { method, path, body, session }: MockRequest,
+): MockReply => {
+  const { name, param } = matchRoute(path);
+  const key = `${method.toUpperCase()} ${name}`;
+  switch (key) {
+    case "POST /api/auth/login":
+      return signIn(state, body);
+    case "POST /api/auth/logout":
+      return { ...ok(null), session: null };
+  }
+
+  const user = state.users.find((candidate) => candidate.id === session);
+  if (!user) return unauthorized();
+  switch (key) {
+    case "GET /api/auth/session":
+      return ok(publicUser(user));
+    case "POST /api/commission/calculate":
+      return calculate(state, body);
+    case "POST /api/commission/calculate/batch":
+      return calculateBatch(state, body);
+    case "GET /api/commission/plan":
+      return ok(state.plan);
+    case "PUT /api/commission/plan":
+      return can(user, "managePlans") ? savePlan(state, body) : forbidden();
+    case "GET /api/history":
+      return ok(sortedHistory(state, user));
+    case "POST /api/history":
+    case "PUT /api/history/:id":
+      return saveEntry(state, user, {
+        ...(body as Entry),
+        ...(param ? { id: param } : {}),
+      });
+    case "DELETE /api/history/:id":
+      return deleteEntry(state, user, param!, path);
+    case "DELETE /api/history":
+      // ลบเฉพาะรายการที่ผู้ใช้มองเห็น ยังไม่ได้อนุมัติ และอยู่ในเดือนที่ยังไม่ปิด
+      for (const entry of sortedHistory(state, user)) {
+        if (!isReadOnly(entry) && !isEntryLocked(state.closedPeriods, entry)) {
+          state.history.delete(entry.id);
+        }
+      }
+      return ok(null);
+    case "GET /api/periods":
+      return ok(visibleClosedPeriods(state, user));
+    case "POST /api/periods":
+      return can(user, "closePeriods")
+        ? closePeriods(state, user, body)
+        : forbidden();
+    case "GET /api/targets":
+      return ok(
+        state.targets.filter((target) => mayViewTarget(state, user, target)),
+      );
+    case "PUT /api/targets/:id":
+      return can(user, "setTargets")
+        ? saveTarget(state, user, param!, body)
+        : forbidden();
+    case "DELETE /api/targets/:id":
+      return can(user, "setTargets")
+        ? deleteTarget(state, user, param!, path)
+        : forbidden();
+    case "GET /api/employees":
+      return ok(state.employees);
+    case "GET /api/users":
+      return can(user, "manageUsers")
+        ? ok(state.users.map(publicUser))
+        : forbidden();
+    case "PUT /api/users/:id":
+      return can(user, "manageUsers")
+        ? saveUser(state, param!, body)
+        : forbidden();
+    default:
+      return notFound(path);
+  }
+};
+
+const AUTH_PATH = /^\/api\/auth\//;
+
+/**
+ * Answer a request under the chosen scenario. Sign-in and session calls are
+ * always answered normally, so the failure paths can be tried while signed in.
+ */
+export const handleMockRequest = (
+  state: MockState,
+  request: MockRequest,
+  { scenario = "success", slowMs = SLOW_RESPONSE_MS }: MockOptions = {},
+): MockReply => {
+  if (AUTH_PATH.test(request.path)) return route(state, request);
+  switch (scenario) {
+    case "validation":
+      return rejected(CANNED_VALIDATION_ERRORS);
+    case "serverError":
+      return reply(500, { success: false });
+    case "malformed":
+      return { status: 200, body: MALFORMED_BODY, delayMs: 0 };
+    case "slow":
+      return { ...route(state, request), delayMs: slowMs };
+    default:
+      return route(state, request);
+  }
+};
+
+const STATUS_TEXT: Record<number, string> = {
+  200: "OK",
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  409: "Conflict",
+  500: "Internal Server Error",
+};
+
+// รอตามเวลาที่กำหนด โดยเคารพ timeout และ AbortSignal ของ axios เหมือน adapter จริง
+const waitForReply = (ms: number, config: InternalAxiosRequestConfig) =>
+  new Promise<void>((resolve, reject) => {
+    const signal = config.signal as AbortSignal | undefined;
+    const timeout = config.timeout || Infinity;
+    const timer = setTimeout(
+      () => {
+        signal?.removeEventListener?.("abort", onAbort);
+        if (ms > timeout) {
+          reject(
+            new AxiosError(
+              `timeout of ${timeout}ms exceeded`,
+              AxiosError.ECONNABORTED,
+              config,
+            ),
+          );
+        } else {
+          resolve();
+        }
+      },
+      Math.min(ms, timeout),
+    );
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CanceledError(undefined, undefined, config));
+    };
+    signal?.addEventListener?.("abort", onAbort, { once: true });
+  });
+
+const parseRequestBody = (data: unknown): unknown => {
+  if (typeof data !== "string") return data;
+  try {
+    return JSON.parse(data);
+  } catch {
+    return data;
+  }
+};
+
+/**
+ * Axios adapter answering from the mock instead of the network, for tests:
+ * `apiClient.defaults.adapter = createMockAdapter({ scenario: "slow" })`.
+ * The session lives in the adapter, `signedInAs` starts it signed in.
+ */
+export const createMockAdapter = (
+  options: MockOptions & { state?: MockState; signedInAs?: string } = {},
+): AxiosAdapter => {
+  const state = options.state ?? createMockState();
+  let session = options.signedInAs ?? null;
+  return async (config) => {
+    const result = handleMockRequest(
+      state,
+      {
+        method: config.method ?? "get",
+        path: new URL(config.url ?? "", "http://mock").pathname,
+        body: parseRequestBody(config.data),
+        session,
+      },
+      options,
+    );
+    if (result.session !== undefined) session = result.session;
+    if (result.delayMs > 0) await waitForReply(result.delayMs, config);
+    const response: AxiosResponse = {
+      data: result.body,
+      status: result.status,
+      statusText: STATUS_TEXT[result.status] ?? "",
+      headers: { "content-type": "application/json" },
+      config,
+    };
+    if (result.status >= 400) {
+      throw new AxiosError(
+        `Request failed with status code ${result.status}`,
+        result.status >= 500
+          ? AxiosError.ERR_BAD_RESPONSE
+          : AxiosError.ERR_BAD_REQUEST,
+        config,
+        null,
+        response,
+      );
+    }
+    return response;
+  };
+};
+
+const globalMock = globalThis as typeof globalThis & {
+  commissionMockState?: MockState;
+};
+
+const cookieValue = (request: Request, name: string) =>
+  request.headers
+    .get("cookie")
+    ?.split(";")
+    .map((part) => part.trim().split("="))
+    .find(([key]) => key === name)?.[1];
+
+/**
+ * Scenario of a route request: header, then cookie, then env variable
+ */
+export const scenarioOf = (request: Request): MockScenario => {
+  const candidates = [
+    request.headers.get(MOCK_SCENARIO_HEADER),
+    cookieValue(request, MOCK_SCENARIO_COOKIE),
+    process.env[MOCK_SCENARIO_ENV],
+  ];
+  return candidates.find(isMockScenario) ?? "success";
+};
+
+/**
+ * Route handler serving the mock under app/api; disabled in production
+ * builds unless MOCK_API=true
+ */
+export const mockRouteHandler = async (request: Request): Promise<Response> => {
+  if (
+    process.env.NODE_ENV === "production" &&
+    process.env.MOCK_API !== "true"
+  ) {
+    return new Response(null, { status: 404 });
+  }
+  // เก็บ state ไว้ที่ globalThis ให้ทุก route และการ reload ของ dev server ใช้ร่วมกัน
+  globalMock.commissionMockState ??= createMockState();
+  const text = await request.text();
+  const result = handleMockRequest(
+    globalMock.commissionMockState,
+    {
+      method: request.method,
+      path: new URL(request.url).pathname,
+      body: parseRequestBody(text || undefined),
+      session: cookieValue(request, MOCK_SESSION_COOKIE),
+    },
+    { scenario: scenarioOf(request) },
+  );
+  if (result.delayMs > 0) {
+    await new Promise((resolve) => setTimeout(resolve, result.delayMs));
+  }
+  const headers = new Headers({ "content-type": "application/json" });
+  if (result.session !== undefined) {
+    headers.append(
+      "set-cookie",
+      result.session
+        ? `${MOCK_SESSION_COOKIE}=${result.session}; Path=/; HttpOnly; SameSite=Lax`
+        : `${MOCK_SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`,
+    );
+  }
+  return new Response(result.body, { status: result.status, headers });
+};
@@ -0,0 +1,184 @@
+// @vitest-environment jsdom
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { CalculateRequest, CalculateResponse } from "./api";
+import { calculateBreakdown } from "./commission";
+import { CHANGED_BY_SERVER_VERIFICATION } from "./entries";
+import { appError } from "./errors";
+import {
+  OUTBOX_KEY,
+  addToOutbox,
+  applyAnswers,
+  loadOutbox,
+  replayOutbox,
+  saveOutbox,
+  withOfflineEntries,
+} from "./outbox";
+import { Entry } from "./types";
+import { testEntry } from "./testing/fixtures";
+
+const offlineEntry = (number: number, overrides: Partial<Entry> = {}): Entry =>
+  testEntry({ number, calculatedOffline: true, ...overrides });
+
+const request: CalculateRequest = {
+  name: "Ken",
+  locks: 10,
+  stocks: 10,
+  barrels: 10,
+};
+
+const answered = (sales: number, commission: number): CalculateResponse => ({
+  success: true,
+  data: { ...request, sales, commission },
+});
+
+const QUEUED_AT = "2026-10-01T09:00:00.000Z";
+
+afterEach(() => {
+  localStorage.clear();
+});
+
+/**
+ * FR-28: ผลที่คำนวณแบบออฟไลน์ถูกเก็บในคิวที่อยู่ถาวร แล้วส่งให้เซิร์ฟเวอร์คำนวณใหม่
+ * เมื่อกลับมาออนไลน์ คำตอบแก้ไขรายการเดิมโดยไม่สร้างรายการใหม่
+ */
+describe("FR-28: Offline Calculation Outbox", () => {
+  describe("addToOutbox", () => {
+    it("should keep only the latest calculation of an entry", () => {
+      const outbox = addToOutbox(
+        addToOutbox(addToOutbox([], "1", request, QUEUED_AT), "2", request),
+        "1",
+        { ...request, locks: 20 },
+      );
+      expect(outbox.map((item) => item.entryId)).toEqual(["2", "1"]);
+      expect(outbox[1].request.locks).toBe(20);
+    });
+
+    it("should persist across reloads and drop unreadable items", () => {
+      saveOutbox(addToOutbox([], "1", request, QUEUED_AT));
+      expect(loadOutbox()).toEqual([
+        { entryId: "1", request, queuedAt: QUEUED_AT },
+      ]);
+
+      localStorage.setItem(
+        OUTBOX_KEY,
+        JSON.stringify({ version: 2, data: [{ entryId: 1 }] }),
+      );
+      expect(loadOutbox()).toEqual([]);
+    });
+  });
+
+  describe("withOfflineEntries", () => {
+    it("should queue offline results that are not queued yet", () => {
+      const outbox = addToOutbox([], "1", request, QUEUED_AT);
+      const entries = [
+        offlineEntry(1),
+        offlineEntry(2, { locks: 5 }),
+        offlineEntry(3, { calculatedOffline: false }),
+      ];
+      expect(
+        withOfflineEntries(outbox, entries).map(({ entryId, request }) => [
+          entryId,
+          request.locks,
+        ]),
+      ).toEqual([
+        ["1", 10],
+        ["2", 5],
+      ]);
+      expect(withOfflineEntries(outbox, [offlineEntry(1)])).toBe(outbox);
+    });
+  });
+
+  describe("replayOutbox", () => {
+    it("should send the queue in order and stop while still offline", async () => {
+      const calculate = vi
+        .fn()
+        .mockResolvedValueOnce(answered(1000, 100))
+        .mockResolvedValueOnce({ success: false, networkError: true });
+      const outbox = ["1", "2", "3"].reduce(
+        (items, id) => addToOutbox(items, id, request, QUEUED_AT),
+        [] as ReturnType<typeof addToOutbox>,
+      );
+      const entries = [1, 2, 3].map((number) => offlineEntry(number));
+
+      const result = await replayOutbox(outbox, entries, calculate);
+      expect(calculate).toHaveBeenCalledTimes(2);
+      expect(result.offline).toBe(true);
+      expect([...result.done]).toEqual([outbox[0]]);
+      expect(result.answers).toEqual([
+        { item: outbox[0], response: answered(1000, 100) },
+      ]);
+    });
+
+    it("should drop items whose entry is gone or already verified", async () => {
+      const calculate = vi.fn();
+      const outbox = addToOutbox(
+        addToOutbox([], "1", request, QUEUED_AT),
+        "2",
+        request,
+        QUEUED_AT,
+      );
+
+      const result = await replayOutbox(
+        outbox,
+        [offlineEntry(2, { calculatedOffline: false })],
+        calculate,
+      );
+      expect(calculate).not.toHaveBeenCalled();
+      expect(result.done.size).toBe(2);
+      expect(result.answers).toEqual([]);
+    });
+  });
+
+  describe("applyAnswers", () => {
+    const item = { entryId: "1", request, queuedAt: QUEUED_AT };
+
+    it("should update the entry in place with the server's figures", () => {
+      const [verified] = applyAnswers(
+        [offlineEntry(1, { sales: 900, commission: 90 })],
+        [{ item, response: answered(1000, 100) }],
+      );
+      expect(verified).toMatchObject({
+        id: "1",
+        number: 1,
+        sales: 1000,
+        commission: 100,
+        breakdown: calculateBreakdown(10, 10, 10),
+        calculatedOffline: false,
+      });
+      expect(verified.revisions).toMatchObject([
+        {
+          changedBy: CHANGED_BY_SERVER_VERIFICATION,
+          previous: { sales: 900, commission: 90, calculatedOffline: true },
+        },
+      ]);
+    });
+
+    it("should record a rejected calculation as invalid", () => {
+      const errors = [appError("OUT_OF_RANGE", "locks")];
+      const [rejected] = applyAnswers(
+        [offlineEntry(1)],
+        [{ item, response: { success: false, status: 400, errors } }],
+      );
+      expect(rejected).toMatchObject({
+        isValid: false,
+        sales: 0,
+        commission: 0,
+        errors,
+        calculatedOffline: false,
+      });
+    });
+
+    it("should leave entries changed since the calculation was sent", () => {
+      const response = answered(1000, 100);
+      expect(
+        applyAnswers([offlineEntry(1, { locks: 20 })], [{ item, response }]),
+      ).toEqual([]);
+      expect(
+        applyAnswers(
+          [offlineEntry(1, { calculatedOffline: false })],
+          [{ item, response }],
+        ),
+      ).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+// Outbox of calculations made offline, replayed through the API once connected
+// ผลจาก engine ฝั่ง client ใช้ได้ทันที แต่ต้องให้เซิร์ฟเวอร์คำนวณยืนยันอีกครั้ง
+import {
+  CalculateRequest,
+  CalculateResponse,
+  calculateCommission,
+} from "./api";
+import { mirrorBreakdown } from "./commission";
+import { CHANGED_BY_SERVER_VERIFICATION, reviseEntry } from "./entries";
+import { appError } from "./errors";
+import { CommissionPlan, DEFAULT_PLAN } from "./plan";
+import { Entry } from "./types";
+import {
+  readVersioned,
+  recoverItems,
+  writeVersioned,
+} from "./versionedStorage";
+
+export const OUTBOX_KEY = "commissionOutbox";
+
+export interface OutboxItem {
+  /** Entry the server's answer is written back to */
+  entryId: string;
+  request: CalculateRequest;
+  queuedAt: string;
+}
+
+export interface ReplayAnswer {
+  item: OutboxItem;
+  response: CalculateResponse;
+}
+
+export interface ReplayResult {
+  /** Items that can leave the outbox: answered, or no longer waiting */
+  done: Set<OutboxItem>;
+  answers: ReplayAnswer[];
+  /** true when replaying stopped because the server was still unreachable */
+  offline: boolean;
+}
+
+export type Calculate = (
+  request: CalculateRequest,
+) => Promise<CalculateResponse>;
+
+const isItem = (item: unknown): item is OutboxItem =>
+  typeof item === "object" &&
+  item !== null &&
+  typeof (item as OutboxItem).entryId === "string" &&
+  typeof (item as OutboxItem).queuedAt === "string" &&
+  typeof (item as OutboxItem).request === "object" &&
+  (item as OutboxItem).request !== null;
+
+const OUTBOX = {
+  key: OUTBOX_KEY,
+  migrations: {},
+  recover: (data: unknown) =>
+    recoverItems(data, (item) => (isItem(item) ? item : null)),
+  empty: (): OutboxItem[] => [],
+};
+
+export const loadOutbox = (): OutboxItem[] => readVersioned(OUTBOX).data;
+
+export const saveOutbox = (outbox: OutboxItem[]): void => {
+  writeVersioned(OUTBOX_KEY, outbox);
+};
+
+/**
+ * Queue a calculation for an entry; a newer calculation of the same entry
+ * (edited while still offline) replaces the older one
+ */
+export const addToOutbox = (
+  outbox: OutboxItem[],
+  entryId: string,
+  request: CalculateRequest,
+  queuedAt: string = new Date().toISOString(),
+): OutboxItem[] => [
+  ...outbox.filter((item) => item.entryId !== entryId),
+  { entryId, request, queuedAt },
+];
+
+export const requestOf = ({
+  name,
+  locks,
+  stocks,
+  barrels,
+}: Entry): CalculateRequest => ({ name, locks, stocks, barrels });
+
+/**
+ * Queue the offline results that are not in the outbox yet, e.g. entries
+ * saved before the outbox existed or brought back by undo
+ */
+export const withOfflineEntries = (
+  outbox: OutboxItem[],
+  entries: Entry[],
+): OutboxItem[] => {
+  const queued = new Set(outbox.map((item) => item.entryId));
+  return entries
+    .filter((entry) => entry.calculatedOffline && !queued.has(entry.id))
+    .reduce(
+      (next, entry) => addToOutbox(next, entry.id, requestOf(entry)),
+      outbox,
+    );
+};
+
+/**
+ * Replace an offline result with the server's answer, keeping the offline
+ * figures in the entry's audit trail
+ */
+export const verifiedEntry = (
+  entry: Entry,
+  response: CalculateResponse,
+  plan: CommissionPlan = DEFAULT_PLAN,
+): Entry =>
+  reviseEntry(
+    entry,
+    response.success && response.data
+      ? {
+          ...entry,
+          sales: response.data.sales,
+          commission: response.data.commission,
+          breakdown:
+            response.data.breakdown ?? mirrorBreakdown(response.data, plan),
+          calculatedOffline: false,
+        }
+      : {
+          ...entry,
+          sales: 0,
+          commission: 0,
+          breakdown: undefined,
+          isValid: false,
+          errors: response.errors ?? [appError("UNKNOWN_SERVER_ERROR")],
+          calculatedOffline: false,
+        },
+    CHANGED_BY_SERVER_VERIFICATION,
+  );
+
+/**
+ * Send queued calculations in order, stopping at the first network failure.
+ * `entries` are the entries that may still change; items whose entry is
+ * missing (deleted, locked) or no longer an offline result are dropped
+ * without a call.
+ */
+export const replayOutbox = async (
+  outbox: OutboxItem[],
+  entries: Entry[],
+  calculate: Calculate = calculateCommission,
+): Promise<ReplayResult> => {
+  const result: ReplayResult = {
+    done: new Set(),
+    answers: [],
+    offline: false,
+  };
+  const byId = new Map(entries.map((entry) => [entry.id, entry]));
+
+  for (const item of outbox) {
+    const entry = byId.get(item.entryId);
+    if (!entry?.calculatedOffline) {
+      result.done.add(item);
+      continue;
+    }
+    const response = await calculate(item.request);
+    if (response.networkError) {
+      result.offline = true;
+      break;
+    }
+    // ถูกยกเลิกระหว่างส่ง เก็บไว้ส่งรอบหน้า
+    if (response.cancelled) continue;
+    result.done.add(item);
+    result.answers.push({ item, response });
+  }
+
+  return result;
+};
+
+const sameRequest = (a: CalculateRequest, b: CalculateRequest) =>
+  a.name === b.name &&
+  a.locks === b.locks &&
+  a.stocks === b.stocks &&
+  a.barrels === b.barrels;
+
+/**
+ * Entries updated in place with the server's answers. The entries are read
+ * again after the replay: one edited or recalculated online in the meantime
+ * is left alone.
+ */
+export const applyAnswers = (
+  entries: Entry[],
+  answers: ReplayAnswer[],
+  plan: CommissionPlan = DEFAULT_PLAN,
+): Entry[] => {
+  const byId = new Map(entries.map((entry) => [entry.id, entry]));
+  return answers.flatMap(({ item, response }) => {
+    const entry = byId.get(item.entryId);
+    return entry?.calculatedOffline &&
+      sameRequest(requestOf(entry), item.request)
+      ? [verifiedEntry(entry, response, plan)]
+      : [];
+  });
+};
@@ -0,0 +1,221 @@
+// @vitest-environment jsdom
+import { afterEach, describe, it, expect } from "vitest";
+import {
+  apiClient,
+  createHistoryEntry,
+  deleteHistoryEntry,
+  updateHistoryEntry,
+} from "./api";
+import { MOCK_USERS, createMockAdapter, createMockState } from "./mockApi";
+import {
+  closePeriod,
+  closedPeriodError,
+  groupByEmployeePeriod,
+  isEntryLocked,
+  isIsoDate,
+  loadClosedPeriods,
+  periodOf,
+  refreshClosedPeriods,
+  submitClosedPeriods,
+  todayIso,
+  withPeriod,
+} from "./periods";
+import { appError } from "./errors";
+import { Entry } from "./types";
+import { testEntry } from "./testing/fixtures";
+
+const userId = (username: string) =>
+  MOCK_USERS.find((user) => user.username === username)!.id;
+
+const originalAdapter = apiClient.defaults.adapter;
+afterEach(() => {
+  apiClient.defaults.adapter = originalAdapter;
+  localStorage.clear();
+});
+
+/**
+ * FR-12: ค่าคอมมิชชั่นคิดจากยอดสะสมรายเดือนของพนักงานแต่ละคน และงวดที่ปิดแล้วต้องแก้ไขไม่ได้
+ */
+describe("FR-12: Monthly Commission Periods", () => {
+  describe("dates and periods", () => {
+    it("should format today as YYYY-MM-DD and derive the period", () => {
+      expect(todayIso(new Date(2026, 0, 5))).toBe("2026-01-05");
+      expect(periodOf("2026-01-05")).toBe("2026-01");
+    });
+
+    it("should validate ISO dates", () => {
+      expect(isIsoDate("2026-10-19")).toBe(true);
+      expect(isIsoDate("19/10/2026")).toBe(false);
+      expect(isIsoDate("2026-13-01")).toBe(false);
+    });
+
+    it("should backfill a date and period on legacy entries", () => {
+      const legacy = {
+        ...testEntry(),
+        date: undefined,
+        period: undefined,
+        syncedAt: "2026-09-15T10:00:00",
+      } as unknown as Entry;
+      expect(withPeriod(legacy)).toMatchObject({
+        date: "2026-09-15",
+        period: "2026-09",
+      });
+    });
+  });
+
+  describe("groupByEmployeePeriod", () => {
+    it("should group valid entries per employee per month, newest first", () => {
+      const groups = groupByEmployeePeriod([
+        testEntry({ number: 1, status: "approved" }),
+        testEntry({ number: 2, name: " ken", status: "paid" }),
+        testEntry({
+          number: 3,
+          date: "2026-09-30",
+          period: "2026-09",
+          status: "approved",
+        }),
+        testEntry({
+          number: 4,
+          employeeId: "E001",
+          name: "ฐากูร",
+          status: "approved",
+        }),
+        testEntry({ number: 5, isValid: false, status: "approved" }),
+      ]);
+      expect(
+        groups.map((g) => [g.period, g.employeeKey, g.entries.length]),
+      ).toEqual([
+        ["2026-10", "E001", 1],
+        ["2026-10", "ken", 2],
+        ["2026-09", "ken", 1],
+      ]);
+      expect(groups[1]).toMatchObject({ locks: 20, sales: 2000 });
+    });
+
+    it("should count only approved and paid entries the server verified", () => {
+      const groups = groupByEmployeePeriod([
+        testEntry({ number: 1, status: "approved" }),
+        testEntry({ number: 2 }),
+        testEntry({ number: 3, status: "submitted" }),
+        testEntry({ number: 4, status: "rejected" }),
+        testEntry({ number: 5, status: "approved", calculatedOffline: true }),
+      ]);
+      expect(groups.map((g) => g.entries.map((e) => e.id))).toEqual([["1"]]);
+    });
+  });
+
+  describe("closePeriod", () => {
+    it("should apply the commission tiers to the accumulated monthly totals", () => {
+      const [group] = groupByEmployeePeriod([
+        testEntry({ number: 1, status: "approved" }),
+        testEntry({ number: 2, status: "approved" }),
+      ]);
+      // 2 × 1,000 as single entries = 200, as one month of 2,000 = 260
+      expect(group.commission).toBe(200);
+      const closed = closePeriod(group, undefined, "2026-11-01T00:00:00.000Z");
+      expect(closed).toEqual({
+        employeeKey: "ken",
+        name: "Ken",
+        period: "2026-10",
+        entryIds: ["1", "2"],
+        locks: 20,
+        stocks: 20,
+        barrels: 20,
+        sales: 2000,
+        commission: 260,
+        closedAt: "2026-11-01T00:00:00.000Z",
+      });
+    });
+  });
+
+  describe("period locks", () => {
+    const [group] = groupByEmployeePeriod([
+      testEntry({ number: 1, status: "approved" }),
+    ]);
+    const closed = [closePeriod(group)];
+
+    it("should lock entries of the closed employee and month only", () => {
+      expect(isEntryLocked(closed, testEntry({ number: 9 }))).toBe(true);
+      expect(
+        isEntryLocked(
+          closed,
+          testEntry({ date: "2026-11-01", period: "2026-11" }),
+        ),
+      ).toBe(false);
+      expect(isEntryLocked(closed, testEntry({ name: "Other" }))).toBe(false);
+    });
+
+    it("should reject new entries in a closed period", () => {
+      expect(
+        closedPeriodError(closed, { name: "KEN", period: "2026-10" }),
+      ).toEqual(appError("PERIOD_CLOSED", "date", { period: "2026-10" }));
+      expect(
+        closedPeriodError(closed, { name: "Ken", period: "2026-11" }),
+      ).toBeNull();
+    });
+  });
+
+  describe("API", () => {
+    const rep = userId("thakun");
+    const manager = userId("north.manager");
+    const own = testEntry({
+      employeeId: "E001",
+      name: "ฐากูร",
+      createdBy: rep,
+    });
+    const signIn = (state: ReturnType<typeof createMockState>, id: string) => {
+      apiClient.defaults.adapter = createMockAdapter({ state, signedInAs: id });
+    };
+
+    it("should close months on the server for every device", async () => {
+      const state = createMockState();
+      signIn(state, rep);
+      await createHistoryEntry(own);
+      const [group] = groupByEmployeePeriod([{ ...own, status: "approved" }]);
+      expect((await submitClosedPeriods([closePeriod(group)])).status).toBe(
+        403,
+      );
+      expect(loadClosedPeriods()).toEqual([]);
+
+      signIn(state, manager);
+      const response = await submitClosedPeriods([closePeriod(group)]);
+      expect(response.data).toEqual([
+        closePeriod(group, undefined, expect.any(String)),
+      ]);
+      expect(loadClosedPeriods()).toEqual(response.data);
+
+      // เครื่องอื่นของพนักงานขายได้งวดที่ปิดจากเซิร์ฟเวอร์
+      localStorage.clear();
+      signIn(state, rep);
+      expect(await refreshClosedPeriods()).toEqual(response.data);
+    });
+
+    it("should refuse writes in a closed month on the server", async () => {
+      const state = createMockState();
+      signIn(state, rep);
+      await createHistoryEntry(own);
+      signIn(state, manager);
+      await submitClosedPeriods(
+        groupByEmployeePeriod([{ ...own, status: "approved" }]).map((group) =>
+          closePeriod(group),
+        ),
+      );
+
+      signIn(state, rep);
+      const periodClosed = [
+        appError("PERIOD_CLOSED", "date", { period: "2026-10" }),
+      ];
+      expect((await updateHistoryEntry({ ...own, locks: 20 })).errors).toEqual(
+        periodClosed,
+      );
+      expect((await deleteHistoryEntry(own.id)).status).toBe(409);
+      expect(
+        (await createHistoryEntry({ ...own, id: "2", number: 2 })).errors,
+      ).toEqual(periodClosed);
+      expect(
+        (await updateHistoryEntry({ ...own, status: "submitted" })).success,
+      ).toBe(true);
+      expect(state.history.get(own.id)).toMatchObject({ locks: 10 });
+    });
+  });
+});
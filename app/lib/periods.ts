@@ -0,0 +1,202 @@
+// Monthly commission periods: grouping, month close and period locks
+import { ClosedPeriodsResponse, closePeriods, fetchClosedPeriods } from "./api";
+import { isPayable } from "./approval";
+import { calculateCommissionLocally } from "./commission";
+import { appError } from "./errors";
+import { CommissionPlan, DEFAULT_PLAN } from "./plan";
+import { AppError, ClosedPeriod, Entry } from "./types";
+import {
+  readVersioned,
+  recoverItems,
+  writeVersioned,
+} from "./versionedStorage";
+
+export const CLOSED_PERIODS_KEY = "commissionClosedPeriods";
+
+export interface PeriodGroup {
+  employeeKey: string;
+  name: string;
+  employeeId?: string;
+  period: string;
+  entries: Entry[];
+  locks: number;
+  stocks: number;
+  barrels: number;
+  /** Sum of the per-entry figures, before the monthly close */
+  sales: number;
+  commission: number;
+}
+
+const pad = (value: number): string => String(value).padStart(2, "0");
+
+/**
+ * Today's date in local time as YYYY-MM-DD
+ */
+export const todayIso = (now: Date = new Date()): string =>
+  `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+
+export const isIsoDate = (value: string): boolean =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+  !Number.isNaN(new Date(`${value}T00:00:00`).getTime());
+
+/**
+ * Period (YYYY-MM) of a YYYY-MM-DD date
+ */
+export const periodOf = (date: string): string => date.slice(0, 7);
+
+/**
+ * Give entries saved before periods existed a date and period
+ */
+export const withPeriod = (entry: Entry): Entry => {
+  if (entry.date && entry.period) return entry;
+  const date = entry.date ?? todayIso(new Date(entry.syncedAt ?? Date.now()));
+  return { ...entry, date, period: periodOf(date) };
+};
+
+export const employeeKey = (entry: Pick<Entry, "employeeId" | "name">) =>
+  entry.employeeId ?? entry.name.trim().toLowerCase();
+
+/**
+ * Group payable entries per employee per month, newest period first
+ */
+export const groupByEmployeePeriod = (entries: Entry[]): PeriodGroup[] => {
+  const groups = new Map<string, PeriodGroup>();
+
+  for (const entry of entries) {
+    if (!isPayable(entry)) continue;
+    const key = employeeKey(entry);
+    const groupKey = `${entry.period}|${key}`;
+    const group = groups.get(groupKey) ?? {
+      employeeKey: key,
+      name: entry.name,
+      employeeId: entry.employeeId,
+      period: entry.period,
+      entries: [],
+      locks: 0,
+      stocks: 0,
+      barrels: 0,
+      sales: 0,
+      commission: 0,
+    };
+    group.entries.push(entry);
+    group.locks += entry.locks;
+    group.stocks += entry.stocks;
+    group.barrels += entry.barrels;
+    group.sales += entry.sales;
+    group.commission += entry.commission;
+    groups.set(groupKey, group);
+  }
+
+  return [...groups.values()].sort(
+    (a, b) =>
+      b.period.localeCompare(a.period) || a.name.localeCompare(b.name, "th"),
+  );
+};
+
+/**
+ * Close a month: commission tiers are applied to the accumulated totals
+ */
+export const closePeriod = (
+  group: PeriodGroup,
+  plan: CommissionPlan = DEFAULT_PLAN,
+  closedAt: string = new Date().toISOString(),
+): ClosedPeriod => {
+  const { sales, commission } = calculateCommissionLocally(
+    group.locks,
+    group.stocks,
+    group.barrels,
+    plan,
+  );
+  return {
+    employeeKey: group.employeeKey,
+    name: group.name,
+    period: group.period,
+    entryIds: group.entries.map((entry) => entry.id),
+    locks: group.locks,
+    stocks: group.stocks,
+    barrels: group.barrels,
+    sales,
+    commission,
+    closedAt,
+  };
+};
+
+export const findClosedPeriod = (
+  closed: ClosedPeriod[],
+  entry: Pick<Entry, "employeeId" | "name" | "period">,
+): ClosedPeriod | undefined =>
+  closed.find(
+    (c) => c.period === entry.period && c.employeeKey === employeeKey(entry),
+  );
+
+/**
+ * Entries in a closed period can no longer be added, edited or deleted
+ */
+export const isEntryLocked = (closed: ClosedPeriod[], entry: Entry): boolean =>
+  findClosedPeriod(closed, entry) !== undefined;
+
+/**
+ * Error when a new entry would land in a closed period
+ */
+export const closedPeriodError = (
+  closed: ClosedPeriod[],
+  entry: Pick<Entry, "employeeId" | "name" | "period">,
+): AppError | null =>
+  findClosedPeriod(closed, entry)
+    ? appError("PERIOD_CLOSED", "date", { period: entry.period })
+    : null;
+
+const CLOSED_PERIODS = {
+  key: CLOSED_PERIODS_KEY,
+  migrations: {
+    1: (closed: unknown) =>
+      Array.isArray(closed)
+        ? closed.map((period: ClosedPeriod) => ({
+            ...period,
+            entryIds: (period.entryIds ?? []).map(String),
+          }))
+        : closed,
+  },
+  recover: (data: unknown) =>
+    recoverItems(data, (item) =>
+      typeof item === "object" &&
+      item !== null &&
+      typeof (item as ClosedPeriod).period === "string" &&
+      typeof (item as ClosedPeriod).employeeKey === "string"
+        ? (item as ClosedPeriod)
+        : null,
+    ),
+  empty: (): ClosedPeriod[] => [],
+};
+
+export const loadClosedPeriods = (): ClosedPeriod[] =>
+  readVersioned(CLOSED_PERIODS).data;
+
+export const saveClosedPeriods = (closed: ClosedPeriod[]): void => {
+  writeVersioned(CLOSED_PERIODS_KEY, closed);
+};
+
+/**
+ * Fetch the closed months from the API and refresh the cache,
+ * falling back to the cached copy when the API is unreachable
+ */
+export const refreshClosedPeriods = async (): Promise<ClosedPeriod[]> => {
+  const response = await fetchClosedPeriods();
+  if (response.success && response.data) {
+    saveClosedPeriods(response.data);
+    return response.data;
+  }
+  return loadClosedPeriods();
+};
+
+/**
+ * Close months on the server. The cache only changes once the server has
+ * accepted the close, so a month is never closed on one device only.
+ */
+export const submitClosedPeriods = async (
+  closed: ClosedPeriod[],
+): Promise<ClosedPeriodsResponse> => {
+  const response = await closePeriods(closed);
+  if (response.success && response.data) saveClosedPeriods(response.data);
+  return response;
+};
@@ -0,0 +1,111 @@
+import { describe, it, expect } from "vitest";
+import { appError } from "./errors";
+import { formatMessage, message } from "./i18n";
+import { DEFAULT_PLAN, parsePlan, quantityHint, validatePlan } from "./plan";
+import { validateInputRanges } from "./validation";
+import { calculateCommissionLocally } from "./commission";
+
+const seasonalPlan = {
+  ...DEFAULT_PLAN,
+  id: "high-season",
+  name: "High season",
+  items: {
+    locks: { label: "Locks", unitPrice: 50, min: 1, max: 100 },
+    stocks: { label: "Stocks", unitPrice: 30, min: 1, max: 80 },
+    barrels: { label: "Barrels", unitPrice: 25, min: 0, max: 90 },
+  },
+  tiers: [
+    { upTo: 2000, rate: 0.1 },
+    { upTo: null, rate: 0.25 },
+  ],
+};
+
+/**
+ * FR-07: ราคาสินค้า ขอบเขตจำนวน และขั้นค่าคอมมิชชั่น ต้องกำหนดผ่านแผนค่าคอมมิชชั่น (commission plan)
+ */
+describe("FR-07: Configurable Commission Plan", () => {
+  describe("validatePlan", () => {
+    it("should accept the bundled default plan", () => {
+      expect(validatePlan(DEFAULT_PLAN)).toEqual([]);
+      expect(DEFAULT_PLAN.items.locks.max).toBe(70);
+      expect(DEFAULT_PLAN.items.stocks.max).toBe(80);
+      expect(DEFAULT_PLAN.items.barrels.max).toBe(90);
+    });
+
+    it("should accept a custom plan", () => {
+      expect(validatePlan(seasonalPlan)).toEqual([]);
+    });
+
+    it("should reject non-object values", () => {
+      expect(validatePlan(null)).toEqual([message("plan.notObject")]);
+      expect(validatePlan([])).toEqual([message("plan.notObject")]);
+    });
+
+    it("should reject missing items and inverted limits", () => {
+      const errors = validatePlan({
+        ...seasonalPlan,
+        items: {
+          locks: { label: "Locks", unitPrice: 45, min: 10, max: 5 },
+          stocks: seasonalPlan.items.stocks,
+        },
+      });
+      expect(errors).toContainEqual(
+        message("plan.itemLimits", { item: "locks" }),
+      );
+      expect(errors).toContainEqual(
+        message("plan.itemMissing", { item: "barrels" }),
+      );
+    });
+
+    it("should reject tiers that are not ascending or not open-ended", () => {
+      expect(
+        validatePlan({
+          ...seasonalPlan,
+          tiers: [
+            { upTo: 2000, rate: 0.1 },
+            { upTo: 1000, rate: 0.15 },
+            { upTo: 3000, rate: 0.2 },
+          ],
+        }),
+      ).toEqual([
+        message("plan.tierOrder", { tier: 2 }),
+        message("plan.lastTierOpen"),
+      ]);
+    });
+
+    it("should reject rates outside 0-1", () => {
+      expect(
+        validatePlan({ ...seasonalPlan, tiers: [{ upTo: null, rate: 15 }] }),
+      ).toEqual([message("plan.tierRate", { tier: 1 })]);
+    });
+  });
+
+  describe("parsePlan", () => {
+    it("should return null for an invalid plan", () => {
+      expect(parsePlan({ id: "x" })).toBeNull();
+    });
+  });
+
+  describe("plan-driven validation and calculation", () => {
+    it("should use the plan limits in validateInputRanges", () => {
+      expect(validateInputRanges(100, 80, 0, seasonalPlan)).toEqual([]);
+      expect(validateInputRanges(101, 80, 0, seasonalPlan)).toEqual([
+        appError("OUT_OF_RANGE", "locks", { label: "Locks", min: 1, max: 100 }),
+      ]);
+    });
+
+    it("should use the plan prices and tiers in the client-side engine", () => {
+      // 40*50 + 10*30 + 10*25 = 2550 → 2000*10% + 550*25% = 337.5
+      expect(calculateCommissionLocally(40, 10, 10, seasonalPlan)).toEqual({
+        sales: 2550,
+        commission: 337.5,
+      });
+    });
+
+    it("should build the input hint from the plan limits", () => {
+      expect(formatMessage("th", quantityHint(DEFAULT_PLAN.items.locks))).toBe(
+        "ใส่ได้สูงสุด 70 และ ไม่ต่ำกว่า 1 ต้องเป็นตัวเลขเท่านั้น",
+      );
+    });
+  });
+});
@@ -0,0 +1,155 @@
+// Commission plan: unit prices, quantity limits and commission tiers
+import defaultPlanJson from "./default-plan.json";
+import { fetchCommissionPlan } from "./api";
+import { Message, message } from "./i18n";
+
+export type ItemKey = "locks" | "stocks" | "barrels";
+
+export const ITEM_KEYS: ItemKey[] = ["locks", "stocks", "barrels"];
+
+export interface PlanItem {
+  label: string;
+  unitPrice: number;
+  min: number;
+  max: number;
+}
+
+export interface CommissionTier {
+  /** Upper bound of sales covered by this tier, `null` for the last tier */
+  upTo: number | null;
+  rate: number;
+}
+
+export interface CommissionPlan {
+  id: string;
+  name: string;
+  items: Record<ItemKey, PlanItem>;
+  tiers: CommissionTier[];
+}
+
+const PLAN_STORAGE_KEY = "commissionPlan";
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isNonNegativeNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+/**
+ * Validate an unknown value (API payload, JSON file) as a commission plan.
+ * Returns a list of problems, empty when the plan is usable.
+ */
+export const validatePlan = (plan: unknown): Message[] => {
+  const errors: Message[] = [];
+
+  if (!isRecord(plan)) {
+    return [message("plan.notObject")];
+  }
+  if (typeof plan.id !== "string" || plan.id.trim() === "") {
+    errors.push(message("plan.idRequired"));
+  }
+  if (typeof plan.name !== "string" || plan.name.trim() === "") {
+    errors.push(message("plan.nameRequired"));
+  }
+
+  const items = isRecord(plan.items) ? plan.items : {};
+  for (const key of ITEM_KEYS) {
+    const item = items[key];
+    if (!isRecord(item)) {
+      errors.push(message("plan.itemMissing", { item: key }));
+      continue;
+    }
+    if (typeof item.label !== "string" || item.label.trim() === "") {
+      errors.push(message("plan.itemLabel", { item: key }));
+    }
+    if (!isNonNegativeNumber(item.unitPrice)) {
+      errors.push(message("plan.itemUnitPrice", { item: key }));
+    }
+    if (
+      !Number.isInteger(item.min) ||
+      !Number.isInteger(item.max) ||
+      (item.min as number) < 0 ||
+      (item.min as number) > (item.max as number)
+    ) {
+      errors.push(message("plan.itemLimits", { item: key }));
+    }
+  }
+
+  if (!Array.isArray(plan.tiers) || plan.tiers.length === 0) {
+    errors.push(message("plan.tiersRequired"));
+    return errors;
+  }
+
+  let previousUpTo = 0;
+  plan.tiers.forEach((tier: unknown, index: number) => {
+    const isLast = index === (plan.tiers as unknown[]).length - 1;
+    if (!isRecord(tier) || !isNonNegativeNumber(tier.rate) || tier.rate > 1) {
+      errors.push(message("plan.tierRate", { tier: index + 1 }));
+      return;
+    }
+    if (isLast) {
+      if (tier.upTo !== null) {
+        errors.push(message("plan.lastTierOpen"));
+      }
+      return;
+    }
+    if (!isNonNegativeNumber(tier.upTo) || tier.upTo <= previousUpTo) {
+      errors.push(message("plan.tierOrder", { tier: index + 1 }));
+      return;
+    }
+    previousUpTo = tier.upTo;
+  });
+
+  return errors;
+};
+
+/**
+ * Parse an unknown value as a commission plan, `null` when invalid
+ */
+export const parsePlan = (value: unknown): CommissionPlan | null => {
+  return validatePlan(value).length === 0 ? (value as CommissionPlan) : null;
+};
+
+/** Plan shipped with the app (app/lib/default-plan.json) */
+export const DEFAULT_PLAN: CommissionPlan = parsePlan(defaultPlanJson)!;
+
+/**
+ * Read the plan cached in localStorage, if any
+ */
+export const loadStoredPlan = (): CommissionPlan | null => {
+  if (typeof window === "undefined") return null;
+  try {
+    const saved = localStorage.getItem(PLAN_STORAGE_KEY);
+    return saved ? parsePlan(JSON.parse(saved)) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const storePlan = (plan: CommissionPlan): void => {
+  localStorage.setItem(PLAN_STORAGE_KEY, JSON.stringify(plan));
+};
+
+export const clearStoredPlan = (): void => {
+  localStorage.removeItem(PLAN_STORAGE_KEY);
+};
+
+/**
+ * Resolve the active plan: API first, then the locally cached plan,
+ * then the bundled default JSON
+ */
+export const loadActivePlan = async (): Promise<CommissionPlan> => {
+  const response = await fetchCommissionPlan();
+  const remotePlan = response.success ? parsePlan(response.data) : null;
+  if (remotePlan) {
+    storePlan(remotePlan);
+    return remotePlan;
+  }
+  return loadStoredPlan() ?? DEFAULT_PLAN;
+};
+
+/**
+ * Placeholder hint for a quantity input, e.g. "ใส่ได้สูงสุด 70 และ ไม่ต่ำกว่า 1 ต้องเป็นตัวเลขเท่านั้น" in Thai
+ */
+export const quantityHint = (item: PlanItem): Message =>
+  message("form.quantityHint", { min: item.min, max: item.max });
@@ -0,0 +1,18 @@
+// Installable app: theme colour and service worker registration
+export const THEME_COLOR = "#22c55e";
+
+export const SERVICE_WORKER_URL = "/sw.js";
+
+/**
+ * Register the service worker that keeps the app shell available offline.
+ * Skipped in development, where cached pages would hide code changes.
+ */
+export const registerServiceWorker = async (): Promise<void> => {
+  if (process.env.NODE_ENV !== "production") return;
+  if (!("serviceWorker" in navigator)) return;
+  try {
+    await navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: "/" });
+  } catch {
+    // ติดตั้งไม่สำเร็จ แอปยังใช้งานออนไลน์ได้ตามปกติ
+  }
+};
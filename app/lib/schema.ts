@@ -0,0 +1,82 @@
+// Minimal runtime schemas for checking JSON received from the API
+
+/**
+ * Checks an unknown value and returns the problems found, each prefixed with
+ * the path of the offending value; an empty list means the value has type T
+ */
+export type Schema<T> = ((value: unknown, path: string) => string[]) & {
+  readonly __type?: T;
+};
+
+const typeName = (value: unknown): string =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+const expected =
+  <T>(type: string, test: (value: unknown) => boolean): Schema<T> =>
+  (value, path) =>
+    test(value) ? [] : [`${path}: expected ${type}, got ${typeName(value)}`];
+
+export const string = expected<string>("string", (v) => typeof v === "string");
+
+export const number = expected<number>(
+  "number",
+  (v) => typeof v === "number" && Number.isFinite(v),
+);
+
+export const boolean = expected<boolean>(
+  "boolean",
+  (v) => typeof v === "boolean",
+);
+
+/** One of the given string literals, e.g. a role */
+export const oneOf = <T extends string>(values: readonly T[]): Schema<T> =>
+  expected<T>(values.map((value) => `"${value}"`).join(" | "), (v) =>
+    values.includes(v as T),
+  );
+
+/** Accepts anything; for parts normalized after parsing */
+export const unknown: Schema<unknown> = () => [];
+
+export const optional =
+  <T>(schema: Schema<T>): Schema<T | undefined> =>
+  (value, path) =>
+    value === undefined ? [] : schema(value, path);
+
+export const nullable =
+  <T>(schema: Schema<T>): Schema<T | null> =>
+  (value, path) =>
+    value === null ? [] : schema(value, path);
+
+export const array =
+  <T>(item: Schema<T>): Schema<T[]> =>
+  (value, path) =>
+    Array.isArray(value)
+      ? value.flatMap((element, index) => item(element, `${path}[${index}]`))
+      : [`${path}: expected array, got ${typeName(value)}`];
+
+/**
+ * Object with the given properties; extra properties are allowed
+ */
+export const object =
+  <T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> =>
+  (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return [`${path}: expected object, got ${typeName(value)}`];
+    }
+    const record = value as Record<string, unknown>;
+    return (Object.keys(shape) as (keyof T & string)[]).flatMap((key) =>
+      shape[key](record[key], `${path}.${key}`),
+    );
+  };
+
+/**
+ * Check a value against a schema, returning the problems found
+ */
+export const validate = <T>(
+  schema: Schema<T>,
+  value: unknown,
+  path = "response",
+): string[] => schema(value, path);
+
+export const matches = <T>(schema: Schema<T>, value: unknown): value is T =>
+  validate(schema, value).length === 0;
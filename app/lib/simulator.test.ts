@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import { DEFAULT_PLAN } from "./plan";
+import { cheapestMix, minimumQuantities, simulate, tierOf } from "./simulator";
+
+const quantities = (locks: number, stocks: number, barrels: number) => ({
+  locks,
+  stocks,
+  barrels,
+});
+
+/**
+ * FR-20: จำลองยอดขาย (what-if) แสดงขั้นค่าคอมมิชชั่นปัจจุบัน ยอดที่ขาดถึงขั้นถัดไป
+ * และชุดสินค้าที่ถูกที่สุดที่ทำให้ถึงขั้นถัดไป โดยไม่เรียก API
+ */
+describe("FR-20: What-if Simulator", () => {
+  describe("tierOf", () => {
+    it("should find the tier of the last baht sold", () => {
+      expect(tierOf(100)).toEqual({
+        index: 0,
+        rate: 0.1,
+        lowerBound: 0,
+        upperBound: 1000,
+      });
+      expect(tierOf(1500)).toEqual({
+        index: 1,
+        rate: 0.15,
+        lowerBound: 1000,
+        upperBound: 1800,
+      });
+      expect(tierOf(7800)).toMatchObject({ index: 2, upperBound: null });
+    });
+
+    it("should keep a sale exactly on the boundary in the lower tier", () => {
+      expect(tierOf(1000).index).toBe(0);
+      expect(tierOf(1000.01).index).toBe(1);
+    });
+  });
+
+  describe("cheapestMix", () => {
+    it("should add as little sales as possible, then as few items as possible", () => {
+      // ต้องเพิ่มเกิน 900 ฿ ราคาทุกตัวหาร 5 ลงตัว จึงน้อยที่สุดคือ 905 ฿ = Locks 19 + Barrels 2
+      expect(cheapestMix(quantities(1, 1, 1), 1000)).toEqual(
+        quantities(19, 0, 2),
+      );
+    });
+
+    it("should need a single barrel when the sales sit on the boundary", () => {
+      expect(cheapestMix(quantities(10, 10, 10), 1000)).toEqual(
+        quantities(0, 0, 1),
+      );
+    });
+
+    it("should stay within the item limits", () => {
+      const mix = cheapestMix(quantities(70, 1, 1), 1800)!;
+      expect(mix.locks).toBe(0);
+      expect(mix.stocks).toBeLessThanOrEqual(79);
+      expect(mix.barrels).toBeLessThanOrEqual(89);
+    });
+
+    it("should return null when the limits do not allow reaching the boundary", () => {
+      const plan = {
+        ...DEFAULT_PLAN,
+        items: {
+          locks: { ...DEFAULT_PLAN.items.locks, max: 2 },
+          stocks: { ...DEFAULT_PLAN.items.stocks, max: 2 },
+          barrels: { ...DEFAULT_PLAN.items.barrels, max: 2 },
+        },
+      };
+      expect(cheapestMix(quantities(1, 1, 1), 1000, plan)).toBeNull();
+    });
+  });
+
+  describe("simulate", () => {
+    it("should start from the minimum quantities", () => {
+      expect(minimumQuantities()).toEqual(quantities(1, 1, 1));
+    });
+
+    it("should show the remaining amount and the commission after the mix", () => {
+      expect(simulate(quantities(1, 1, 1))).toEqual({
+        sales: 100,
+        commission: 10,
+        tier: { index: 0, rate: 0.1, lowerBound: 0, upperBound: 1000 },
+        next: {
+          index: 1,
+          rate: 0.15,
+          boundary: 1000,
+          remaining: 900,
+          mix: quantities(19, 0, 2),
+          mixSales: 905,
+          mixCommission: 100.75,
+        },
+      });
+    });
+
+    it("should target the 20% tier from the 15% tier", () => {
+      const { tier, next } = simulate(quantities(20, 10, 10));
+      expect(tier.rate).toBe(0.15);
+      expect(next).toMatchObject({ rate: 0.2, boundary: 1800, remaining: 350 });
+    });
+
+    it("should have no next tier in the last tier", () => {
+      const result = simulate(quantities(70, 80, 90));
+      expect(result).toMatchObject({ sales: 7800, commission: 1420 });
+      expect(result.next).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,185 @@
+// What-if simulator: current tier, distance to the next tier and the cheapest way to reach it
+// คำนวณในเครื่องทั้งหมดด้วยแผนที่โหลดไว้ ไม่เรียก API ทุกครั้งที่เลื่อน slider
+import {
+  calculateCommissionLocally,
+  calculateSales,
+  roundCurrency,
+} from "./commission";
+import { CommissionPlan, DEFAULT_PLAN, ITEM_KEYS, ItemKey } from "./plan";
+
+export type Quantities = Record<ItemKey, number>;
+
+export interface TierPosition {
+  /** Index in `plan.tiers` */
+  index: number;
+  rate: number;
+  lowerBound: number;
+  /** `null` for the open-ended last tier */
+  upperBound: number | null;
+}
+
+export interface NextTierTarget {
+  index: number;
+  rate: number;
+  /** The next rate applies to sales above this amount */
+  boundary: number;
+  /** Sales still missing to the boundary */
+  remaining: number;
+  /** Items to add on top of the current quantities, `null` when the item limits do not allow it */
+  mix: Quantities | null;
+  /** Sales added by `mix` */
+  mixSales: number;
+  /** Commission after adding `mix` */
+  mixCommission: number;
+}
+
+export interface SimulationResult {
+  sales: number;
+  commission: number;
+  tier: TierPosition;
+  /** `null` when the sales are already in the last tier */
+  next: NextTierTarget | null;
+}
+
+const addQuantities = (a: Quantities, b: Quantities): Quantities => ({
+  locks: a.locks + b.locks,
+  stocks: a.stocks + b.stocks,
+  barrels: a.barrels + b.barrels,
+});
+
+const salesOf = (quantities: Quantities, plan: CommissionPlan): number =>
+  calculateSales(quantities.locks, quantities.stocks, quantities.barrels, plan);
+
+const itemCount = (quantities: Quantities): number =>
+  ITEM_KEYS.reduce((sum, key) => sum + quantities[key], 0);
+
+/**
+ * Slider starting point: the minimum quantity of every item
+ */
+export const minimumQuantities = (
+  plan: CommissionPlan = DEFAULT_PLAN,
+): Quantities => ({
+  locks: plan.items.locks.min,
+  stocks: plan.items.stocks.min,
+  barrels: plan.items.barrels.min,
+});
+
+/**
+ * Tier the last baht of `sales` falls into, the same slicing as calculateTieredCommission
+ */
+export const tierOf = (
+  sales: number,
+  plan: CommissionPlan = DEFAULT_PLAN,
+): TierPosition => {
+  let lowerBound = 0;
+  for (const [index, tier] of plan.tiers.entries()) {
+    if (tier.upTo === null || sales <= tier.upTo) {
+      return { index, rate: tier.rate, lowerBound, upperBound: tier.upTo };
+    }
+    lowerBound = tier.upTo;
+  }
+  // validatePlan ensures the last tier is open-ended
+  const index = plan.tiers.length - 1;
+  return {
+    index,
+    rate: plan.tiers[index].rate,
+    lowerBound,
+    upperBound: null,
+  };
+};
+
+/**
+ * Cheapest set of items to add so that the sales go above `boundary`:
+ * the smallest added sales amount, then the fewest items.
+ * Additions stay within each item's maximum; `null` when that is not enough.
+ */
+export const cheapestMix = (
+  quantities: Quantities,
+  boundary: number,
+  plan: CommissionPlan = DEFAULT_PLAN,
+): Quantities | null => {
+  const none: Quantities = { locks: 0, stocks: 0, barrels: 0 };
+  const exceeds = (added: Quantities) =>
+    salesOf(addQuantities(quantities, added), plan) > boundary;
+  const candidates: Quantities[] = [];
+
+  // ลองทุกจำนวนของสินค้าตัวก่อนหน้า แล้วหาจำนวนน้อยที่สุดของสินค้าตัวสุดท้ายที่ทำให้เกินขอบ
+  const search = (position: number, mix: Quantities) => {
+    const key = ITEM_KEYS[position];
+    const { unitPrice, max } = plan.items[key];
+    const room = Math.max(0, max - quantities[key]);
+    const withCount = (count: number) => ({ ...mix, [key]: count });
+
+    if (position === ITEM_KEYS.length - 1) {
+      const missing = boundary - salesOf(addQuantities(quantities, mix), plan);
+      let count =
+        unitPrice > 0 ? Math.max(0, Math.floor(missing / unitPrice)) : 0;
+      while (count < room && !exceeds(withCount(count))) count++;
+      if (count <= room && exceeds(withCount(count))) {
+        candidates.push(withCount(count));
+      }
+      return;
+    }
+
+    for (let count = 0; count <= room; count++) {
+      search(position + 1, withCount(count));
+      // เกินขอบแล้ว เพิ่มจำนวนต่อไปมีแต่แพงขึ้น
+      if (exceeds(withCount(count))) break;
+    }
+  };
+
+  search(0, none);
+  const cost = (mix: Quantities) => [salesOf(mix, plan), itemCount(mix)];
+  return candidates.reduce<Quantities | null>((best, mix) => {
+    if (!best) return mix;
+    const [sales, count] = cost(mix);
+    const [bestSales, bestCount] = cost(best);
+    return sales < bestSales || (sales === bestSales && count < bestCount)
+      ? mix
+      : best;
+  }, null);
+};
+
+/**
+ * Sales, commission, current tier and what it takes to reach the next tier
+ */
+export const simulate = (
+  quantities: Quantities,
+  plan: CommissionPlan = DEFAULT_PLAN,
+): SimulationResult => {
+  const { sales, commission } = calculateCommissionLocally(
+    quantities.locks,
+    quantities.stocks,
+    quantities.barrels,
+    plan,
+  );
+  const tier = tierOf(sales, plan);
+  if (tier.upperBound === null) {
+    return { sales, commission, tier, next: null };
+  }
+
+  const boundary = tier.upperBound;
+  const mix = cheapestMix(quantities, boundary, plan);
+  const withMix = mix
+    ? calculateCommissionLocally(
+        quantities.locks + mix.locks,
+        quantities.stocks + mix.stocks,
+        quantities.barrels + mix.barrels,
+        plan,
+      )
+    : null;
+  return {
+    sales,
+    commission,
+    tier,
+    next: {
+      index: tier.index + 1,
+      rate: plan.tiers[tier.index + 1].rate,
+      boundary,
+      remaining: roundCurrency(boundary - sales),
+      mix,
+      mixSales: mix ? salesOf(mix, plan) : 0,
+      mixCommission: withMix ? withMix.commission : commission,
+    },
+  };
+};
@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import { calculateBreakdown } from "./commission";
+import { closePeriod, groupByEmployeePeriod } from "./periods";
+import { DEFAULT_PLAN } from "./plan";
+import { dashboardTotals, leaderboard, salesSplit, trend } from "./stats";
+import { testEntry } from "./testing/fixtures";
+
+const history = [
+  testEntry({ number: 1, status: "approved" }),
+  testEntry({
+    number: 2,
+    status: "paid",
+    name: "Ann",
+    locks: 20,
+    stocks: 20,
+    barrels: 20,
+    sales: 2000,
+    commission: 260,
+    date: "2026-10-02",
+  }),
+  testEntry({
+    number: 3,
+    date: "2026-09-30",
+    period: "2026-09",
+    status: "approved",
+  }),
+  testEntry({ number: 4, isValid: false, sales: 0, commission: 0 }),
+];
+
+/**
+ * FR-13: แดชบอร์ดสรุปยอดขาย ค่าคอมมิชชั่น อันดับพนักงาน และแนวโน้มตามช่วงเวลา
+ */
+describe("FR-13: Dashboard Aggregations", () => {
+  it("should total the monthly closes and compute the invalid ratio", () => {
+    expect(dashboardTotals(history)).toEqual({
+      sales: 4000,
+      commission: 460,
+      provisional: true,
+      validCount: 3,
+      invalidCount: 1,
+      invalidRatio: 1 / 3,
+    });
+    expect(dashboardTotals([]).invalidRatio).toBe(0);
+  });
+
+  it("should rank employees by sales, then commission", () => {
+    expect(leaderboard(history).map((s) => [s.name, s.sales])).toEqual([
+      ["Ann", 2000],
+      ["Ken", 2000],
+    ]);
+    expect(leaderboard(history, [], DEFAULT_PLAN, 1)).toHaveLength(1);
+  });
+
+  it("should report closed months with their close and preview open ones", () => {
+    // Ken ปิดงวดกันยายนไว้แล้ว ส่วนเดือนตุลาคมยังเป็นยอดประมาณการ
+    const closed = [
+      {
+        ...closePeriod(groupByEmployeePeriod(history)[2]),
+        commission: 150,
+      },
+    ];
+    expect(
+      leaderboard(history, closed).map((s) => [
+        s.name,
+        s.commission,
+        s.provisional,
+      ]),
+    ).toEqual([
+      ["Ann", 260, true],
+      ["Ken", 250, true],
+    ]);
+    expect(
+      dashboardTotals(
+        history.filter((entry) => entry.period === "2026-09"),
+        closed,
+      ),
+    ).toMatchObject({ commission: 150, provisional: false });
+  });
+
+  it("should split sales between locks, stocks and barrels", () => {
+    expect(salesSplit(history)).toEqual({
+      locks: 40 * 45,
+      stocks: 40 * 30,
+      barrels: 40 * 25,
+    });
+  });
+
+  it("should keep the prices stored with each entry after a plan change", () => {
+    const repriced = {
+      ...DEFAULT_PLAN,
+      items: {
+        ...DEFAULT_PLAN.items,
+        locks: { ...DEFAULT_PLAN.items.locks, unitPrice: 90 },
+      },
+    };
+    const explained = testEntry({ breakdown: calculateBreakdown(10, 10, 10) });
+    expect(salesSplit([explained, testEntry({ number: 2 })], repriced)).toEqual(
+      { locks: 10 * 45 + 10 * 90, stocks: 20 * 30, barrels: 20 * 25 },
+    );
+  });
+
+  it("should build daily and monthly trends in chronological order", () => {
+    expect(trend(history, "day").map((p) => [p.key, p.sales])).toEqual([
+      ["2026-09-30", 1000],
+      ["2026-10-01", 1000],
+      ["2026-10-02", 2000],
+    ]);
+    expect(trend(history, "month").map((p) => [p.key, p.count])).toEqual([
+      ["2026-09", 1],
+      ["2026-10", 2],
+    ]);
+  });
+});
@@ -0,0 +1,99 @@
+// Aggregations for the dashboard
+import { EmployeeSummary, summarizeByEmployee, totalOf } from "./export";
+import { CommissionPlan, DEFAULT_PLAN, ITEM_KEYS, ItemKey } from "./plan";
+import { ClosedPeriod, Entry } from "./types";
+
+export type TrendGranularity = "day" | "month";
+
+export interface DashboardTotals {
+  /** Sales and commission of the monthly closes of payable entries */
+  sales: number;
+  commission: number;
+  /** Some months are still open, so the totals preview their close */
+  provisional: boolean;
+  validCount: number;
+  invalidCount: number;
+  /** Invalid entries per valid entry (0 when there are no valid entries) */
+  invalidRatio: number;
+}
+
+export interface TrendPoint {
+  key: string;
+  sales: number;
+  commission: number;
+  count: number;
+}
+
+export const dashboardTotals = (
+  entries: Entry[],
+  closed: ClosedPeriod[] = [],
+  plan: CommissionPlan = DEFAULT_PLAN,
+): DashboardTotals => {
+  const valid = entries.filter((entry) => entry.isValid);
+  const invalidCount = entries.length - valid.length;
+  const { sales, commission, provisional } = totalOf(
+    summarizeByEmployee(entries, closed, plan),
+  );
+  return {
+    sales,
+    commission,
+    provisional,
+    validCount: valid.length,
+    invalidCount,
+    invalidRatio: valid.length > 0 ? invalidCount / valid.length : 0,
+  };
+};
+
+/**
+ * Employees ranked by total sales, with the monthly close figures of
+ * summarizeByEmployee
+ */
+export const leaderboard = (
+  entries: Entry[],
+  closed: ClosedPeriod[] = [],
+  plan: CommissionPlan = DEFAULT_PLAN,
+  limit = 10,
+): EmployeeSummary[] =>
+  summarizeByEmployee(entries, closed, plan)
+    .sort((a, b) => b.sales - a.sales || b.commission - a.commission)
+    .slice(0, limit);
+
+/**
+ * Sales split between locks, stocks and barrels, from each entry's stored
+ * breakdown; entries saved without one are priced with the given plan
+ */
+export const salesSplit = (
+  entries: Entry[],
+  plan: CommissionPlan = DEFAULT_PLAN,
+): Record<ItemKey, number> => {
+  const split = { locks: 0, stocks: 0, barrels: 0 };
+  for (const entry of entries) {
+    if (!entry.isValid) continue;
+    for (const key of ITEM_KEYS) {
+      // ราคาที่ใช้ตอนคำนวณ ไม่ใช่ราคาในแผนปัจจุบัน
+      const stored = entry.breakdown?.items.find(({ item }) => item === key);
+      split[key] += stored?.amount ?? entry[key] * plan.items[key].unitPrice;
+    }
+  }
+  return split;
+};
+
+/**
+ * Sales and commission per day (YYYY-MM-DD) or month (YYYY-MM), oldest first
+ */
+export const trend = (
+  entries: Entry[],
+  granularity: TrendGranularity,
+): TrendPoint[] => {
+  const points = new Map<string, TrendPoint>();
+  for (const entry of entries) {
+    if (!entry.isValid) continue;
+    const key = granularity === "day" ? entry.date : entry.period;
+    const point = points.get(key) ?? { key, sales: 0, commission: 0, count: 0 };
+    point.sales += entry.sales;
+    point.commission += entry.commission;
+    point.count += 1;
+    points.set(key, point);
+  }
+  return [...points.values()].sort((a, b) => a.key.localeCompare(b.key));
+};
@@ -0,0 +1,188 @@
+// @vitest-environment jsdom
+import { afterEach, describe, it, expect } from "vitest";
+import {
+  NOTIFICATIONS_SEEN_KEY,
+  loadNotificationsSeenAt,
+  saveNotificationsSeenAt,
+} from "./approval";
+import { EMPLOYEES_KEY, loadCachedEmployees } from "./employees";
+import { newEntryId } from "./entries";
+import { SYNC_QUEUE_KEY, loadSyncQueue } from "./historySync";
+import {
+  ENTRIES_KEY,
+  LEGACY_ENTRY_COUNT_KEY,
+  TRASH_KEY,
+  loadHistory,
+  loadTrash,
+  saveEntries,
+} from "./storage";
+import { CORRUPT_SUFFIX, STORAGE_VERSION } from "./versionedStorage";
+
+const UUID =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+// รายการตามรูปแบบที่บันทึกก่อนมีเวอร์ชัน (id เป็นตัวเลข)
+const legacyEntry = (id: number, overrides: object = {}) => ({
+  id,
+  name: "Ken",
+  locks: 10,
+  stocks: 10,
+  barrels: 10,
+  sales: 1000,
+  commission: 100,
+  isValid: true,
+  errors: [],
+  date: "2026-10-01",
+  ...overrides,
+});
+
+const saveRaw = (key: string, value: unknown) =>
+  localStorage.setItem(
+    key,
+    typeof value === "string" ? value : JSON.stringify(value),
+  );
+
+afterEach(() => {
+  localStorage.clear();
+});
+
+/**
+ * FR-24: ข้อมูลใน localStorage มีเวอร์ชันและย้ายรูปแบบอัตโนมัติ ข้อมูลที่เสียถูกแยกเก็บ
+ * ส่วนที่เหลือยังโหลดได้ และรายการใช้ UUID จึงไม่ชนกัน
+ */
+describe("FR-24: Versioned Storage and Recovery", () => {
+  describe("migrations", () => {
+    it("should upgrade history saved before versioning", () => {
+      saveRaw(ENTRIES_KEY, [legacyEntry(1), legacyEntry(2)]);
+      saveRaw(LEGACY_ENTRY_COUNT_KEY, "5");
+
+      const { data, dropped } = loadHistory();
+      expect(dropped).toBe(0);
+      expect(data.nextNumber).toBe(6);
+      expect(data.entries).toMatchObject([
+        { id: "1", number: 1, period: "2026-10" },
+        { id: "2", number: 2, period: "2026-10" },
+      ]);
+
+      saveEntries(data.entries, data.nextNumber);
+      expect(JSON.parse(localStorage.getItem(ENTRIES_KEY)!)).toMatchObject({
+        version: STORAGE_VERSION,
+        data: { nextNumber: 6 },
+      });
+      expect(localStorage.getItem(LEGACY_ENTRY_COUNT_KEY)).toBeNull();
+    });
+
+    it("should give entries with a duplicate id a new UUID", () => {
+      saveRaw(ENTRIES_KEY, [
+        legacyEntry(3, { syncedAt: "2026-10-01T00:00:00.000Z" }),
+        legacyEntry(3, { syncedAt: "2026-10-02T00:00:00.000Z" }),
+      ]);
+
+      const [first, second] = loadHistory().data.entries;
+      expect(first).toMatchObject({ id: "3", number: 3 });
+      expect(second.id).toMatch(UUID);
+      expect(second.number).toBe(3);
+      // ต้องส่งขึ้นเซิร์ฟเวอร์ใหม่ในฐานะรายการใหม่
+      expect(second.syncedAt).toBeUndefined();
+    });
+
+    it("should not reuse history ids for entries in the trash", () => {
+      saveRaw(ENTRIES_KEY, [legacyEntry(1)]);
+      saveRaw(TRASH_KEY, [
+        { entry: legacyEntry(1), deletedAt: "2026-10-01T00:00:00.000Z" },
+        { entry: legacyEntry(2), deletedAt: "2026-10-01T00:00:00.000Z" },
+      ]);
+
+      const [reused, kept] = loadTrash().data.map(({ entry }) => entry);
+      expect(reused.id).toMatch(UUID);
+      expect(kept).toMatchObject({ id: "2", number: 2 });
+    });
+
+    it("should turn queued ids into strings", () => {
+      saveRaw(SYNC_QUEUE_KEY, [
+        { type: "delete", id: 4, opId: "a" },
+        { type: "create", entry: legacyEntry(5), opId: "b" },
+      ]);
+
+      expect(loadSyncQueue()).toMatchObject([
+        { type: "delete", id: "4" },
+        { type: "create", entry: { id: "5" } },
+      ]);
+    });
+  });
+
+  describe("recovery", () => {
+    it("should set aside history that is not valid JSON", () => {
+      saveRaw(ENTRIES_KEY, "[{not json");
+
+      expect(loadHistory()).toEqual({
+        data: { entries: [], nextNumber: 1 },
+        dropped: 1,
+      });
+      expect(localStorage.getItem(ENTRIES_KEY + CORRUPT_SUFFIX)).toBe(
+        "[{not json",
+      );
+    });
+
+    it("should keep the readable entries and count the rest", () => {
+      const saved = JSON.stringify({
+        version: STORAGE_VERSION,
+        data: {
+          entries: [
+            { ...legacyEntry(1), id: "1", number: 1 },
+            { id: "2", number: 2, name: "Ann" },
+            "garbage",
+          ],
+          nextNumber: 3,
+        },
+      });
+      saveRaw(ENTRIES_KEY, saved);
+
+      const { data, dropped } = loadHistory();
+      expect(data.entries.map((entry) => entry.id)).toEqual(["1"]);
+      expect(data.nextNumber).toBe(3);
+      expect(dropped).toBe(2);
+      expect(localStorage.getItem(ENTRIES_KEY + CORRUPT_SUFFIX)).toBe(saved);
+    });
+
+    it("should survive a damaged employee cache and notification marker", () => {
+      saveRaw(EMPLOYEES_KEY, "[{not json");
+      saveRaw(NOTIFICATIONS_SEEN_KEY, "{not json");
+
+      expect(loadCachedEmployees()).toEqual([]);
+      expect(localStorage.getItem(EMPLOYEES_KEY + CORRUPT_SUFFIX)).toBe(
+        "[{not json",
+      );
+      expect(loadNotificationsSeenAt("U001")).toBeUndefined();
+      saveNotificationsSeenAt("U001", "2026-10-05T10:00:00.000Z");
+      expect(loadNotificationsSeenAt("U001")).toBe("2026-10-05T10:00:00.000Z");
+    });
+
+    it("should keep the readable employees of a cache saved before versioning", () => {
+      saveRaw(EMPLOYEES_KEY, [
+        { id: "E001", nameTh: "ฐากูร", nameEn: "Thakun", team: "North" },
+        { id: "E002" },
+      ]);
+
+      expect(loadCachedEmployees().map((employee) => employee.id)).toEqual([
+        "E001",
+      ]);
+    });
+
+    it("should start empty when nothing is saved", () => {
+      expect(loadHistory()).toEqual({
+        data: { entries: [], nextNumber: 1 },
+        dropped: 0,
+      });
+      expect(loadTrash()).toEqual({ data: [], dropped: 0 });
+    });
+  });
+
+  describe("newEntryId", () => {
+    it("should create unique version 4 UUIDs", () => {
+      const ids = Array.from({ length: 50 }, newEntryId);
+      expect(ids.every((id) => UUID.test(id))).toBe(true);
+      expect(new Set(ids).size).toBe(50);
+    });
+  });
+});
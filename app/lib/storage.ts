@@ -0,0 +1,223 @@
+// Versioned localStorage persistence for calculation history and trash
+import { newEntryId } from "./entries";
+import { toAppError } from "./errors";
+import { withPeriod } from "./periods";
+import { Schema, boolean, matches, number, object, string } from "./schema";
+import { Entry, TrashedEntry } from "./types";
+import {
+  Recovered,
+  readVersioned,
+  recoverItems,
+  writeVersioned,
+} from "./versionedStorage";
+
+export const ENTRIES_KEY = "commissionEntries";
+/** Counter kept next to the entries before version 2 */
+export const LEGACY_ENTRY_COUNT_KEY = "commissionEntryCount";
+export const TRASH_KEY = "commissionTrash";
+
+export interface StoredHistory {
+  entries: Entry[];
+  /** Display number of the next new entry */
+  nextNumber: number;
+}
+
+/** Sign-off saved before entries had a status */
+interface LegacyApproval {
+  userId: string;
+  name: string;
+  approvedAt: string;
+}
+
+/** An entry as saved by any earlier version, or as sent by the server */
+export type SavedEntry = Omit<Entry, "id" | "number"> & {
+  id: string | number;
+  number?: number;
+  approval?: LegacyApproval;
+};
+
+// ส่วนที่หน้าจอขาดไม่ได้ ฟิลด์อื่นเติมหรือแปลงใน normalizeEntry
+const savedEntrySchema = object<
+  Pick<
+    Entry,
+    | "id"
+    | "name"
+    | "locks"
+    | "stocks"
+    | "barrels"
+    | "sales"
+    | "commission"
+    | "isValid"
+  >
+>({
+  id: string,
+  name: string,
+  locks: number,
+  stocks: number,
+  barrels: number,
+  sales: number,
+  commission: number,
+  isValid: boolean,
+}) as Schema<SavedEntry>;
+
+/**
+ * Fill in fields added after an entry was saved: string ids and display
+ * numbers, the period, structured errors for entries saved with plain text
+ * or bare messages, and the approved status of entries signed off before
+ * the approval workflow
+ */
+export const normalizeEntry = (saved: SavedEntry): Entry => {
+  const { approval, ...entry } = saved;
+  const approved: Partial<Entry> =
+    approval && !entry.status
+      ? {
+          status: "approved",
+          statusHistory: [
+            {
+              status: "approved",
+              changedAt: approval.approvedAt,
+              userId: approval.userId,
+              name: approval.name,
+            },
+          ],
+        }
+      : {};
+  return withPeriod({
+    ...entry,
+    id: String(entry.id),
+    number: entry.number ?? (typeof entry.id === "number" ? entry.id : 0),
+    ...approved,
+    errors: (entry.errors ?? []).map(toAppError),
+  });
+};
+
+const acceptEntry = (item: unknown): Entry | null =>
+  matches(savedEntrySchema, item) ? normalizeEntry(item) : null;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Turn numeric ids into strings. The old counter could hand out an id twice
+ * (delete, then reload); later duplicates get a new UUID and are uploaded
+ * again as new entries.
+ */
+const upgradeIds = (
+  items: unknown,
+  taken: Set<string> = new Set(),
+): unknown => {
+  if (!Array.isArray(items)) return items;
+  return items.map((item) => {
+    if (!isRecord(item) || typeof item.id !== "number") return item;
+    const id = String(item.id);
+    if (!taken.has(id)) {
+      taken.add(id);
+      return { ...item, id, number: item.id };
+    }
+    return { ...item, id: newEntryId(), number: item.id, syncedAt: undefined };
+  });
+};
+
+const maxNumber = (entries: Entry[]) =>
+  Math.max(0, ...entries.map((entry) => entry.number));
+
+const HISTORY = {
+  key: ENTRIES_KEY,
+  migrations: {
+    1: (entries: unknown) => ({
+      entries: upgradeIds(entries),
+      nextNumber: Number(localStorage.getItem(LEGACY_ENTRY_COUNT_KEY) ?? 0) + 1,
+    }),
+  },
+  recover: (data: unknown): Recovered<StoredHistory> => {
+    const saved = isRecord(data) ? data : {};
+    const { data: entries, dropped } = recoverItems(saved.entries, acceptEntry);
+    const nextNumber = Number(saved.nextNumber);
+    return {
+      data: {
+        entries,
+        nextNumber: Math.max(
+          Number.isInteger(nextNumber) ? nextNumber : 1,
+          maxNumber(entries) + 1,
+        ),
+      },
+      dropped: isRecord(data) ? dropped : 1,
+    };
+  },
+  empty: (): StoredHistory => ({ entries: [], nextNumber: 1 }),
+};
+
+/**
+ * Ids of the saved history, in whatever version it is stored
+ */
+const savedEntryIds = (): Set<string> => {
+  try {
+    const saved: unknown = JSON.parse(
+      localStorage.getItem(ENTRIES_KEY) ?? "[]",
+    );
+    const entries = Array.isArray(saved)
+      ? saved
+      : isRecord(saved) && isRecord(saved.data)
+        ? saved.data.entries
+        : [];
+    return new Set(
+      (Array.isArray(entries) ? entries : []).flatMap((entry) =>
+        isRecord(entry) ? [String(entry.id)] : [],
+      ),
+    );
+  } catch {
+    return new Set();
+  }
+};
+
+const TRASH = {
+  key: TRASH_KEY,
+  migrations: {
+    // รายการในถังขยะอาจมี id ซ้ำกับรายการที่สร้างหลังจากลบ
+    1: (trash: unknown) => {
+      if (!Array.isArray(trash)) return trash;
+      const taken = savedEntryIds();
+      const entries = upgradeIds(
+        trash.map((item) => (isRecord(item) ? item.entry : item)),
+        taken,
+      ) as unknown[];
+      return trash.map((item, index) =>
+        isRecord(item) ? { ...item, entry: entries[index] } : item,
+      );
+    },
+  },
+  recover: (data: unknown) =>
+    recoverItems(data, (item): TrashedEntry | null => {
+      if (!isRecord(item) || typeof item.deletedAt !== "string") return null;
+      const entry = acceptEntry(item.entry);
+      return entry && { entry, deletedAt: item.deletedAt };
+    }),
+  empty: (): TrashedEntry[] => [],
+};
+
+/**
+ * Load saved history; entries that cannot be read are set aside and counted
+ */
+export const loadHistory = (): Recovered<StoredHistory> =>
+  readVersioned(HISTORY);
+
+export const loadEntries = (): Entry[] => loadHistory().data.entries;
+
+export const saveEntries = (entries: Entry[], nextNumber: number): void => {
+  writeVersioned<StoredHistory>(ENTRIES_KEY, { entries, nextNumber });
+  localStorage.removeItem(LEGACY_ENTRY_COUNT_KEY);
+};
+
+export const clearEntries = (): void => {
+  localStorage.removeItem(ENTRIES_KEY);
+  localStorage.removeItem(LEGACY_ENTRY_COUNT_KEY);
+};
+
+/**
+ * Load entries that were deleted but not yet purged
+ */
+export const loadTrash = (): Recovered<TrashedEntry[]> => readVersioned(TRASH);
+
+export const saveTrash = (trash: TrashedEntry[]): void => {
+  writeVersioned(TRASH_KEY, trash);
+};
@@ -0,0 +1,240 @@
+// @vitest-environment jsdom
+import { afterEach, describe, it, expect } from "vitest";
+import { apiClient } from "./api";
+import { message } from "./i18n";
+import { MOCK_USERS, createMockAdapter, createMockState } from "./mockApi";
+import { groupByEmployeePeriod } from "./periods";
+import {
+  TARGETS_KEY,
+  acceleratorBonus,
+  attainmentPercent,
+  findProgress,
+  findTarget,
+  loadTargets,
+  refreshTargets,
+  removeTarget,
+  saveTargets,
+  setTarget,
+  submitTarget,
+  targetProgress,
+  targetProgresses,
+  validateTarget,
+  withdrawTarget,
+} from "./targets";
+import { Entry, SalesTarget } from "./types";
+import { testEntry } from "./testing/fixtures";
+
+const target = (overrides: Partial<SalesTarget> = {}): SalesTarget => ({
+  employeeKey: "E001",
+  name: "สมชาย ใจดี",
+  period: "2026-10",
+  target: 5000,
+  ...overrides,
+});
+
+const entry = (sales: number, overrides: Partial<Entry> = {}): Entry =>
+  testEntry({
+    id: String(sales),
+    name: "สมชาย ใจดี",
+    employeeId: "E001",
+    sales,
+    commission: sales / 10,
+    date: "2026-10-05",
+    status: "approved",
+    ...overrides,
+  });
+
+const userId = (username: string) =>
+  MOCK_USERS.find((user) => user.username === username)!.id;
+
+const originalAdapter = apiClient.defaults.adapter;
+afterEach(() => {
+  apiClient.defaults.adapter = originalAdapter;
+  localStorage.clear();
+});
+
+/**
+ * FR-29: เป้ายอดขายรายเดือนของพนักงาน คำนวณเปอร์เซ็นต์การบรรลุเป้าจากยอดขายของรายการ
+ * และโบนัสเร่งยอดจากส่วนที่เกินเป้า จ่ายเพิ่มจากค่าคอมมิชชันปกติ
+ */
+describe("FR-29: Sales Targets and Attainment", () => {
+  describe("validateTarget", () => {
+    it("should accept a positive target with or without an accelerator", () => {
+      expect(validateTarget({ target: 5000 })).toEqual([]);
+      expect(validateTarget({ target: 5000, acceleratorRate: 0.05 })).toEqual(
+        [],
+      );
+    });
+
+    it("should reject a missing, zero or negative target", () => {
+      for (const amount of [NaN, 0, -100]) {
+        expect(validateTarget({ target: amount })).toEqual([
+          message("targets.amountInvalid"),
+        ]);
+      }
+    });
+
+    it("should reject an accelerator rate outside 0-100%", () => {
+      expect(validateTarget({ target: 5000, acceleratorRate: 1.5 })).toEqual([
+        message("targets.rateInvalid"),
+      ]);
+      expect(validateTarget({ target: 5000, acceleratorRate: -0.1 })).toEqual([
+        message("targets.rateInvalid"),
+      ]);
+    });
+  });
+
+  describe("setTarget / removeTarget / findTarget", () => {
+    it("should keep one target per employee and period", () => {
+      const october = target();
+      const november = target({ period: "2026-11", target: 6000 });
+      const raised = target({ target: 7000 });
+      const targets = setTarget(setTarget([october], november), raised);
+
+      expect(targets).toEqual([november, raised]);
+      expect(findTarget(targets, entry(0))).toBe(raised);
+      expect(removeTarget(targets, october)).toEqual([november]);
+    });
+
+    it("should match employees without an id by normalized name", () => {
+      const targets = [target({ employeeKey: "ken", name: "Ken" })];
+
+      expect(
+        findTarget(targets, { name: " KEN ", period: "2026-10" }),
+      ).toBeDefined();
+      expect(
+        findTarget(targets, { name: "Ken", period: "2026-11" }),
+      ).toBeUndefined();
+    });
+  });
+
+  describe("targetProgress", () => {
+    it("should compute attainment from the sales of the period's entries", () => {
+      const [group] = groupByEmployeePeriod([entry(2500), entry(3500)]);
+      const progress = targetProgress(group.sales, target());
+
+      expect(progress.sales).toBe(6000);
+      expect(progress.attainment).toBe(1.2);
+      expect(attainmentPercent(progress)).toBe(120);
+      expect(progress.attained).toBe(true);
+    });
+
+    it("should count meeting the target exactly as attained", () => {
+      expect(targetProgress(5000, target()).attained).toBe(true);
+      expect(targetProgress(4999.99, target()).attained).toBe(false);
+      expect(attainmentPercent(targetProgress(1234.5, target()))).toBe(24.7);
+    });
+  });
+
+  describe("targetProgresses", () => {
+    it("should follow each target with the sales of its employee and month", () => {
+      const progresses = targetProgresses(
+        [
+          target(),
+          target({ period: "2026-11" }),
+          target({ employeeKey: "ann", name: "Ann" }),
+        ],
+        [
+          entry(2500),
+          entry(3500),
+          entry(900, { employeeId: undefined, name: "ANN" }),
+          entry(9999, { isValid: false }),
+          // ฉบับร่างและรายการที่ยังไม่ผ่านการตรวจจากเซิร์ฟเวอร์ไม่นับเข้าเป้า
+          entry(9998, { status: "draft" }),
+          entry(9997, { calculatedOffline: true }),
+        ],
+      );
+
+      expect(
+        progresses.map(({ target, sales }) => [
+          target.period,
+          target.name,
+          sales,
+        ]),
+      ).toEqual([
+        ["2026-11", "สมชาย ใจดี", 0],
+        ["2026-10", "สมชาย ใจดี", 6000],
+        ["2026-10", "Ann", 900],
+      ]);
+      expect(findProgress(progresses, entry(0))?.sales).toBe(6000);
+      expect(
+        findProgress(progresses, entry(0, { period: "2026-12" })),
+      ).toBeUndefined();
+    });
+  });
+
+  describe("acceleratorBonus", () => {
+    it("should pay the accelerator rate on the sales above the target", () => {
+      expect(acceleratorBonus(6500, target({ acceleratorRate: 0.05 }))).toBe(
+        75,
+      );
+      expect(
+        targetProgress(6500, target({ acceleratorRate: 0.05 })).bonus,
+      ).toBe(75);
+    });
+
+    it("should pay nothing below the target or without an accelerator", () => {
+      expect(acceleratorBonus(4000, target({ acceleratorRate: 0.05 }))).toBe(0);
+      expect(acceleratorBonus(6500, target())).toBe(0);
+    });
+  });
+
+  describe("storage", () => {
+    it("should persist targets and drop unreadable ones", () => {
+      saveTargets([target()]);
+      expect(loadTargets()).toEqual([target()]);
+
+      localStorage.setItem(
+        TARGETS_KEY,
+        JSON.stringify([target(), { employeeKey: "E002" }]),
+      );
+      expect(loadTargets()).toEqual([target()]);
+    });
+  });
+
+  describe("API", () => {
+    const signIn = (
+      state: ReturnType<typeof createMockState>,
+      username: string,
+    ) => {
+      apiClient.defaults.adapter = createMockAdapter({
+        state,
+        signedInAs: userId(username),
+      });
+    };
+
+    it("should share targets set by a manager with the rep on any device", async () => {
+      const state = createMockState();
+      signIn(state, "north.manager");
+      expect((await submitTarget(target())).success).toBe(true);
+      expect(loadTargets()).toEqual([target()]);
+
+      // เครื่องของพนักงานขายไม่มีข้อมูลใน localStorage
+      localStorage.clear();
+      signIn(state, "thakun");
+      expect(await refreshTargets()).toEqual([target()]);
+      signIn(state, "ken");
+      expect(await refreshTargets()).toEqual([]);
+    });
+
+    it("should only let target setters change their own team's targets", async () => {
+      const state = createMockState();
+      signIn(state, "thakun");
+      expect((await submitTarget(target())).status).toBe(403);
+
+      signIn(state, "north.manager");
+      expect(
+        (await submitTarget(target({ employeeKey: "E002", name: "Ken" })))
+          .status,
+      ).toBe(403);
+      expect((await submitTarget(target({ target: 0 }))).errors).toEqual([
+        expect.objectContaining({ code: "SERVER_MESSAGE" }),
+      ]);
+
+      await submitTarget(target());
+      expect((await withdrawTarget(target())).success).toBe(true);
+      expect(state.targets).toEqual([]);
+      expect(loadTargets()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,201 @@
+// Monthly sales targets per employee, attainment and the accelerator bonus
+import {
+  ApiResponse,
+  SalesTargetResponse,
+  deleteSalesTarget,
+  fetchSalesTargets,
+  saveSalesTarget,
+} from "./api";
+import { roundCurrency } from "./commission";
+import { Message, message } from "./i18n";
+import { employeeKey, groupByEmployeePeriod } from "./periods";
+import { Entry, SalesTarget } from "./types";
+import {
+  readVersioned,
+  recoverItems,
+  writeVersioned,
+} from "./versionedStorage";
+
+export const TARGETS_KEY = "commissionSalesTargets";
+
+export interface TargetProgress {
+  target: SalesTarget;
+  sales: number;
+  /** Sales divided by the target, 1 when the target is met exactly */
+  attainment: number;
+  /** Sales reached at least 100% of the target */
+  attained: boolean;
+  /** Accelerator bonus on the sales above the target, paid on top of the commission */
+  bonus: number;
+}
+
+const isTarget = (item: unknown): item is SalesTarget =>
+  typeof item === "object" &&
+  item !== null &&
+  typeof (item as SalesTarget).employeeKey === "string" &&
+  typeof (item as SalesTarget).period === "string" &&
+  typeof (item as SalesTarget).target === "number";
+
+const TARGETS = {
+  key: TARGETS_KEY,
+  migrations: {},
+  recover: (data: unknown) =>
+    recoverItems(data, (item) => (isTarget(item) ? item : null)),
+  empty: (): SalesTarget[] => [],
+};
+
+export const loadTargets = (): SalesTarget[] => readVersioned(TARGETS).data;
+
+export const saveTargets = (targets: SalesTarget[]): void => {
+  writeVersioned(TARGETS_KEY, targets);
+};
+
+/**
+ * Id of the target of one employee and period in API paths
+ */
+export const targetId = (target: Pick<SalesTarget, "employeeKey" | "period">) =>
+  `${target.period}:${target.employeeKey}`;
+
+/**
+ * Fetch the targets the user may see from the API and refresh the cache,
+ * falling back to the cached copy when the API is unreachable
+ */
+export const refreshTargets = async (): Promise<SalesTarget[]> => {
+  const response = await fetchSalesTargets();
+  if (response.success && response.data) {
+    saveTargets(response.data);
+    return response.data;
+  }
+  return loadTargets();
+};
+
+/**
+ * Save a target on the server, then in the cache
+ */
+export const submitTarget = async (
+  target: SalesTarget,
+): Promise<SalesTargetResponse> => {
+  const response = await saveSalesTarget(targetId(target), target);
+  if (response.success) saveTargets(setTarget(loadTargets(), target));
+  return response;
+};
+
+/**
+ * Remove a target on the server, then from the cache
+ */
+export const withdrawTarget = async (
+  target: SalesTarget,
+): Promise<ApiResponse<null>> => {
+  const response = await deleteSalesTarget(targetId(target));
+  if (response.success) saveTargets(removeTarget(loadTargets(), target));
+  return response;
+};
+
+/**
+ * Problems with a target before it is saved, empty when it is usable
+ */
+export const validateTarget = (
+  target: Pick<SalesTarget, "target" | "acceleratorRate">,
+): Message[] => {
+  const errors: Message[] = [];
+  if (!Number.isFinite(target.target) || target.target <= 0) {
+    errors.push(message("targets.amountInvalid"));
+  }
+  const rate = target.acceleratorRate;
+  if (rate !== undefined && (!Number.isFinite(rate) || rate < 0 || rate > 1)) {
+    errors.push(message("targets.rateInvalid"));
+  }
+  return errors;
+};
+
+export const findTarget = (
+  targets: SalesTarget[],
+  entry: Pick<Entry, "employeeId" | "name" | "period">,
+): SalesTarget | undefined =>
+  targets.find(
+    (t) => t.period === entry.period && t.employeeKey === employeeKey(entry),
+  );
+
+const sameSlot = (a: SalesTarget, b: SalesTarget) =>
+  a.employeeKey === b.employeeKey && a.period === b.period;
+
+/**
+ * Add a target, replacing the one already set for the employee and period
+ */
+export const setTarget = (
+  targets: SalesTarget[],
+  target: SalesTarget,
+): SalesTarget[] => [...targets.filter((t) => !sameSlot(t, target)), target];
+
+export const removeTarget = (
+  targets: SalesTarget[],
+  target: SalesTarget,
+): SalesTarget[] => targets.filter((t) => !sameSlot(t, target));
+
+/**
+ * Bonus at the accelerator rate on the sales above the target
+ */
+export const acceleratorBonus = (sales: number, target: SalesTarget): number =>
+  roundCurrency(
+    Math.max(0, sales - target.target) * (target.acceleratorRate ?? 0),
+  );
+
+/**
+ * How far an employee's sales for the period are from the target
+ */
+export const targetProgress = (
+  sales: number,
+  target: SalesTarget,
+): TargetProgress => ({
+  target,
+  sales,
+  attainment: sales / target.target,
+  attained: sales >= target.target,
+  bonus: acceleratorBonus(sales, target),
+});
+
+/**
+ * Attainment as a percentage with one decimal, e.g. 1.2345 -> 123.5
+ */
+export const attainmentPercent = (progress: TargetProgress): number =>
+  Math.round(progress.attainment * 1000) / 10;
+
+/**
+ * Progress towards each target from the payable entries of the employee in
+ * the period, newest period first
+ */
+export const targetProgresses = (
+  targets: SalesTarget[],
+  entries: Entry[],
+): TargetProgress[] => {
+  const groups = groupByEmployeePeriod(entries);
+  return targets
+    .map((target) =>
+      targetProgress(
+        groups.find(
+          (group) =>
+            group.employeeKey === target.employeeKey &&
+            group.period === target.period,
+        )?.sales ?? 0,
+        target,
+      ),
+    )
+    .sort(
+      (a, b) =>
+        b.target.period.localeCompare(a.target.period) ||
+        a.target.name.localeCompare(b.target.name, "th"),
+    );
+};
+
+/**
+ * Progress of the employee and period an entry belongs to
+ */
+export const findProgress = (
+  progresses: TargetProgress[],
+  entry: Pick<Entry, "employeeId" | "name" | "period">,
+): TargetProgress | undefined =>
+  progresses.find(
+    ({ target }) =>
+      target.period === entry.period &&
+      target.employeeKey === employeeKey(entry),
+  );
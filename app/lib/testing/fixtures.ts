@@ -0,0 +1,25 @@
+// Test data shared by the unit and page tests
+import { Entry } from "../types";
+
+/**
+ * Valid October 2026 entry for Ken with 10 of each item; `number` also
+ * gives the id unless the overrides set one
+ */
+export const testEntry = ({
+  number = 1,
+  ...overrides
+}: Partial<Entry> = {}): Entry => ({
+  id: String(number),
+  number,
+  name: "Ken",
+  locks: 10,
+  stocks: 10,
+  barrels: 10,
+  sales: 1000,
+  commission: 100,
+  isValid: true,
+  errors: [],
+  date: "2026-10-01",
+  period: "2026-10",
+  ...overrides,
+});
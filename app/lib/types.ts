@@ -1,7 +1,86 @@
 // TypeScript interfaces for Commission Calculator
+import type { CommissionBreakdown } from "./commission";
+import type { MessageParams } from "./i18n";
+import type { ItemKey } from "./plan";
+
+export interface Employee {
+  id: string;
+  nameTh: string;
+  nameEn: string;
+  team: string;
+}
+
+export type Role = "rep" | "manager" | "admin";
+
+/**
+ * Signed-in user as returned by the session endpoint
+ */
+export interface User {
+  id: string;
+  username: string;
+  name: string;
+  role: Role;
+  /** Directory record of a sales rep */
+  employeeId?: string;
+  /** Team a rep belongs to or a manager leads */
+  team?: string;
+}
+
+/**
+ * Approval workflow of a valid entry: reps submit drafts, managers approve
+ * or reject them, and approved entries are paid out
+ */
+export type EntryStatus =
+  "draft" | "submitted" | "approved" | "rejected" | "paid";
+
+export interface StatusChange {
+  status: EntryStatus;
+  changedAt: string;
+  /** Id and display name of the user who changed the status */
+  userId: string;
+  name: string;
+  /** Why the entry was rejected */
+  reason?: string;
+}
+
+/**
+ * Values an entry had before a change, kept for the audit trail
+ */
+export type EntrySnapshot = Pick<
+  Entry,
+  | "employeeId"
+  | "name"
+  | "locks"
+  | "stocks"
+  | "barrels"
+  | "sales"
+  | "commission"
+  | "isValid"
+  | "errors"
+  | "date"
+  | "period"
+  | "calculatedOffline"
+>;
+
+export interface EntryRevision {
+  changedAt: string;
+  /**
+   * Id of the user who made the change, or the system source such as
+   * "server-verification"; revisions saved before user ids read "user"
+   */
+  changedBy: string;
+  /** Display name of the user who made the change */
+  name?: string;
+  previous: EntrySnapshot;
+}
 
 export interface Entry {
-  id: number;
+  /** UUID; entries saved before UUIDs keep their old sequential id as a string */
+  id: string;
+  /** Sequential number shown as "Entry #n", unique per device only */
+  number: number;
+  /** Registry id of the employee, when the name was picked from the directory */
+  employeeId?: string;
   name: string;
   locks: number;
   stocks: number;
@@ -9,12 +88,112 @@ export interface Entry {
   sales: number;
   commission: number;
   isValid: boolean;
-  errors: string[];
+  errors: AppError[];
+  /** Sales date (YYYY-MM-DD) */
+  date: string;
+  /** Commission period the entry belongs to (YYYY-MM) */
+  period: string;
+  /** Calculated by the client-side engine because the API was unreachable */
+  calculatedOffline?: boolean;
+  /** How the figures were computed, missing on invalid entries */
+  breakdown?: CommissionBreakdown;
+  /** ISO timestamp of the last successful save to the server */
+  syncedAt?: string;
+  /**
+   * ISO timestamp of when the server refused to store the entry (4xx); it is
+   * not sent again until the entry changes
+   */
+  syncRefusedAt?: string;
+  /** Previous values, oldest first */
+  revisions?: EntryRevision[];
+  /** Id of the user who created the entry */
+  createdBy?: string;
+  /** Missing on entries saved before the approval workflow, read as draft */
+  status?: EntryStatus;
+  /** Status changes, oldest first */
+  statusHistory?: StatusChange[];
 }
 
-export interface FieldErrors {
+/**
+ * A deleted entry kept in the trash until it is purged
+ */
+export interface TrashedEntry {
+  entry: Entry;
+  deletedAt: string;
+}
+
+/**
+ * A month closed for one employee: commission computed on the accumulated
+ * locks/stocks/barrels of all entries in the period
+ */
+export interface ClosedPeriod {
+  /** Employee id, or the normalized name for entries outside the directory */
+  employeeKey: string;
   name: string;
-  locks: string;
-  stocks: string;
-  barrels: string;
+  period: string;
+  entryIds: string[];
+  locks: number;
+  stocks: number;
+  barrels: number;
+  sales: number;
+  commission: number;
+  closedAt: string;
+}
+
+/**
+ * Sales expected from one employee in a month
+ */
+export interface SalesTarget {
+  /** Employee id, or the normalized name for entries outside the directory */
+  employeeKey: string;
+  name: string;
+  period: string;
+  /** Sales amount in baht */
+  target: number;
+  /** Extra commission rate on the sales above the target, no bonus when missing */
+  acceleratorRate?: number;
+}
+
+/** Input an error belongs to */
+export type ErrorField = "name" | ItemKey | "date";
+
+export type ErrorSeverity = "error" | "warning";
+
+export type ErrorCode =
+  | "NAME_REQUIRED"
+  | "NAME_INVALID"
+  | "VALUE_REQUIRED"
+  | "NOT_INTEGER"
+  | "OUT_OF_RANGE"
+  | "INVALID_DATE"
+  | "PERIOD_CLOSED"
+  | "HTTP_ERROR"
+  | "NETWORK_ERROR"
+  | "TIMEOUT"
+  | "INVALID_RESPONSE"
+  | "SERVER_MESSAGE"
+  | "UNKNOWN_SERVER_ERROR"
+  | "UNAUTHORIZED"
+  | "FORBIDDEN"
+  | "INVALID_CREDENTIALS"
+  | "REASON_REQUIRED"
+  | "UNEXPECTED";
+
+/**
+ * Structured error shared by client validation and API responses.
+ * The code picks the translated message; the field drives input highlighting.
+ */
+export interface AppError {
+  /** null for errors about the whole request (network, server) */
+  field: ErrorField | null;
+  code: ErrorCode;
+  params?: MessageParams;
+  severity: ErrorSeverity;
+}
+
+export interface FieldErrors {
+  name: AppError | null;
+  locks: AppError | null;
+  stocks: AppError | null;
+  barrels: AppError | null;
 }
@@ -0,0 +1,107 @@
+import { describe, it, expect } from "vitest";
+import {
+  EMPTY_UNDO_STACK,
+  HistoryAction,
+  UNDO_LIMIT,
+  actionChanges,
+  applyAction,
+  applyActionToTrash,
+  forgetEntries,
+  recordAction,
+  redoAction,
+  undoAction,
+} from "./undo";
+import { testEntry } from "./testing/fixtures";
+
+const first = testEntry({ number: 1 });
+const second = testEntry({ number: 2, name: "Ann" });
+const DELETED_AT = "2026-10-05T10:00:00.000Z";
+
+/**
+ * FR-15: เลิกทำ/ทำซ้ำ การเพิ่ม ลบ เคลียร์ และแก้ไขประวัติ พร้อมถังขยะเก็บรายการที่ลบ
+ */
+describe("FR-15: Undo, Redo and Trash", () => {
+  it("should apply an action and restore the list when undone", () => {
+    const remove: HistoryAction = {
+      kind: "delete",
+      before: [first],
+      after: [],
+    };
+    const stack = recordAction(EMPTY_UNDO_STACK, remove);
+    const afterDelete = applyAction([first, second], remove);
+    expect(afterDelete).toEqual([second]);
+
+    const undone = undoAction(stack);
+    expect(undone?.stack).toEqual({ past: [], future: [remove] });
+    expect(applyAction(afterDelete, undone!.action)).toEqual([first, second]);
+
+    const redone = redoAction(undone!.stack);
+    expect(redone?.action).toEqual(remove);
+    expect(redone?.stack).toEqual({ past: [remove], future: [] });
+  });
+
+  it("should return null when there is nothing to undo or redo", () => {
+    expect(undoAction(EMPTY_UNDO_STACK)).toBeNull();
+    expect(redoAction(EMPTY_UNDO_STACK)).toBeNull();
+  });
+
+  it("should drop the redo branch on a new action and cap the stack", () => {
+    const add: HistoryAction = { kind: "add", before: [], after: [first] };
+    const stack = { past: [], future: [add] };
+    expect(recordAction(stack, add).future).toEqual([]);
+
+    let full = EMPTY_UNDO_STACK;
+    for (let i = 0; i < UNDO_LIMIT + 5; i++) full = recordAction(full, add);
+    expect(full.past).toHaveLength(UNDO_LIMIT);
+  });
+
+  it("should split an edit into updates and a clear into deletes", () => {
+    const edited = { ...first, locks: 20 };
+    expect(
+      actionChanges({ kind: "edit", before: [first], after: [edited] }),
+    ).toEqual({ created: [], updated: [edited], deleted: [] });
+    expect(
+      actionChanges({ kind: "clear", before: [first, second], after: [] }),
+    ).toEqual({ created: [], updated: [], deleted: [first, second] });
+  });
+
+  it("should move deleted entries to the trash and take them out on undo", () => {
+    const clear: HistoryAction = {
+      kind: "clear",
+      before: [first, second],
+      after: [],
+    };
+    const trash = applyActionToTrash([], clear, DELETED_AT);
+    expect(trash).toEqual([
+      { entry: first, deletedAt: DELETED_AT },
+      { entry: second, deletedAt: DELETED_AT },
+    ]);
+
+    const undone = undoAction(recordAction(EMPTY_UNDO_STACK, clear))!;
+    expect(applyActionToTrash(trash, undone.action)).toEqual([]);
+  });
+
+  it("should not put undone additions in the trash", () => {
+    const add: HistoryAction = { kind: "add", before: [], after: [first] };
+    const undone = undoAction(recordAction(EMPTY_UNDO_STACK, add))!;
+    expect(applyActionToTrash([], undone.action)).toEqual([]);
+  });
+
+  it("should forget actions that touch purged entries", () => {
+    const removeFirst: HistoryAction = {
+      kind: "delete",
+      before: [first],
+      after: [],
+    };
+    const removeSecond: HistoryAction = {
+      kind: "delete",
+      before: [second],
+      after: [],
+    };
+    const stack = { past: [removeFirst], future: [removeSecond] };
+    expect(forgetEntries(stack, ["1"])).toEqual({
+      past: [],
+      future: [removeSecond],
+    });
+  });
+});
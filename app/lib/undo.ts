@@ -0,0 +1,133 @@
+// Undo/redo of history changes and the trash for deleted entries
+import { Entry, TrashedEntry } from "./types";
+
+export type HistoryActionKind = "add" | "edit" | "delete" | "clear" | "restore";
+
+/**
+ * One undoable change: the affected entries before and after it
+ */
+export interface HistoryAction {
+  kind: HistoryActionKind;
+  before: Entry[];
+  after: Entry[];
+}
+
+export interface UndoStack {
+  past: HistoryAction[];
+  future: HistoryAction[];
+}
+
+/** Changes applied to the history list by one action */
+export interface ActionChanges {
+  created: Entry[];
+  updated: Entry[];
+  deleted: Entry[];
+}
+
+export const UNDO_LIMIT = 50;
+
+export const EMPTY_UNDO_STACK: UndoStack = { past: [], future: [] };
+
+// การกระทำเหล่านี้ย้ายรายการที่ถูกเอาออกไปไว้ในถังขยะ
+const TRASHING_KINDS: HistoryActionKind[] = ["delete", "clear", "restore"];
+
+/**
+ * Push a new action, dropping the oldest beyond the limit and the redo branch
+ */
+export const recordAction = (
+  stack: UndoStack,
+  action: HistoryAction,
+): UndoStack => ({
+  past: [...stack.past, action].slice(-UNDO_LIMIT),
+  future: [],
+});
+
+/**
+ * Move the latest action to the redo stack; returns the action to apply
+ */
+export const undoAction = (
+  stack: UndoStack,
+): { stack: UndoStack; action: HistoryAction } | null => {
+  const action = stack.past[stack.past.length - 1];
+  if (!action) return null;
+  return {
+    stack: { past: stack.past.slice(0, -1), future: [...stack.future, action] },
+    action: invertAction(action),
+  };
+};
+
+/**
+ * Move the latest undone action back to the undo stack; returns the action to apply
+ */
+export const redoAction = (
+  stack: UndoStack,
+): { stack: UndoStack; action: HistoryAction } | null => {
+  const action = stack.future[stack.future.length - 1];
+  if (!action) return null;
+  return {
+    stack: { past: [...stack.past, action], future: stack.future.slice(0, -1) },
+    action,
+  };
+};
+
+export const invertAction = (action: HistoryAction): HistoryAction => ({
+  kind: action.kind,
+  before: action.after,
+  after: action.before,
+});
+
+/**
+ * Split an action into the creates, updates and deletes it performs
+ */
+export const actionChanges = (action: HistoryAction): ActionChanges => {
+  const beforeIds = new Set(action.before.map((entry) => entry.id));
+  const afterIds = new Set(action.after.map((entry) => entry.id));
+  return {
+    created: action.after.filter((entry) => !beforeIds.has(entry.id)),
+    updated: action.after.filter((entry) => beforeIds.has(entry.id)),
+    deleted: action.before.filter((entry) => !afterIds.has(entry.id)),
+  };
+};
+
+/**
+ * Apply an action to the history list, keeping it ordered by number
+ */
+export const applyAction = (
+  entries: Entry[],
+  action: HistoryAction,
+): Entry[] => {
+  const replaced = new Set(action.before.map((entry) => entry.id));
+  return [
+    ...entries.filter((entry) => !replaced.has(entry.id)),
+    ...action.after,
+  ].sort((a, b) => a.number - b.number);
+};
+
+/**
+ * Update the trash after an action: deleted entries go in (for deletes and
+ * clears), entries brought back into the history come out
+ */
+export const applyActionToTrash = (
+  trash: TrashedEntry[],
+  action: HistoryAction,
+  deletedAt: string = new Date().toISOString(),
+): TrashedEntry[] => {
+  const { created, deleted } = actionChanges(action);
+  const restoredIds = new Set(created.map((entry) => entry.id));
+  const kept = trash.filter((item) => !restoredIds.has(item.entry.id));
+  if (!TRASHING_KINDS.includes(action.kind)) return kept;
+  return [...deleted.map((entry) => ({ entry, deletedAt })), ...kept];
+};
+
+/**
+ * Forget actions that touch purged entries so undo cannot bring them back
+ */
+export const forgetEntries = (
+  stack: UndoStack,
+  ids: Entry["id"][],
+): UndoStack => {
+  const purged = new Set(ids);
+  const keep = (action: HistoryAction) =>
+    ![...action.before, ...action.after].some((entry) => purged.has(entry.id));
+  return { past: stack.past.filter(keep), future: stack.future.filter(keep) };
+};
@@ -5,6 +5,13 @@ import {
   validateNumericField,
   validateInputRanges,
 } from "./validation";
+import { errorMessage } from "./errors";
+import { formatMessage } from "./i18n";
+import { AppError } from "./types";
+
+// ข้อผิดพลาดเป็น error code แปลเป็นภาษาอังกฤษเพื่อตรวจข้อความ
+const inEnglish = (error: AppError | null) =>
+  error && formatMessage("en", errorMessage(error));
 
 /**
  * FR-01: ผู้ใช้งานสามารถระบุจำนวน Stocks, Locks, และ Barrels เป็นตัวเลขจำนวนเต็ม (Integer) ได้
@@ -28,10 +35,10 @@ describe("FR-01: Integer Input for Stocks, Locks, Barrels", () => {
   });
 
   describe("validateNumericField", () => {
-    it("should return empty string for valid integer inputs", () => {
-      expect(validateNumericField("10", "Locks")).toBe("");
-      expect(validateNumericField("50", "Stocks")).toBe("");
-      expect(validateNumericField("80", "Barrels")).toBe("");
+    it("should return null for valid integer inputs", () => {
+      expect(validateNumericField("10", "locks")).toBeNull();
+      expect(validateNumericField("50", "stocks")).toBeNull();
+      expect(validateNumericField("80", "barrels")).toBeNull();
     });
   });
 });
@@ -42,39 +49,39 @@ describe("FR-01: Integer Input for Stocks, Locks, Barrels", () => {
 describe("FR-03 & FR-04: Employee Name Input (Thai or English only)", () => {
   describe("validateName", () => {
     it("should accept English names", () => {
-      expect(validateName("Ekarin")).toBe("");
-      expect(validateName("Elentia")).toBe("");
-      expect(validateName("John Doe")).toBe("");
+      expect(validateName("Ekarin")).toBeNull();
+      expect(validateName("Elentia")).toBeNull();
+      expect(validateName("John Doe")).toBeNull();
     });
 
     it("should accept Thai names", () => {
-      expect(validateName("เอกรินทร์")).toBe("");
-      expect(validateName("สมชาย")).toBe("");
-      expect(validateName("ฐากูร")).toBe("");
+      expect(validateName("เอกรินทร์")).toBeNull();
+      expect(validateName("สมชาย")).toBeNull();
+      expect(validateName("ฐากูร")).toBeNull();
     });
 
     it("should accept mixed Thai and English (same name)", () => {
-      expect(validateName("Ken เคน")).toBe("");
+      expect(validateName("Ken เคน")).toBeNull();
     });
 
     it("should reject names with numbers", () => {
-      expect(validateName("John123")).toBe(
+      expect(inEnglish(validateName("John123"))).toBe(
         "Name must be Thai or English letters only",
       );
     });
 
     it("should reject names with special characters", () => {
-      expect(validateName("John@Doe")).toBe(
+      expect(inEnglish(validateName("John@Doe"))).toBe(
         "Name must be Thai or English letters only",
       );
-      expect(validateName("Test!")).toBe(
+      expect(inEnglish(validateName("Test!"))).toBe(
         "Name must be Thai or English letters only",
       );
     });
 
     it("should reject empty name", () => {
-      expect(validateName("")).toBe("Please enter Employee Name");
-      expect(validateName("   ")).toBe("Please enter Employee Name");
+      expect(inEnglish(validateName(""))).toBe("Please enter Employee Name");
+      expect(inEnglish(validateName("   "))).toBe("Please enter Employee Name");
     });
   });
 });
@@ -86,22 +93,22 @@ describe("FR-03 & FR-04: Employee Name Input (Thai or English only)", () => {
 describe("FR-05: Out of Range Validation", () => {
   describe("validateInputRanges", () => {
     it("should return error for Locks > 70 (e.g., 75)", () => {
-      const errors = validateInputRanges(75, 50, 50);
+      const errors = validateInputRanges(75, 50, 50).map(inEnglish);
       expect(errors).toContain("Locks must be between 1 and 70");
     });
 
     it("should return error for Stocks > 80 (e.g., 81)", () => {
-      const errors = validateInputRanges(50, 81, 50);
+      const errors = validateInputRanges(50, 81, 50).map(inEnglish);
       expect(errors).toContain("Stocks must be between 1 and 80");
     });
 
     it("should return error for Barrels > 90 (e.g., 99)", () => {
-      const errors = validateInputRanges(50, 50, 99);
+      const errors = validateInputRanges(50, 50, 99).map(inEnglish);
       expect(errors).toContain("Barrels must be between 1 and 90");
     });
 
     it("should return error for values below minimum (< 1)", () => {
-      const errors = validateInputRanges(0, 0, 0);
+      const errors = validateInputRanges(0, 0, 0).map(inEnglish);
       expect(errors.length).toBe(3);
       expect(errors).toContain("Locks must be between 1 and 70");
       expect(errors).toContain("Stocks must be between 1 and 80");
@@ -141,31 +148,39 @@ describe("FR-06: Invalid Format Validation", () => {
 
   describe("validateNumericField - empty value", () => {
     it("should return error for empty values", () => {
-      expect(validateNumericField("", "Locks")).toBe("Please enter Locks");
-      expect(validateNumericField("", "Stocks")).toBe("Please enter Stocks");
-      expect(validateNumericField("", "Barrels")).toBe("Please enter Barrels");
+      expect(inEnglish(validateNumericField("", "locks"))).toBe(
+        "Please enter Locks",
+      );
+      expect(inEnglish(validateNumericField("", "stocks"))).toBe(
+        "Please enter Stocks",
+      );
+      expect(inEnglish(validateNumericField("", "barrels"))).toBe(
+        "Please enter Barrels",
+      );
     });
 
     it("should return error for whitespace-only values", () => {
-      expect(validateNumericField("   ", "Locks")).toBe("Please enter Locks");
+      expect(inEnglish(validateNumericField("   ", "locks"))).toBe(
+        "Please enter Locks",
+      );
     });
   });
 
   describe("validateNumericField - invalid format", () => {
     it("should return error for decimal numbers", () => {
-      expect(validateNumericField("1.5", "Locks")).toBe(
+      expect(inEnglish(validateNumericField("1.5", "locks"))).toBe(
         "Please enter with integer or whole number",
       );
     });
 
     it("should return error for text input", () => {
-      expect(validateNumericField("abc", "Stocks")).toBe(
+      expect(inEnglish(validateNumericField("abc", "stocks"))).toBe(
         "Please enter with integer or whole number",
       );
     });
 
     it("should return error for mixed text and numbers", () => {
-      expect(validateNumericField("12abc", "Barrels")).toBe(
+      expect(inEnglish(validateNumericField("12abc", "barrels"))).toBe(
         "Please enter with integer or whole number",
       );
     });
@@ -173,7 +188,7 @@ describe("FR-06: Invalid Format Validation", () => {
 
   describe("validateInputRanges - NaN handling", () => {
     it("should return error for NaN values", () => {
-      const errors = validateInputRanges(NaN, 50, 50);
+      const errors = validateInputRanges(NaN, 50, 50).map(inEnglish);
       expect(errors).toContain("Locks must be between 1 and 70");
     });
   });
@@ -1,4 +1,7 @@
 // Validation functions for Commission Calculator
+import { appError } from "./errors";
+import { CommissionPlan, DEFAULT_PLAN, ITEM_KEYS, ItemKey } from "./plan";
+import { AppError } from "./types";
 
 /**
  * Check if a string is a valid integer
@@ -8,19 +11,20 @@ export const isInteger = (value: string): boolean => {
 };
 
 /**
- * Validate name field - must be non-empty and Thai or English letters only (FR-04)
+ * Validate name field - must be non-empty and Thai or English letters only (FR-04).
+ * Returns the error, or null when the name is valid.
  */
-export const validateName = (name: string): string => {
+export const validateName = (name: string): AppError | null => {
   // Thai: \u0E00-\u0E7F, English: a-zA-Z, and spaces
   const thaiOrEnglishRegex = /^[a-zA-Z\u0E00-\u0E7F\s]+$/;
 
   if (name.trim() === "") {
-    return "Please enter Employee Name";
+    return appError("NAME_REQUIRED", "name");
   }
   if (!thaiOrEnglishRegex.test(name)) {
-    return "Name must be Thai or English letters only";
+    return appError("NAME_INVALID", "name");
   }
-  return "";
+  return null;
 };
 
 /**
@@ -28,39 +32,46 @@ export const validateName = (name: string): string => {
  */
 export const validateNumericField = (
   value: string,
-  fieldName: string,
-): string => {
+  field: ItemKey,
+  plan: CommissionPlan = DEFAULT_PLAN,
+): AppError | null => {
   if (value.trim() === "") {
-    return `Please enter ${fieldName}`;
+    return appError("VALUE_REQUIRED", field, {
+      label: plan.items[field].label,
+    });
   }
   if (!isInteger(value)) {
-    return "Please enter with integer or whole number";
+    return appError("NOT_INTEGER", field);
   }
-  return "";
+  return null;
 };
 
 /**
- * Validate input ranges for locks, stocks, and barrels
- * - Locks: 1-70
- * - Stocks: 1-80
- * - Barrels: 1-90
+ * Validate input ranges for locks, stocks, and barrels against the
+ * commission plan limits (default plan: Locks 1-70, Stocks 1-80, Barrels 1-90)
  */
 export const validateInputRanges = (
   locks: number,
   stocks: number,
   barrels: number,
-): string[] => {
-  const errors: string[] = [];
+  plan: CommissionPlan = DEFAULT_PLAN,
+): AppError[] => {
+  const errors: AppError[] = [];
+  const values: Record<ItemKey, number> = { locks, stocks, barrels };
 
-  if (Number.isNaN(locks) || locks < 1 || locks > 70) {
-    errors.push("Locks must be between 1 and 70");
-  }
-  if (Number.isNaN(stocks) || stocks < 1 || stocks > 80) {
-    errors.push("Stocks must be between 1 and 80");
-  }
-  if (Number.isNaN(barrels) || barrels < 1 || barrels > 90) {
-    errors.push("Barrels must be between 1 and 90");
+  for (const key of ITEM_KEYS) {
+    const { label, min, max } = plan.items[key];
+    const value = values[key];
+    if (Number.isNaN(value) || value < min || value > max) {
+      errors.push(appError("OUT_OF_RANGE", key, { label, min, max }));
+    }
   }
 
   return errors;
 };
+
+/**
+ * A rejected entry must tell the rep what to fix
+ */
+export const validateRejectionReason = (reason: string): AppError | null =>
+  reason.trim() === "" ? appError("REASON_REQUIRED") : null;
@@ -0,0 +1,103 @@
+// Versioned localStorage values: forward migrations and recovery of damaged data
+// ค่าที่อ่านไม่ได้ถูกเก็บสำรองไว้ที่ "<key>.corrupt" แทนการทิ้ง เพื่อกู้คืนด้วยมือได้
+
+/**
+ * Current layout of every versioned key.
+ * 1: bare JSON values with numeric entry ids (before versioning)
+ * 2: `{ version, data }` envelope, UUID entry ids and display numbers
+ */
+export const STORAGE_VERSION = 2;
+
+export const CORRUPT_SUFFIX = ".corrupt";
+
+/** Upgrades data saved at one version to the next */
+export type Migration = (data: unknown) => unknown;
+
+export interface Recovered<T> {
+  data: T;
+  /** Items that failed validation and were left out */
+  dropped: number;
+}
+
+export interface VersionedKey<T> {
+  key: string;
+  /** `migrations[v]` upgrades data saved at version v to v + 1 */
+  migrations: Record<number, Migration>;
+  /** Keeps the parts of the migrated data that are still usable */
+  recover: (data: unknown) => Recovered<T>;
+  /** Value when nothing is saved or nothing could be recovered */
+  empty: () => T;
+}
+
+interface Envelope {
+  version: number;
+  data: unknown;
+}
+
+const isEnvelope = (value: unknown): value is Envelope =>
+  typeof value === "object" &&
+  value !== null &&
+  !Array.isArray(value) &&
+  typeof (value as Envelope).version === "number" &&
+  "data" in value;
+
+const setAside = (key: string, raw: string) => {
+  localStorage.setItem(`${key}${CORRUPT_SUFFIX}`, raw);
+};
+
+/**
+ * Run saved data through the migrations from its version up to the current one
+ */
+export const migrate = (
+  migrations: Record<number, Migration>,
+  version: number,
+  data: unknown,
+): unknown => {
+  let migrated = data;
+  for (let from = version; from < STORAGE_VERSION; from++) {
+    const upgrade = migrations[from];
+    if (upgrade) migrated = upgrade(migrated);
+  }
+  return migrated;
+};
+
+/**
+ * Read, migrate and validate a saved value. Unreadable JSON and items that
+ * fail validation are set aside, and the rest is returned.
+ */
+export const readVersioned = <T>(spec: VersionedKey<T>): Recovered<T> => {
+  if (typeof window === "undefined") return { data: spec.empty(), dropped: 0 };
+  const raw = localStorage.getItem(spec.key);
+  if (raw === null) return { data: spec.empty(), dropped: 0 };
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    const { version, data } = isEnvelope(parsed)
+      ? parsed
+      : { version: 1, data: parsed };
+    const recovered = spec.recover(migrate(spec.migrations, version, data));
+    if (recovered.dropped > 0) setAside(spec.key, raw);
+    return recovered;
+  } catch {
+    setAside(spec.key, raw);
+    return { data: spec.empty(), dropped: 1 };
+  }
+};
+
+export const writeVersioned = <T>(key: string, data: T): void => {
+  localStorage.setItem(
+    key,
+    JSON.stringify({ version: STORAGE_VERSION, data } satisfies Envelope),
+  );
+};
+
+/**
+ * Keep the items of an array that pass `accept`, counting the rest
+ */
+export const recoverItems = <T>(
+  data: unknown,
+  accept: (item: unknown) => T | null,
+): Recovered<T[]> => {
+  if (!Array.isArray(data)) return { data: [], dropped: data == null ? 0 : 1 };
+  const kept = data.map(accept).filter((item): item is T => item !== null);
+  return { data: kept, dropped: data.length - kept.length };
+};
@@ -0,0 +1,72 @@
+'use client';
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { safeNextPath } from '../lib/auth';
+import { AppError } from '../lib/types';
+import { useI18n } from '../components/I18nProvider';
+import { useSession } from '../components/SessionProvider';
+// หน้าที่ถูกพามาที่นี่ส่ง ?next= มาด้วย อ่านจาก URL ตอนใช้งานเพื่อไม่ต้องใช้ Suspense
+const nextPath = () => safeNextPath(new URLSearchParams(window.location.search).get('next'));
+export default function Login() {
+  const { status, signIn } = useSession();
+  const { t, te } = useI18n();
+  const router = useRouter();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [errors, setErrors] = useState<AppError[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  useEffect(() => {
+    if (status === 'signedIn') router.replace(nextPath());
+  }, [status, router]);
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+    try {
+      setErrors(await signIn(username, password));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  return (
+    <div className="calculator-container">
+      <h1 className="calculator-title">{t('auth.title')}</h1>
+      <p className="text-muted">{t('auth.description')}</p>
+      <form onSubmit={handleSubmit}>
+        <div className="form-group">
+          <label className="form-label" htmlFor="login-username">{t('auth.username')}</label>
+          <input
+            id="login-username"
+            type="text"
+            className="form-input"
+            autoComplete="username"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            disabled={isLoading}
+            required
+          />
+        </div>
+        <div className="form-group">
+          <label className="form-label" htmlFor="login-password">{t('auth.password')}</label>
+          <input
+            id="login-password"
+            type="password"
+            className="form-input"
+            autoComplete="current-password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            disabled={isLoading}
+            required
+          />
+        </div>
+        {errors.length > 0 && (
+          <div className="field-error-message" role="alert">{errors.map(te).join(', ')}</div>
+        )}
+        <div className="button-group">
+          <button type="submit" className="btn btn-calculate" disabled={isLoading}>
+            {isLoading ? t('auth.signingIn') : t('auth.signIn')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
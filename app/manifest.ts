@@ -0,0 +1,25 @@
+import type { MetadataRoute } from "next";
+import { DEFAULT_LOCALE, translate } from "./lib/i18n";
+import { THEME_COLOR } from "./lib/pwa";
+
+/** Web app manifest, so reps can install the calculator on their phones */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: translate(DEFAULT_LOCALE, "app.title"),
+    short_name: translate(DEFAULT_LOCALE, "app.shortName"),
+    description: translate(DEFAULT_LOCALE, "app.description"),
+    start_url: "/",
+    display: "standalone",
+    background_color: "#ffffff",
+    theme_color: THEME_COLOR,
+    icons: [
+      { src: "/icon.svg", sizes: "any", type: "image/svg+xml" },
+      {
+        src: "/icon.svg",
+        sizes: "any",
+        type: "image/svg+xml",
+        purpose: "maskable",
+      },
+    ],
+  };
+}
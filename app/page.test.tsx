@@ -0,0 +1,771 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, it, expect } from "vitest";
+import {
+  act,
+  cleanup,
+  fireEvent,
+  render,
+  screen,
+  waitFor,
+} from "@testing-library/react";
+import axe from "axe-core";
+import Home from "./page";
+import I18nProvider from "./components/I18nProvider";
+import SessionProvider, { useSession } from "./components/SessionProvider";
+import { AxiosError, InternalAxiosRequestConfig } from "axios";
+import { apiClient } from "./lib/api";
+import { storeSession } from "./lib/auth";
+import { MessageKey, MessageParams, translate } from "./lib/i18n";
+import {
+  MOCK_USERS,
+  MockScenario,
+  createMockAdapter,
+  publicUser,
+} from "./lib/mockApi";
+import { loadCachedEmployees } from "./lib/employees";
+import { loadOutbox } from "./lib/outbox";
+import { ENTRIES_KEY, loadEntries, saveEntries } from "./lib/storage";
+import { User } from "./lib/types";
+import { testEntry } from "./lib/testing/fixtures";
+
+const en = (key: MessageKey, params?: MessageParams) =>
+  translate("en", key, params);
+
+const userNamed = (username: string): User =>
+  publicUser(MOCK_USERS.find((user) => user.username === username)!);
+const ADMIN = userNamed("admin");
+
+const useMock = (scenario: MockScenario = "success", user = ADMIN) => {
+  apiClient.defaults.adapter = createMockAdapter({
+    scenario,
+    slowMs: 50,
+    signedInAs: user.id,
+  });
+};
+
+/**
+ * Render the page and let its start-up requests (plan, employees, closed
+ * periods, targets) answer inside act
+ */
+const renderHome = async (user = ADMIN) => {
+  const view = render(
+    <I18nProvider initialLocale="en">
+      <SessionProvider initialUser={user}>
+        <Home />
+      </SessionProvider>
+    </I18nProvider>,
+  );
+  await act(() => new Promise((resolve) => setTimeout(resolve, 0)));
+  return view;
+};
+
+const quantityInput = (min: number, max: number) =>
+  screen.getByPlaceholderText(en("form.quantityHint", { min, max }));
+
+const fillForm = (
+  name: string,
+  locks: string,
+  stocks: string,
+  barrels: string,
+) => {
+  fireEvent.change(screen.getByPlaceholderText(en("form.namePlaceholder")), {
+    target: { value: name },
+  });
+  fireEvent.change(quantityInput(1, 70), { target: { value: locks } });
+  fireEvent.change(quantityInput(1, 80), { target: { value: stocks } });
+  fireEvent.change(quantityInput(1, 90), { target: { value: barrels } });
+};
+
+const calculate = () =>
+  fireEvent.click(screen.getByRole("button", { name: en("form.calculate") }));
+
+const historyItems = () =>
+  document.querySelectorAll<HTMLElement>(".history-list .history-item");
+
+const originalAdapter = apiClient.defaults.adapter;
+beforeEach(() => {
+  localStorage.clear();
+  useMock();
+});
+afterEach(() => {
+  cleanup();
+  apiClient.defaults.adapter = originalAdapter;
+  window.history.replaceState(null, "", "/");
+});
+
+/**
+ * FR-02: คำนวณค่าคอมมิชชั่นผ่าน API แสดงสถานะกำลังคำนวณ และบันทึกประวัติลง localStorage
+ */
+describe("FR-02: Commission Calculation on the Home page", () => {
+  it("should show the loading state until the API answers", async () => {
+    useMock("slow");
+    await renderHome();
+    fillForm("Ken", "10", "10", "10");
+    calculate();
+
+    const busy = screen.getByRole("button", { name: en("form.calculating") });
+    expect(busy).toHaveProperty("disabled", true);
+    await screen.findByRole("button", { name: en("form.calculate") });
+    expect(screen.getByText(en("history.entry", { id: 1 }))).toBeTruthy();
+  });
+
+  it("should add the result to the table and persist it", async () => {
+    await renderHome();
+    fillForm("Ken", "10", "10", "10");
+    calculate();
+
+    await waitFor(() => expect(historyItems()).toHaveLength(1));
+    const row = screen.getByRole("row", { name: /Ken/ });
+    expect(row.textContent).toContain("฿1,000.00");
+    expect(row.textContent).toContain("฿100.00");
+    expect(loadEntries()).toMatchObject([
+      { number: 1, name: "Ken", sales: 1000, commission: 100, isValid: true },
+    ]);
+  });
+
+  it("should restore the history saved in localStorage", async () => {
+    localStorage.setItem(
+      ENTRIES_KEY,
+      JSON.stringify([
+        testEntry({ number: 1 }),
+        testEntry({ number: 2, name: "Ann" }),
+      ]),
+    );
+    await renderHome();
+    expect(historyItems()).toHaveLength(2);
+    expect(
+      screen.getByText(en("history.employee", { name: "Ann" })),
+    ).toBeTruthy();
+  });
+});
+
+/**
+ * FR-03, FR-04 & FR-05: ข้อมูลที่ไม่ถูกต้องแสดงข้อความที่ช่องกรอก และบันทึกเป็นรายการที่ไม่ถูกต้องในประวัติ
+ */
+describe("FR-03, FR-04 & FR-05: Invalid Entries on the Home page", () => {
+  it("should show field errors and an invalid history entry", async () => {
+    await renderHome();
+    fillForm("John123", "75", "10", "10");
+    calculate();
+
+    expect(screen.getByText(en("validation.nameLetters"))).toBeTruthy();
+    await waitFor(() => expect(historyItems()).toHaveLength(1));
+    const [item] = historyItems();
+    expect(item.className).toContain("history-item-error");
+    expect(item.textContent).toContain(en("common.invalidData"));
+    expect(item.querySelector(".error-text")?.textContent).toContain("Locks");
+    expect(screen.queryByRole("row", { name: /John123/ })).toBeNull();
+  });
+
+  it("should highlight the fields rejected by the server", async () => {
+    useMock("validation");
+    await renderHome();
+    fillForm("Ken", "10", "10", "10");
+    calculate();
+
+    await waitFor(() => expect(historyItems()).toHaveLength(1));
+    const highlighted = historyItems()[0].querySelectorAll(".error-text");
+    expect([...highlighted].map((span) => span.textContent)).toEqual([
+      "Locks : 10",
+    ]);
+  });
+});
+
+/**
+ * FR-15: ลบรายการและเคลียร์ประวัติ รายการที่ลบย้ายไปถังขยะ
+ */
+describe("FR-15: Delete and Clear on the Home page", () => {
+  beforeEach(() => {
+    localStorage.setItem(
+      ENTRIES_KEY,
+      JSON.stringify([
+        testEntry({ number: 1 }),
+        testEntry({ number: 2, name: "Ann" }),
+      ]),
+    );
+  });
+
+  it("should move a deleted entry to the trash", async () => {
+    await renderHome();
+    fireEvent.click(screen.getAllByTitle(en("history.moveToTrash"))[0]);
+
+    expect(historyItems()).toHaveLength(1);
+    expect(loadEntries().map((entry) => entry.number)).toEqual([2]);
+    expect(screen.getByText(en("nav.trash", { count: 1 }))).toBeTruthy();
+  });
+
+  it("should not delete entries while a calculation is running", async () => {
+    useMock("slow");
+    await renderHome();
+    fireEvent.click(historyItems()[0].querySelector(".btn-edit")!);
+    fireEvent.click(screen.getByRole("button", { name: en("form.saveEdit") }));
+
+    const deleteButtons = [...historyItems()].map((item) =>
+      item.querySelector<HTMLButtonElement>(".btn-delete")!,
+    );
+    expect(deleteButtons.every((button) => button.disabled)).toBe(true);
+    await waitFor(() =>
+      expect(deleteButtons.every((button) => button.disabled)).toBe(false),
+    );
+  });
+
+  it("should clear the whole history", async () => {
+    await renderHome();
+    fireEvent.click(
+      screen.getByRole("button", { name: en("history.clearAll") }),
+    );
+
+    expect(historyItems()).toHaveLength(0);
+    expect(loadEntries()).toEqual([]);
+    expect(screen.getByText(en("nav.trash", { count: 2 }))).toBeTruthy();
+  });
+});
+
+/**
+ * FR-21: พนักงานขายเห็นและคำนวณเฉพาะรายการของตนเอง ผู้จัดการเห็นรายการของทีม
+ */
+describe("FR-21: Role-based Access on the Home page", () => {
+  beforeEach(() => {
+    localStorage.setItem(
+      ENTRIES_KEY,
+      JSON.stringify([
+        testEntry({ number: 1, name: "ฐากูร", employeeId: "E001" }),
+        testEntry({ number: 2, name: "เคน", employeeId: "E002" }),
+        testEntry({ number: 3, name: "เอกรินทร์", employeeId: "E003" }),
+      ]),
+    );
+  });
+
+  it("should show a rep only their own entries and lock the name", async () => {
+    const rep = userNamed("thakun");
+    useMock("success", rep);
+    await renderHome(rep);
+
+    expect(historyItems()).toHaveLength(1);
+    expect(
+      screen.getByText(en("history.employee", { name: "ฐากูร" })),
+    ).toBeTruthy();
+    expect(screen.queryByRole("link", { name: en("nav.plan") })).toBeNull();
+    const nameInput = screen.getByPlaceholderText<HTMLInputElement>(
+      en("form.namePlaceholder"),
+    );
+    await waitFor(() => expect(nameInput.value).toBe("ฐากูร"));
+    expect(nameInput.disabled).toBe(true);
+  });
+
+  it("should end the session on a 401 only, not on a server error", async () => {
+    const answering =
+      (status: number) => (config: InternalAxiosRequestConfig) => {
+        const response = {
+          status,
+          statusText: "",
+          data: "",
+          headers: {},
+          config,
+        };
+        throw new AxiosError(
+          "failed",
+          "ERR_BAD_RESPONSE",
+          config,
+          null,
+          response,
+        );
+      };
+    const Status = () => (
+      <span data-testid="status">{useSession().status}</span>
+    );
+    const renderSession = () =>
+      render(
+        <SessionProvider>
+          <Status />
+        </SessionProvider>,
+      );
+    storeSession(ADMIN);
+
+    apiClient.defaults.adapter = answering(500);
+    const failed = renderSession();
+    await waitFor(() =>
+      expect(screen.getByTestId("status").textContent).toBe("signedIn"),
+    );
+    failed.unmount();
+
+    apiClient.defaults.adapter = answering(401);
+    renderSession();
+    await waitFor(() =>
+      expect(screen.getByTestId("status").textContent).toBe("signedOut"),
+    );
+  });
+
+  it("should refuse imported rows for employees outside the manager's team", async () => {
+    const manager = userNamed("north.manager");
+    useMock("success", manager);
+    localStorage.clear();
+    await renderHome(manager);
+    await waitFor(() => expect(loadCachedEmployees()).not.toHaveLength(0));
+
+    const csv = "name,locks,stocks,barrels\nฐากูร,10,10,10\nเคน,10,10,10\n";
+    fireEvent.change(document.querySelector(".btn-import input")!, {
+      target: { files: [new File([csv], "sales.csv", { type: "text/csv" })] },
+    });
+    fireEvent.click(
+      await screen.findByRole("button", {
+        name: en("import.calculateRows", { count: 2 }),
+      }),
+    );
+
+    await waitFor(() => expect(loadEntries()).toHaveLength(1));
+    expect(loadEntries()[0]).toMatchObject({ name: "ฐากูร", isValid: true });
+    expect(
+      await screen.findByText(en("import.rejected", { count: 1 })),
+    ).toBeTruthy();
+    expect(screen.getByText(en("errors.forbidden"))).toBeTruthy();
+  });
+
+  it("should show a manager the team's entries", async () => {
+    const manager = userNamed("north.manager");
+    useMock("success", manager);
+    await renderHome(manager);
+
+    // ทีม North คือ E001 และ E003
+    await waitFor(() => expect(historyItems()).toHaveLength(2));
+    expect(
+      screen.getByRole("link", { name: en("nav.approvals", { count: 0 }) }),
+    ).toBeTruthy();
+  });
+});
+
+/**
+ * FR-22: พนักงานขายส่งรายการให้อนุมัติ ได้รับแจ้งเมื่อสถานะเปลี่ยน
+ * และรายการที่อนุมัติแล้วแก้ไขหรือลบไม่ได้
+ */
+describe("FR-22: Approval Workflow on the Home page", () => {
+  const rep = userNamed("thakun");
+  const manager = userNamed("north.manager");
+
+  beforeEach(() => {
+    useMock("success", rep);
+    localStorage.setItem(
+      ENTRIES_KEY,
+      JSON.stringify([
+        testEntry({ number: 1, name: "ฐากูร", employeeId: "E001" }),
+        testEntry({
+          number: 2,
+          name: "ฐากูร",
+          employeeId: "E001",
+          status: "approved",
+          statusHistory: [
+            {
+              status: "approved",
+              changedAt: "2026-10-02T09:00:00.000Z",
+              userId: manager.id,
+              name: manager.name,
+            },
+          ],
+        }),
+      ]),
+    );
+  });
+
+  it("should submit a draft for approval", async () => {
+    await renderHome(rep);
+    fireEvent.click(screen.getByRole("button", { name: en("history.submit") }));
+
+    expect(loadEntries().find((entry) => entry.id === "1")).toMatchObject({
+      status: "submitted",
+      statusHistory: [{ status: "submitted", userId: rep.id }],
+    });
+    expect(
+      screen.getByRole("button", { name: en("history.withdraw") }),
+    ).toBeTruthy();
+  });
+
+  it("should credit an edit to the signed-in user", async () => {
+    await renderHome(rep);
+    fireEvent.click(historyItems()[0].querySelector(".btn-edit")!);
+    fireEvent.change(quantityInput(1, 70), { target: { value: "12" } });
+    fireEvent.click(screen.getByRole("button", { name: en("form.saveEdit") }));
+
+    await waitFor(() =>
+      expect(loadEntries()[0].revisions).toMatchObject([
+        { changedBy: rep.id, name: rep.name, previous: { locks: 10 } },
+      ]),
+    );
+    fireEvent.click(screen.getByText(en("history.revisions", { count: 1 })));
+    expect(historyItems()[0].textContent).toContain(rep.name);
+  });
+
+  it("should make approved entries read-only", async () => {
+    await renderHome(rep);
+    const [draft, approved] = historyItems();
+
+    expect(
+      approved.querySelector<HTMLButtonElement>(".btn-edit")?.disabled,
+    ).toBe(true);
+    expect(
+      approved.querySelector<HTMLButtonElement>(".btn-delete")?.title,
+    ).toBe(en("history.readOnly"));
+    expect(draft.querySelector<HTMLButtonElement>(".btn-edit")?.disabled).toBe(
+      false,
+    );
+  });
+
+  it("should notify the rep of status changes until marked as read", async () => {
+    await renderHome(rep);
+    const change = en("notifications.change", {
+      id: 2,
+      name: "ฐากูร",
+      status: en("status.approved"),
+      by: manager.name,
+    });
+    expect(screen.getByText(change)).toBeTruthy();
+
+    fireEvent.click(
+      screen.getByRole("button", { name: en("notifications.markRead") }),
+    );
+    expect(screen.queryByText(change)).toBeNull();
+  });
+});
+
+/**
+ * FR-23: ค้นหาและเรียงประวัติบนหน้าแรก โดยเก็บตัวกรองไว้ใน URL
+ */
+describe("FR-23: Search and Sort on the Home page", () => {
+  beforeEach(() => {
+    localStorage.setItem(
+      ENTRIES_KEY,
+      JSON.stringify([
+        testEntry({ number: 1, name: "Ken", commission: 100 }),
+        testEntry({ number: 2, name: "Ann", commission: 300 }),
+        testEntry({ number: 3, name: "Kenji", commission: 200 }),
+      ]),
+    );
+  });
+
+  const resultNames = () =>
+    [...document.querySelectorAll(".results-table tbody tr")].map(
+      (row) => row.children[1].textContent,
+    );
+
+  it("should filter by name and keep the search in the URL", async () => {
+    await renderHome();
+    fireEvent.change(screen.getByLabelText(en("filters.search")), {
+      target: { value: "ken" },
+    });
+
+    expect(historyItems()).toHaveLength(2);
+    expect(resultNames()).toEqual(["Ken", "Kenji"]);
+    expect(window.location.search).toBe("?q=ken");
+    expect(
+      screen.getByText(en("filters.showing", { shown: 2, total: 3 })),
+    ).toBeTruthy();
+  });
+
+  it("should open a shared view from the URL and sort by a column", async () => {
+    window.history.replaceState(null, "", "/?sort=commission&dir=desc");
+    await renderHome();
+    expect(resultNames()).toEqual(["Ann", "Kenji", "Ken"]);
+
+    fireEvent.click(
+      screen.getByRole("button", { name: en("common.employeeName") }),
+    );
+    expect(resultNames()).toEqual(["Ann", "Ken", "Kenji"]);
+    expect(window.location.search).toBe("?sort=name");
+  });
+});
+
+/**
+ * FR-24: ข้อมูลที่อ่านไม่ได้ถูกแยกเก็บพร้อมแจ้งผู้ใช้ และการเปลี่ยนแปลงจากแท็บอื่นแสดงทันที
+ */
+describe("FR-24: Storage Recovery and Cross-tab Sync on the Home page", () => {
+  it("should load the readable entries and report the rest", async () => {
+    localStorage.setItem(
+      ENTRIES_KEY,
+      JSON.stringify([testEntry({ number: 1 }), { id: 2 }]),
+    );
+    await renderHome();
+
+    expect(historyItems()).toHaveLength(1);
+    expect(
+      screen.getByText(en("home.storageRecovered", { count: 1 })),
+    ).toBeTruthy();
+  });
+
+  it("should show entries saved in another tab", async () => {
+    await renderHome();
+    expect(historyItems()).toHaveLength(0);
+
+    saveEntries([testEntry({ number: 1 }), testEntry({ number: 2 })], 3);
+    fireEvent(window, new StorageEvent("storage", { key: ENTRIES_KEY }));
+
+    expect(historyItems()).toHaveLength(2);
+    expect(screen.getByText(en("history.entry", { id: 2 }))).toBeTruthy();
+  });
+
+  it("should give new entries a UUID and the next number", async () => {
+    saveEntries([testEntry({ number: 4 })], 5);
+    await renderHome();
+    fillForm("Ann", "10", "10", "10");
+    calculate();
+
+    await waitFor(() => expect(historyItems()).toHaveLength(2));
+    // รายการถูกเขียนลง localStorage ใน effect หลัง render
+    await waitFor(() =>
+      expect(loadEntries().find((entry) => entry.name === "Ann")).toMatchObject(
+        { number: 5, id: expect.stringMatching(/^[0-9a-f-]{36}$/) },
+      ),
+    );
+  });
+});
+
+/**
+ * FR-26: ฟอร์มใช้งานด้วยคีย์บอร์ดได้ทั้งหมด label ผูกกับช่องกรอก ข้อผิดพลาดและผลลัพธ์
+ * ถูกประกาศให้โปรแกรมอ่านหน้าจอ และผ่านการตรวจด้วย axe-core
+ */
+describe("FR-26: Accessible, Keyboard-first Calculator", () => {
+  const nameField = () =>
+    screen.getByLabelText<HTMLInputElement>(en("common.employeeName"));
+  const submitForm = () => fireEvent.submit(nameField().form!);
+  const liveRegion = () =>
+    document.querySelector<HTMLElement>('.sr-only[role="status"]')!;
+
+  it("should link every label to its field", async () => {
+    await renderHome();
+    expect(nameField().placeholder).toBe(en("form.namePlaceholder"));
+    expect(screen.getByLabelText(en("form.salesDate"))).toHaveProperty(
+      "type",
+      "date",
+    );
+    for (const label of ["Locks", "Stocks", "Barrels"]) {
+      expect(screen.getByLabelText(label)).toHaveProperty("type", "number");
+    }
+  });
+
+  it("should describe invalid fields and focus the first one", async () => {
+    await renderHome();
+    fillForm("Ken", "", "10", "10");
+    submitForm();
+
+    const locks = screen.getByLabelText("Locks");
+    expect(locks.getAttribute("aria-invalid")).toBe("true");
+    const description = document.getElementById(
+      locks.getAttribute("aria-describedby")!,
+    );
+    expect(description?.textContent).toBeTruthy();
+    expect(document.activeElement).toBe(locks);
+    expect(liveRegion().textContent).toContain(
+      en("form.errorsAnnounced", { id: 1, errors: "" }),
+    );
+  });
+
+  it("should keep an invalid edit in the form and focus the invalid field", async () => {
+    localStorage.setItem(ENTRIES_KEY, JSON.stringify([testEntry({})]));
+    await renderHome();
+    fireEvent.click(historyItems()[0].querySelector(".btn-edit")!);
+    fireEvent.change(quantityInput(1, 80), { target: { value: "" } });
+    submitForm();
+
+    const stocks = screen.getByLabelText<HTMLInputElement>("Stocks");
+    expect(document.activeElement).toBe(stocks);
+    expect(nameField().value).toBe("Ken");
+    expect(
+      screen.getByRole("button", { name: en("form.saveEdit") }),
+    ).toBeTruthy();
+    expect(loadEntries()[0]).toMatchObject({ id: "1", isValid: false });
+  });
+
+  it("should calculate on Enter, announce the result and start the next row", async () => {
+    await renderHome();
+    fillForm("Ken", "10", "10", "10");
+    submitForm();
+
+    await waitFor(() =>
+      expect(liveRegion().textContent).toBe(
+        en("form.resultAnnounced", {
+          id: 1,
+          name: "Ken",
+          commission: "฿100.00",
+        }),
+      ),
+    );
+    expect(nameField().value).toBe("");
+    expect(document.activeElement).toBe(nameField());
+  });
+
+  it("should clear the form on Escape and undo with Ctrl+Z in an empty field", async () => {
+    await renderHome();
+    fillForm("Ken", "10", "10", "10");
+    submitForm();
+    await waitFor(() => expect(historyItems()).toHaveLength(1));
+
+    fillForm("Ann", "5", "", "");
+    fireEvent.keyDown(nameField(), { key: "Escape" });
+    expect(nameField().value).toBe("");
+    expect(screen.getByLabelText<HTMLInputElement>("Locks").value).toBe("");
+
+    fireEvent.keyDown(nameField(), { key: "z", ctrlKey: true });
+    expect(historyItems()).toHaveLength(0);
+  });
+
+  it("should point the combobox at the active suggestion", async () => {
+    await renderHome();
+    const name = nameField();
+    fireEvent.change(name, { target: { value: "e" } });
+    fireEvent.keyDown(name, { key: "ArrowDown" });
+
+    const listbox = screen.getByRole("listbox");
+    expect(name.getAttribute("aria-controls")).toBe(listbox.id);
+    const active = document.getElementById(
+      name.getAttribute("aria-activedescendant")!,
+    );
+    expect(active?.getAttribute("aria-selected")).toBe("true");
+    expect(listbox.contains(active)).toBe(true);
+    expect(screen.getAllByRole("option").indexOf(active!)).toBe(1);
+
+    fireEvent.keyDown(name, { key: "Escape" });
+    expect(name.hasAttribute("aria-controls")).toBe(false);
+    expect(name.hasAttribute("aria-activedescendant")).toBe(false);
+  });
+
+  it("should pass the axe-core checks", async () => {
+    localStorage.setItem(
+      ENTRIES_KEY,
+      JSON.stringify([
+        testEntry({ number: 1 }),
+        testEntry({ number: 2, isValid: false, sales: 0, commission: 0 }),
+      ]),
+    );
+    const { container } = await renderHome();
+    fillForm("Ken", "", "10", "10");
+    submitForm();
+
+    // หน้ายังอัปเดตระหว่างที่ axe ตรวจ จึงรอผลภายใน act
+    const { violations } = await act(() =>
+      axe.run(container, {
+        runOnly: { type: "tag", values: ["wcag2a", "wcag2aa", "wcag21aa"] },
+        // jsdom ไม่มีการจัดวางหน้าจอ คำนวณความต่างของสีไม่ได้
+        rules: { "color-contrast": { enabled: false } },
+      }),
+    );
+    expect(
+      violations.map(({ id, nodes }) => `${id}: ${nodes[0].html}`),
+    ).toEqual([]);
+  });
+});
+
+/**
+ * FR-27: ขยายแถวในตารางผลลัพธ์เพื่อดูที่มาของยอดขายและค่าคอมมิชชั่นแต่ละขั้น
+ */
+describe("FR-27: Commission Breakdown in the results table", () => {
+  const toggle = (number: number) =>
+    screen.getByRole("button", {
+      name: en("breakdown.toggle", { id: number }),
+    });
+
+  it("should expand a row into the item amounts and tier slices", async () => {
+    await renderHome();
+    fillForm("Ken", "20", "20", "20");
+    calculate();
+    await waitFor(() => expect(historyItems()).toHaveLength(1));
+
+    expect(toggle(1).getAttribute("aria-expanded")).toBe("false");
+    fireEvent.click(toggle(1));
+    expect(toggle(1).getAttribute("aria-expanded")).toBe("true");
+
+    const details = document.getElementById(
+      toggle(1).getAttribute("aria-controls")!,
+    )!;
+    const rows = [...details.querySelectorAll(".breakdown-table tbody tr")].map(
+      (row) => [...row.children].map((cell) => cell.textContent),
+    );
+    expect(rows).toEqual([
+      ["Locks", "20", "× ฿45.00", "฿900.00"],
+      ["Stocks", "20", "× ฿30.00", "฿600.00"],
+      ["Barrels", "20", "× ฿25.00", "฿500.00"],
+      [
+        en("breakdown.rangeUpTo", { from: "฿0.00", upTo: "฿1,000.00" }),
+        "฿1,000.00",
+        "× 10%",
+        "฿100.00",
+      ],
+      [
+        en("breakdown.rangeUpTo", { from: "฿1,000.00", upTo: "฿1,800.00" }),
+        "฿800.00",
+        "× 15%",
+        "฿120.00",
+      ],
+      [
+        en("breakdown.rangeAbove", { from: "฿1,800.00" }),
+        "฿200.00",
+        "× 20%",
+        "฿40.00",
+      ],
+    ]);
+
+    fireEvent.click(toggle(1));
+    expect(document.querySelector(".breakdown-row")).toBeNull();
+  });
+
+  it("should say so when an old entry cannot be explained", async () => {
+    localStorage.setItem(
+      ENTRIES_KEY,
+      JSON.stringify([testEntry({ commission: 150 })]),
+    );
+    await renderHome();
+
+    fireEvent.click(toggle(1));
+    expect(screen.getByText(en("breakdown.unavailable"))).toBeTruthy();
+  });
+});
+
+/**
+ * FR-28: คำนวณขณะออฟไลน์แล้วเก็บในคิว เมื่อกลับมาออนไลน์ส่งให้เซิร์ฟเวอร์คำนวณใหม่
+ * และแก้ไขรายการเดิม พร้อมแสดงจำนวนที่รอตรวจสอบ
+ */
+describe("FR-28: Offline Outbox on the Home page", () => {
+  it("should queue an offline calculation and verify it once back online", async () => {
+    apiClient.defaults.adapter = (config) => {
+      throw new AxiosError("Network Error", "ERR_NETWORK", config);
+    };
+    await renderHome();
+    fillForm("Ken", "10", "10", "10");
+    calculate();
+
+    await waitFor(
+      () =>
+        expect(
+          screen.getByText(en("sync.outboxCount", { count: 1 })),
+        ).toBeTruthy(),
+      { timeout: 3000 },
+    );
+    const [queued] = loadOutbox();
+    expect(queued.request).toEqual({
+      name: "Ken",
+      locks: 10,
+      stocks: 10,
+      barrels: 10,
+    });
+    expect(loadEntries()[0]).toMatchObject({
+      id: queued.entryId,
+      calculatedOffline: true,
+    });
+
+    useMock();
+    act(() => {
+      window.dispatchEvent(new Event("online"));
+    });
+
+    await waitFor(() => expect(loadOutbox()).toEqual([]), { timeout: 3000 });
+    await waitFor(() =>
+      expect(loadEntries()).toMatchObject([
+        {
+          id: queued.entryId,
+          number: 1,
+          calculatedOffline: false,
+          revisions: [{ changedBy: "server-verification" }],
+        },
+      ]),
+    );
+    expect(historyItems()).toHaveLength(1);
+    expect(screen.queryByText(en("sync.outboxCount", { count: 1 }))).toBeNull();
+  });
+});
@@ -1,43 +1,155 @@
 'use client';
-import { useState, useEffect } from 'react';
-import { Entry, FieldErrors } from './lib/types';
+import { Fragment, useState, useEffect, useRef } from 'react';
+import Link from 'next/link';
+import { AppError, Employee, Entry, EntryStatus, FieldErrors } from './lib/types';
 import { validateName, validateNumericField, validateInputRanges } from './lib/validation';
-import { calculateCommission as calculateCommissionAPI } from './lib/api';
+import { BatchProgress, calculateCommission as calculateCommissionAPI, calculateCommissionBatch } from './lib/api';
+import {
+  CHANGED_BY_SERVER_VERIFICATION,
+  entryFromResponse,
+  invalidEntry,
+  newEntryId,
+  reviseEntry
+} from './lib/entries';
+import { AcceptedRow, RejectedRow } from './lib/import';
+import { CommissionPlan, DEFAULT_PLAN, ITEM_KEYS, ItemKey, loadActivePlan, quantityHint } from './lib/plan';
+import { displayName, findEmployeeByName, loadEmployees } from './lib/employees';
+import { canCalculateFor } from './lib/auth';
+import { canChangeStatus, changeStatuses, isReadOnly, statusOf } from './lib/approval';
+import { closedPeriodError, isEntryLocked, periodOf, todayIso } from './lib/periods';
+import { targetProgresses } from './lib/targets';
+import { appError, hasFieldError } from './lib/errors';
+import { SortKey, filterEntries, paginate, sortEntries, toggleSort } from './lib/historyQuery';
+import { useClosedPeriods } from './hooks/useClosedPeriods';
+import { useHistory } from './hooks/useHistory';
+import { useHistoryQuery } from './hooks/useHistoryQuery';
+import { useOutbox } from './hooks/useOutbox';
+import { useTargets } from './hooks/useTargets';
+import { useUndoShortcuts } from './hooks/useUndoShortcuts';
+import BreakdownDetails from './components/BreakdownDetails';
+import BulkImport from './components/BulkImport';
+import EmployeeAutocomplete from './components/EmployeeAutocomplete';
+import EntryStatusLine from './components/EntryStatusLine';
+import ExportMenu from './components/ExportMenu';
+import HistoryFilters from './components/HistoryFilters';
+import Pagination from './components/Pagination';
+import StatusNotifications from './components/StatusNotifications';
+import SyncIndicator from './components/SyncIndicator';
+import UndoToast from './components/UndoToast';
+import { useI18n } from './components/I18nProvider';
+import { useSession } from './components/SessionProvider';
+const NO_FIELD_ERRORS: FieldErrors = { name: null, locks: null, stocks: null, barrels: null };
+const FIELD_IDS: Record<keyof FieldErrors, string> = {
+  name: 'employee-name',
+  locks: 'quantity-locks',
+  stocks: 'quantity-stocks',
+  barrels: 'quantity-barrels'
+};
+const FIELD_ORDER = Object.keys(FIELD_IDS) as (keyof FieldErrors)[];
+const SALES_DATE_ID = 'sales-date';
+const errorIdOf = (field: keyof FieldErrors) => `${FIELD_IDS[field]}-error`;
 export default function Home() {
-  const [name, setName] = useState('');
+  const [nameInput, setName] = useState('');
+  const [selectedEmployeeId, setEmployeeId] = useState<string | undefined>();
+  const [employees, setEmployees] = useState<Employee[]>([]);
   const [locks, setLocks] = useState('');
   const [stocks, setStocks] = useState('');
   const [barrels, setBarrels] = useState('');
+  const quantities: Record<ItemKey, string> = { locks, stocks, barrels };
+  const setQuantity: Record<ItemKey, (value: string) => void> = { locks: setLocks, stocks: setStocks, barrels: setBarrels };
+  const [announcement, setAnnouncement] = useState('');
+  const focusRef = useRef<string | null>(null);
+  const [date, setDate] = useState(todayIso);
+  const { closedPeriods } = useClosedPeriods();
+  const [editingEntry, setEditingEntry] = useState<Entry | undefined>();
   const [isLoading, setIsLoading] = useState(false);
-  const [entries, setEntries] = useState<Entry[]>(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('commissionEntries');
-      return saved ? JSON.parse(saved) : [];
-    }
-    return [];
+  const [bulkProgress, setBulkProgress] = useState<BatchProgress | null>(null);
+  const [plan, setPlan] = useState<CommissionPlan>(DEFAULT_PLAN);
+  const [expandedIds, setExpandedIds] = useState<string[]>([]);
+  const toggleBreakdown = (id: string) =>
+    setExpandedIds(ids => (ids.includes(id) ? ids.filter(other => other !== id) : [...ids, id]));
+  const {
+    entries,
+    nextNumber,
+    addEntries,
+    updateEntries,
+    deleteEntries,
+    clearHistory,
+    trash,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    lastAction,
+    dismissLastAction,
+    syncStatus,
+    pendingCount,
+    syncErrors,
+    removedElsewhere,
+    dismissRemovedElsewhere,
+    unreadableCount,
+    dismissUnreadable
+  } = useHistory();
+  const { targets } = useTargets();
+  const progresses = targetProgresses(targets, entries);
+  const { outboxCount, isReplaying, queueEntries, replay } = useOutbox({
+    entries,
+    updateEntries,
+    plan,
+    isLocked: entry => isEntryLocked(closedPeriods, entry)
   });
-  const [entryCount, setEntryCount] = useState(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('commissionEntryCount');
-      return saved ? parseInt(saved) : 0;
-    }
-    return 0;
+  useEffect(() => {
+    // เซิร์ฟเวอร์ตอบแล้ว แม้เบราว์เซอร์จะไม่ได้ส่ง event online มา
+    if (syncStatus === 'synced') void replay();
+  }, [syncStatus, replay]);
+  const { query, updateQuery, resetQuery } = useHistoryQuery();
+  const [fieldErrors, setFieldErrors] = useState<FieldErrors>(NO_FIELD_ERRORS);
+  const [formError, setFormError] = useState<AppError | null>(null);
+  const { t, tm, te, currency, dateTime } = useI18n();
+  const { user, can } = useSession();
+  // พนักงานขายคำนวณได้เฉพาะในชื่อตนเอง
+  const ownEmployee = employees.find(employee => employee.id === user?.employeeId);
+  const ownName = user && !can('calculateForOthers') ? (ownEmployee ? displayName(ownEmployee) : user.name) : null;
+  const selectableEmployees = user ? employees.filter(employee => canCalculateFor(user, employee)) : [];
+  // คำขอที่กำลังรอผล ถูกยกเลิกเมื่อรีเซ็ตฟอร์มหรือออกจากหน้า
+  const requestRef = useRef<AbortController | null>(null);
+  useEffect(() => {
+    loadActivePlan().then(setPlan);
+    loadEmployees().then(setEmployees);
+    return () => requestRef.current?.abort();
+  }, []);
+  const startRequest = () => {
+    requestRef.current?.abort();
+    requestRef.current = new AbortController();
+    return requestRef.current.signal;
+  };
+  useUndoShortcuts(undo, redo);
+  useEffect(() => {
+    // ช่องถูกปิดระหว่างคำนวณ ย้ายโฟกัสได้หลังจากเปิดใช้งานอีกครั้ง
+    if (isLoading || !focusRef.current) return;
+    const id = focusRef.current;
+    focusRef.current = null;
+    document.getElementById(id)?.focus();
   });
-  const [fieldErrors, setFieldErrors] = useState<FieldErrors>({
-    name: '',
-    locks: '',
-    stocks: '',
-    barrels: ''
+  const focusField = (id: string) => {
+    const field = document.getElementById(id);
+    field?.focus();
+    focusRef.current = document.activeElement === field ? null : id;
+  };
+  /** Name field, or the first quantity for reps whose name is fixed */
+  const focusFirstField = () => focusField(ownName !== null ? FIELD_IDS.locks : FIELD_IDS.name);
+  const withEmployee = (entry: Entry, id?: string): Entry => ({
+    ...entry,
+    ...(id ? { employeeId: id } : {}),
+    ...(user ? { createdBy: user.id } : {})
   });
-  useEffect(() => {
-    localStorage.setItem('commissionEntries', JSON.stringify(entries));
-    localStorage.setItem('commissionEntryCount', entryCount.toString());
-  }, [entries, entryCount]);
   const handleCalculate = async () => {
+    const name = ownName ?? nameInput;
+    const employeeId = ownName !== null ? user?.employeeId : selectedEmployeeId;
     const nameError = validateName(name);
-    const locksError = validateNumericField(locks, 'Locks');
-    const stocksError = validateNumericField(stocks, 'Stocks');
-    const barrelsError = validateNumericField(barrels, 'Barrels');
+    const locksError = validateNumericField(locks, 'locks', plan);
+    const stocksError = validateNumericField(stocks, 'stocks', plan);
+    const barrelsError = validateNumericField(barrels, 'barrels', plan);
     const newFieldErrors: FieldErrors = {
       name: nameError,
       locks: locksError,
@@ -45,263 +157,527 @@ export default function Home() {
       barrels: barrelsError
     };
     setFieldErrors(newFieldErrors);
+    setFormError(null);
+    const invalidField = FIELD_ORDER.find(field => newFieldErrors[field]);
+    if (invalidField) focusField(FIELD_IDS[invalidField]);
     const l = parseInt(locks) || 0;
     const s = parseInt(stocks) || 0;
     const b = parseInt(barrels) || 0;
-    const allErrors: string[] = [];
+    const allErrors: AppError[] = [];
     if (nameError) allErrors.push(nameError);
     if (locksError) allErrors.push(locksError);
     if (stocksError) allErrors.push(stocksError);
     if (barrelsError) allErrors.push(barrelsError);
-    const rangeErrors = validateInputRanges(l, s, b);
+    const rangeErrors = validateInputRanges(l, s, b, plan);
     allErrors.push(...rangeErrors);
+    const periodError = closedPeriodError(closedPeriods, { employeeId, name, period: periodOf(date) });
+    if (periodError) allErrors.push(periodError);
     const isClientValid = allErrors.length === 0;
+    const request = { name: name.trim(), locks: l, stocks: s, barrels: b };
+    const id = editingEntry ?? { id: newEntryId(), number: nextNumber };
     if (!isClientValid) {
-      const newEntry: Entry = {
-        id: entryCount + 1,
-        name: name || 'Employee',
-        locks: l,
-        stocks: s,
-        barrels: b,
-        sales: 0,
-        commission: 0,
-        isValid: false,
-        errors: allErrors
-      };
-      setEntries([...entries, newEntry]);
-      setEntryCount(entryCount + 1);
+      saveEntry(withEmployee(invalidEntry(id, { ...request, name }, allErrors, date), employeeId));
       return;
     }
     setIsLoading(true);
     try {
-      const response = await calculateCommissionAPI({
-        name: name.trim(),
-        locks: l,
-        stocks: s,
-        barrels: b
-      });
-      if (response.success && response.data) {
-        const newEntry: Entry = {
-          id: entryCount + 1,
-          name: response.data.name,
-          locks: response.data.locks,
-          stocks: response.data.stocks,
-          barrels: response.data.barrels,
-          sales: response.data.sales,
-          commission: response.data.commission,
-          isValid: true,
-          errors: []
-        };
-        setEntries([...entries, newEntry]);
-        setEntryCount(entryCount + 1);
-      } else {
-        const newEntry: Entry = {
-          id: entryCount + 1,
-          name: name || 'Employee',
-          locks: l,
-          stocks: s,
-          barrels: b,
-          sales: 0,
-          commission: 0,
-          isValid: false,
-          errors: response.errors || ['Unknown error from server']
-        };
-        setEntries([...entries, newEntry]);
-        setEntryCount(entryCount + 1);
-      }
+      const response = await calculateCommissionAPI(request, { signal: startRequest() });
+      if (response.cancelled) return;
+      saveEntry(withEmployee(entryFromResponse(id, request, response, plan, date), employeeId));
     } catch (error) {
-      const newEntry: Entry = {
-        id: entryCount + 1,
-        name: name || 'Employee',
-        locks: l,
-        stocks: s,
-        barrels: b,
-        sales: 0,
-        commission: 0,
-        isValid: false,
-        errors: [`Error: ${error instanceof Error ? error.message : 'Unknown error'}`]
-      };      
-      setEntries([...entries, newEntry]);
-      setEntryCount(entryCount + 1);
+      const newEntry = invalidEntry(id, request, [
+        appError('UNEXPECTED', null, { message: error instanceof Error ? error.message : 'Unknown error' })
+      ], date);
+      saveEntry(withEmployee(newEntry, employeeId));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  const saveEntry = (entry: Entry) => {
+    setAnnouncement(
+      entry.isValid
+        ? t('form.resultAnnounced', { id: entry.number, name: entry.name, commission: currency(entry.commission) })
+        : t('form.errorsAnnounced', { id: entry.number, errors: entry.errors.map(te).join(', ') })
+    );
+    // เซสชันหมดระหว่างแก้ไข: คงฟอร์มไว้และให้เข้าสู่ระบบใหม่ ไม่ทิ้งการแก้ไขไปเงียบ ๆ
+    if (editingEntry && !user) {
+      setFormError(appError('UNAUTHORIZED'));
+      return;
+    }
+    // ผลที่คำนวณแบบออฟไลน์เข้าคิว ส่งให้เซิร์ฟเวอร์คำนวณใหม่เมื่อกลับมาออนไลน์
+    queueEntries([entry]);
+    if (editingEntry && user) {
+      // ประวัติการแก้ไขบันทึกว่าใครเป็นคนแก้
+      const revised = reviseEntry(editingEntry, entry, user);
+      updateEntries([revised]);
+      // แก้แล้วยังผิด: แก้ต่อจากฉบับที่บันทึกไว้ และโฟกัสช่องที่ผิดช่องแรก
+      if (!entry.isValid) {
+        setEditingEntry(revised);
+        const invalidField = FIELD_ORDER.find(field => hasFieldError(entry.errors, field));
+        if (invalidField) focusField(FIELD_IDS[invalidField]);
+        return;
+      }
+    } else {
+      addEntries([entry]);
+      // ข้อมูลที่ผิดคงไว้ให้แก้ ข้อมูลที่ถูกล้างเพื่อพิมพ์แถวถัดไปได้ทันที
+      if (!entry.isValid) return;
+    }
+    handleReset();
+    focusFirstField();
+  };
+  const handleBulkCalculate = async (rows: AcceptedRow[]): Promise<RejectedRow[]> => {
+    // แถวของพนักงานนอกทีมถูกปฏิเสธ ไม่คำนวณและไม่บันทึก
+    const permitted = (row: AcceptedRow) => {
+      const employee = findEmployeeByName(employees, row.request.name);
+      return !!user && (employee ? canCalculateFor(user, employee) : can('calculateForOthers'));
+    };
+    const refused = rows.filter(row => !permitted(row)).map(row => ({
+      line: row.line,
+      name: row.request.name,
+      errors: [appError('FORBIDDEN', 'name')]
+    }));
+    setIsLoading(true);
+    try {
+      const checked = rows.filter(permitted).map(({ request, date: rowDate }, index) => {
+        const employeeId = findEmployeeByName(employees, request.name)?.id;
+        return {
+          request,
+          rowDate,
+          employeeId,
+          identity: { id: newEntryId(), number: nextNumber + index },
+          periodError: closedPeriodError(closedPeriods, { employeeId, name: request.name, period: periodOf(rowDate) })
+        };
+      });
+      const open = checked.filter(row => !row.periodError);
+      setBulkProgress({ done: 0, total: open.length });
+      const responses = await calculateCommissionBatch(
+        open.map(row => row.request),
+        { onProgress: setBulkProgress }
+      );
+      // แถวที่คำนวณไม่ผ่านยังถูกบันทึกเป็นรายการที่ไม่ถูกต้อง แถวอื่นไม่เสียไปด้วย
+      const imported = checked.map(row => withEmployee(
+        row.periodError
+          ? invalidEntry(row.identity, row.request, [row.periodError], row.rowDate)
+          : entryFromResponse(row.identity, row.request, responses[open.indexOf(row)], plan, row.rowDate),
+        row.employeeId
+      ));
+      queueEntries(imported);
+      addEntries(imported);
     } finally {
       setIsLoading(false);
+      setBulkProgress(null);
     }
+    return refused;
   };
   const handleReset = () => {
+    requestRef.current?.abort();
+    setEditingEntry(undefined);
     setName('');
+    setEmployeeId(undefined);
     setLocks('');
     setStocks('');
     setBarrels('');
-    setFieldErrors({ name: '', locks: '', stocks: '', barrels: '' });
+    setDate(todayIso());
+    setFieldErrors(NO_FIELD_ERRORS);
+    setFormError(null);
   };
+  // รายการในงวดที่ปิดแล้ว และรายการที่อนุมัติแล้ว แก้ไขหรือลบไม่ได้
+  const isFrozen = (entry: Entry) => isEntryLocked(closedPeriods, entry) || isReadOnly(entry);
+  const frozenTitle = (entry: Entry) =>
+    isEntryLocked(closedPeriods, entry) ? t('validation.periodClosed', { period: entry.period }) : t('history.readOnly');
   const handleClearHistory = () => {
-    setEntries([]);
-    setEntryCount(0);
-    localStorage.removeItem('commissionEntries');
-    localStorage.removeItem('commissionEntryCount');
+    // ลบเฉพาะรายการที่ยังแก้ไขได้
+    const frozenCount = entries.filter(isFrozen).length;
+    if (frozenCount === 0) {
+      clearHistory();
+      return;
+    }
+    deleteEntries(entries.filter(entry => !isFrozen(entry)).map(entry => entry.id));
   };
-  const handleDeleteEntry = (id: number) => {
-    setEntries(entries.filter(entry => entry.id !== id));
+  const handleEditEntry = (entry: Entry) => {
+    if (isFrozen(entry)) return;
+    setEditingEntry(entry);
+    setName(entry.name);
+    setEmployeeId(entry.employeeId);
+    setLocks(String(entry.locks));
+    setStocks(String(entry.stocks));
+    setBarrels(String(entry.barrels));
+    setDate(entry.date);
+    setFieldErrors(NO_FIELD_ERRORS);
   };
-  const validEntries = entries.filter(e => e.isValid);
+  const handleDeleteEntry = (id: string) => {
+    const entry = entries.find(e => e.id === id);
+    if (!entry || isFrozen(entry)) return;
+    if (editingEntry?.id === id) handleReset();
+    deleteEntries([id]);
+  };
+  const handleChangeStatus = (targets: Entry[], status: EntryStatus) => {
+    if (!user) return;
+    const changed = changeStatuses(targets, status, user);
+    if (changed.length > 0) updateEntries(changed);
+  };
+  // ไฮไลต์ช่องที่มีข้อผิดพลาด จาก field ของ error
+  const hasItemError = (entry: Entry, key: ItemKey) => !entry.isValid && hasFieldError(entry.errors, key);
+  // ตัวกรองและการเรียงใช้ทั้งตารางผลลัพธ์และประวัติ แต่ละส่วนแบ่งหน้าแยกกัน
+  const matchingEntries = sortEntries(filterEntries(entries, query), query.sort, query.direction);
+  const matchingValid = matchingEntries.filter(e => e.isValid);
+  const resultsPage = paginate(matchingValid, query.page);
+  const historyPage = paginate(matchingEntries, query.historyPage);
+  const sortColumns: { key: SortKey; label: string }[] = [
+    { key: 'id', label: t('common.entryNo') },
+    { key: 'name', label: t('common.employeeName') },
+    { key: 'date', label: t('form.salesDate') },
+    { key: 'sales', label: t('common.sales') },
+    { key: 'commission', label: t('common.commission') }
+  ];
+  const offlineCount = entries.filter(e => e.calculatedOffline && !isEntryLocked(closedPeriods, e)).length;
+  const drafts = entries.filter(e => statusOf(e) === 'draft' && canChangeStatus(user, e, 'submitted'));
+  // รายการที่รอผู้ใช้คนนี้อนุมัติหรือบันทึกการจ่าย
+  const awaitingCount = entries.filter(e => canChangeStatus(user, e, 'approved') || canChangeStatus(user, e, 'paid')).length;
   return (
     <div className="calculator-container">
-      <h1 className="calculator-title">โปรแกรมคำนวณค่าคอมมิชชั่น</h1>
-      <div className="form-group">
-        <label className="form-label">ชื่อพนักงาน</label>
-        <input
-          type="text"
-          className={`form-input ${fieldErrors.name ? 'input-error' : ''}`}
-          placeholder="ตัวอย่างเช่น Ken หรือ ฐากูร"
-          value={name}
-          onChange={(e) => {
-            setName(e.target.value);
-            if (fieldErrors.name) setFieldErrors(prev => ({ ...prev, name: '' }));
-          }}
-          disabled={isLoading}
-        />
-        {fieldErrors.name && <div className="field-error-message">{fieldErrors.name}</div>}
-      </div>
-      <div className="form-group">
-        <label className="form-label">Locks</label>
-        <input
-          type="number"
-          className={`form-input ${fieldErrors.locks ? 'input-error' : ''}`}
-          placeholder="ใส่ได้สูงสุด 70 และ ไม่ต่ำกว่า 1 ต้องเป็นตัวเลขเท่านั้น"
-          value={locks}
-          onChange={(e) => {
-            setLocks(e.target.value);
-            if (fieldErrors.locks) setFieldErrors(prev => ({ ...prev, locks: '' }));
-          }}
-          min="1"
-          max="70"
-          disabled={isLoading}
-        />
-        {fieldErrors.locks && <div className="field-error-message">{fieldErrors.locks}</div>}
-      </div>
-      <div className="form-group">
-        <label className="form-label">Stocks</label>
-        <input
-          type="number"
-          className={`form-input ${fieldErrors.stocks ? 'input-error' : ''}`}
-          placeholder="ใส่ได้สูงสุด 80 และ ไม่ต่ำกว่า 1 ต้องเป็นตัวเลขเท่านั้น"
-          value={stocks}
-          onChange={(e) => {
-            setStocks(e.target.value);
-            if (fieldErrors.stocks) setFieldErrors(prev => ({ ...prev, stocks: '' }));
-          }}
-          min="1"
-          max="80"
-          disabled={isLoading}
-        />
-        {fieldErrors.stocks && <div className="field-error-message">{fieldErrors.stocks}</div>}
-      </div>
-      <div className="form-group">
-        <label className="form-label">Barrels</label>
-        <input
-          type="number"
-          className={`form-input ${fieldErrors.barrels ? 'input-error' : ''}`}
-          placeholder="ใส่ได้สูงสุด 90 และ ไม่ต่ำกว่า 1 ต้องเป็นตัวเลขเท่านั้น"
-          value={barrels}
-          onChange={(e) => {
-            setBarrels(e.target.value);
-            if (fieldErrors.barrels) setFieldErrors(prev => ({ ...prev, barrels: '' }));
-          }}
-          min="1"
-          max="90"
-          disabled={isLoading}
-        />
-        {fieldErrors.barrels && <div className="field-error-message">{fieldErrors.barrels}</div>}
-      </div>
-      <div className="button-group">
-        <button 
-          className="btn btn-calculate" 
-          onClick={handleCalculate}
-          disabled={isLoading}
-        >
-          {isLoading ? 'กำลังคำนวณ...' : 'คำนวณ'}
-        </button>
-        <button 
-          className="btn btn-reset" 
-          onClick={handleReset}
-          disabled={isLoading}
-        >
-          เคลียร์ข้อมูล
-        </button>
+      <h1 className="calculator-title">{t('app.title')}</h1>
+      <div className="plan-summary">
+        <span>{t('home.plan', { name: plan.name })}</span>
+        <span className="plan-summary-links">
+          {can('viewEmployees') && <Link href="/employees" className="plan-summary-link">{t('nav.employees')}</Link>}
+          <Link href="/dashboard" className="plan-summary-link">{t('nav.dashboard')}</Link>
+          <Link href="/simulator" className="plan-summary-link">{t('nav.simulator')}</Link>
+          {(can('approve') || can('markPaid')) && (
+            <Link href="/approvals" className="plan-summary-link">{t('nav.approvals', { count: awaitingCount })}</Link>
+          )}
+          {can('closePeriods') && <Link href="/periods" className="plan-summary-link">{t('nav.periods')}</Link>}
+          {can('setTargets') && <Link href="/targets" className="plan-summary-link">{t('nav.targets')}</Link>}
+          {can('managePlans') && <Link href="/plan" className="plan-summary-link">{t('nav.plan')}</Link>}
+          {can('manageUsers') && <Link href="/users" className="plan-summary-link">{t('nav.users')}</Link>}
+          <Link href="/trash" className="plan-summary-link">{t('nav.trash', { count: trash.length })}</Link>
+        </span>
       </div>
+      <SyncIndicator status={syncStatus} pendingCount={pendingCount} outboxCount={outboxCount} isReplaying={isReplaying} />
+      {syncErrors.length > 0 && (
+        <div className="field-error-message" role="alert">{t('home.syncFailed', { errors: syncErrors.map(te).join(', ') })}</div>
+      )}
+      {removedElsewhere.length > 0 && (
+        <div className="sync-notice">
+          <span>{t('home.removedElsewhere', { ids: removedElsewhere.map(entry => entry.number).join(', ') })}</span>
+          <button className="btn-clear-all" onClick={dismissRemovedElsewhere}>{t('common.close')}</button>
+        </div>
+      )}
+      {unreadableCount > 0 && (
+        <div className="sync-notice" role="alert">
+          <span>{t('home.storageRecovered', { count: unreadableCount })}</span>
+          <button className="btn-clear-all" onClick={dismissUnreadable}>{t('common.close')}</button>
+        </div>
+      )}
+      <StatusNotifications entries={entries} />
+      <form
+        className="calculator-form"
+        noValidate
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (!isLoading) handleCalculate();
+        }}
+        onKeyDown={(e) => {
+          if (e.key !== 'Escape' || e.defaultPrevented || isLoading) return;
+          e.preventDefault();
+          handleReset();
+          focusFirstField();
+        }}
+      >
+        <div className="form-group">
+          <label className="form-label" htmlFor={FIELD_IDS.name}>{t('common.employeeName')}</label>
+          <EmployeeAutocomplete
+            id={FIELD_IDS.name}
+            errorId={fieldErrors.name ? errorIdOf('name') : undefined}
+            className={`form-input ${fieldErrors.name ? 'input-error' : ''}`}
+            placeholder={t('form.namePlaceholder')}
+            value={ownName ?? nameInput}
+            employees={selectableEmployees}
+            onChange={(value, employee) => {
+              setName(value);
+              setEmployeeId(employee?.id);
+              if (fieldErrors.name) setFieldErrors(prev => ({ ...prev, name: null }));
+            }}
+            disabled={isLoading || ownName !== null}
+          />
+          {fieldErrors.name && <div id={errorIdOf('name')} className="field-error-message">{te(fieldErrors.name)}</div>}
+        </div>
+        <div className="form-group">
+          <label className="form-label" htmlFor={SALES_DATE_ID}>{t('form.salesDate')}</label>
+          <input
+            id={SALES_DATE_ID}
+            type="date"
+            className="form-input"
+            value={date}
+            onChange={(e) => setDate(e.target.value || todayIso())}
+            disabled={isLoading}
+          />
+        </div>
+        {ITEM_KEYS.map((key) => (
+          <div className="form-group" key={key}>
+            <label className="form-label" htmlFor={FIELD_IDS[key]}>{plan.items[key].label}</label>
+            <input
+              id={FIELD_IDS[key]}
+              type="number"
+              className={`form-input ${fieldErrors[key] ? 'input-error' : ''}`}
+              placeholder={tm(quantityHint(plan.items[key]))}
+              value={quantities[key]}
+              onChange={(e) => {
+                setQuantity[key](e.target.value);
+                if (fieldErrors[key]) setFieldErrors(prev => ({ ...prev, [key]: null }));
+              }}
+              min={plan.items[key].min}
+              max={plan.items[key].max}
+              aria-invalid={fieldErrors[key] ? true : undefined}
+              aria-describedby={fieldErrors[key] ? errorIdOf(key) : undefined}
+              disabled={isLoading}
+            />
+            {fieldErrors[key] && <div id={errorIdOf(key)} className="field-error-message">{te(fieldErrors[key])}</div>}
+          </div>
+        ))}
+        <div className="button-group">
+          <button type="submit" className="btn btn-calculate" aria-keyshortcuts="Enter" disabled={isLoading}>
+            {isLoading ? t('form.calculating') : editingEntry ? t('form.saveEdit') : t('form.calculate')}
+          </button>
+          <button
+            type="button"
+            className="btn btn-reset"
+            aria-keyshortcuts="Escape"
+            onClick={() => {
+              handleReset();
+              focusFirstField();
+            }}
+            disabled={isLoading}
+          >
+            {editingEntry ? t('form.cancelEdit') : t('form.reset')}
+          </button>
+        </div>
+        {formError && <div className="field-error-message" role="alert">{te(formError)}</div>}
+        <p className="text-muted form-shortcuts">{t('form.shortcuts')}</p>
+      </form>
+      <div className="sr-only" role="status" aria-live="polite">{announcement}</div>
+      {can('calculateForOthers') && <BulkImport plan={plan} disabled={isLoading} progress={bulkProgress} onSubmit={handleBulkCalculate} />}
       {entries.length > 0 ? (
         <>
+          <HistoryFilters
+            query={query}
+            onChange={updateQuery}
+            onClear={resetQuery}
+            shown={matchingEntries.length}
+            total={entries.length}
+          />
+          <div className="table-toolbar">
+            <ExportMenu
+              entries={matchingValid}
+              fileName="commission-results"
+              disabled={isLoading}
+              showReport
+              progresses={progresses}
+              closedPeriods={closedPeriods}
+              plan={plan}
+            />
+          </div>
           <div className="table-scroll-container">
             <table className="results-table">
               <thead>
                 <tr>
-                  <th>รายการที่</th>
-                  <th>ชื่อพนักงาน</th>
-                  <th>ยอดขาย</th>
-                  <th>ค่าคอมมิชชั่น</th>
+                  {sortColumns.map(({ key, label }) => (
+                    <th
+                      key={key}
+                      aria-sort={query.sort === key ? (query.direction === 'asc' ? 'ascending' : 'descending') : undefined}
+                    >
+                      <button className="sort-button" onClick={() => updateQuery(toggleSort(query, key))} title={t('sort.by', { column: label })}>
+                        {label}
+                        {query.sort === key && <span aria-hidden="true">{query.direction === 'asc' ? ' ▲' : ' ▼'}</span>}
+                      </button>
+                    </th>
+                  ))}
+                  <th>
+                    <span className="sr-only">{t('breakdown.column')}</span>
+                  </th>
                 </tr>
               </thead>
               <tbody>
-                {validEntries.map((entry) => (
-                  <tr key={entry.id}>
-                    <td>{entry.id}</td>
-                    <td>{entry.name}</td>
-                    <td>{entry.sales} ฿</td>
-                    <td>{entry.commission} ฿</td>
-                  </tr>
-                ))}
+                {resultsPage.items.map((entry) => {
+                  const isExpanded = expandedIds.includes(entry.id);
+                  return (
+                    <Fragment key={entry.id}>
+                      <tr>
+                        <td>{entry.number}</td>
+                        <td>
+                          {entry.employeeId ? <Link href={`/employees/${entry.employeeId}`}>{entry.name}</Link> : entry.name}
+                        </td>
+                        <td>{entry.date}</td>
+                        <td>{currency(entry.sales)}</td>
+                        <td>{currency(entry.commission)}</td>
+                        <td>
+                          <button
+                            className="btn-breakdown"
+                            aria-expanded={isExpanded}
+                            aria-controls={`breakdown-${entry.id}`}
+                            aria-label={t('breakdown.toggle', { id: entry.number })}
+                            onClick={() => toggleBreakdown(entry.id)}
+                          >
+                            {t('breakdown.show')}
+                            <span aria-hidden="true">{isExpanded ? ' ▴' : ' ▾'}</span>
+                          </button>
+                        </td>
+                      </tr>
+                      {isExpanded && (
+                        <tr id={`breakdown-${entry.id}`} className="breakdown-row">
+                          <td colSpan={sortColumns.length + 1}>
+                            <BreakdownDetails entry={entry} plan={plan} />
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  );
+                })}
               </tbody>
             </table>
           </div>
+          <Pagination
+            page={resultsPage.page}
+            pageCount={resultsPage.pageCount}
+            onChange={(page) => updateQuery({ page, historyPage: query.historyPage })}
+            label={t('pagination.results')}
+          />
           <div className="history-section">
             <div className="history-header">
-              <span className="history-title">ประวัติการคำนวณ</span>
+              <span className="history-title">{t('history.title')}</span>
+              <ExportMenu
+                entries={matchingEntries}
+                fileName="commission-history"
+                disabled={isLoading}
+                progresses={progresses}
+                closedPeriods={closedPeriods}
+                plan={plan}
+              />
+              {offlineCount > 0 && (
+                <button
+                  className="btn-verify-offline"
+                  onClick={replay}
+                  disabled={isLoading || isReplaying}
+                >
+                  {t('history.verifyOffline', { count: offlineCount })}
+                </button>
+              )}
+              {drafts.length > 0 && (
+                <button className="btn-clear-all btn-import" onClick={() => handleChangeStatus(drafts, 'submitted')} disabled={isLoading}>
+                  {t('history.submitDrafts', { count: drafts.length })}
+                </button>
+              )}
+              <button className="btn-clear-all btn-undo" onClick={undo} disabled={isLoading || !canUndo} title={t('history.undoShortcut')}>
+                {t('history.undo')}
+              </button>
+              <button className="btn-clear-all btn-undo" onClick={redo} disabled={isLoading || !canRedo} title={t('history.redoShortcut')}>
+                {t('history.redo')}
+              </button>
               <button 
                 className="btn-clear-all" 
                 onClick={handleClearHistory}
                 disabled={isLoading}
               >
-                <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                <svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
                   <polyline points="3 6 5 6 21 6"></polyline>
                   <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path>
                 </svg>
-                เคลียร์ประวัติทั้งหมด
+                {t('history.clearAll')}
               </button>
             </div>
             <div className="history-list">
-              {entries.map((entry) => (
-                <div key={entry.id} className={`history-item ${!entry.isValid ? 'history-item-error' : ''}`}>
+              {historyPage.total === 0 && <p className="empty-state-text">{t('filters.noMatch')}</p>}
+              {historyPage.items.map((entry) => (
+                <div key={entry.id} className={`history-item ${!entry.isValid ? 'history-item-error' : ''} ${editingEntry?.id === entry.id ? 'history-item-editing' : ''}`}>
                   <div className="history-item-left">
-                    <span className="history-item-number">รายการที่ {entry.id}</span>
+                    <span className="history-item-number">{t('history.entry', { id: entry.number })}</span>
                   </div>
                   <div className="history-item-center">
                     <div className="history-item-details">
-                      <span>ชื่อพนักงาน : {entry.name}</span>
-                      <span className="history-item-sales">ยอดขาย : {entry.sales} ฿</span>
+                      <span>{t('history.employee', { name: entry.name })}</span>
+                      <span className="history-item-date">{t('history.date', { date: entry.date })}</span>
+                      <span className="history-item-sales">{t('history.sales', { amount: currency(entry.sales) })}</span>
                     </div>
                     <div className="history-item-inputs">
-                      <span className={!entry.isValid && entry.errors.some(e => e.includes('Locks')) ? 'error-text' : ''}>
-                        Locks : {entry.locks}
+                      <span className={hasItemError(entry, 'locks') ? 'error-text' : ''}>
+                        {t('history.locks', { count: entry.locks })}
                       </span>
-                      <span className={!entry.isValid && entry.errors.some(e => e.includes('Stocks')) ? 'error-text' : ''}>
-                        Stocks : {entry.stocks}
+                      <span className={hasItemError(entry, 'stocks') ? 'error-text' : ''}>
+                        {t('history.stocks', { count: entry.stocks })}
                       </span>
-                      <span className={!entry.isValid && entry.errors.some(e => e.includes('Barrels')) ? 'error-text' : ''}>
-                        Barrels : {entry.barrels}
+                      <span className={hasItemError(entry, 'barrels') ? 'error-text' : ''}>
+                        {t('history.barrels', { count: entry.barrels })}
                       </span>
-                      <span className="history-item-commission">ค่าคอมมิชชั่น : {entry.commission} ฿</span>
+                      <span className="history-item-commission">{t('history.commission', { amount: currency(entry.commission) })}</span>
                     </div>
                     {!entry.isValid && (
-                      <div className="history-item-error-msg">ข้อมูลไม่ถูกต้อง</div>
+                      <div className="history-item-error-msg" title={entry.errors.map(te).join(', ')}>{t('common.invalidData')}</div>
+                    )}
+                    {entry.calculatedOffline && (
+                      <div className="history-item-offline-msg">{t('history.offline')}</div>
+                    )}
+                    {entry.isValid && <EntryStatusLine entry={entry} />}
+                    {entry.revisions && entry.revisions.length > 0 && (
+                      <details className="history-item-revisions">
+                        <summary>{t('history.revisions', { count: entry.revisions.length })}</summary>
+                        <ul>
+                          {entry.revisions.map((revision, index) => (
+                            <li key={index}>
+                              {dateTime(revision.changedAt)} · {revision.changedBy === CHANGED_BY_SERVER_VERIFICATION ? t('history.changedByServer') : revision.name ?? t('history.changedByUser')} · {t('history.previousValues', {
+                                name: revision.previous.name,
+                                date: revision.previous.date,
+                                locks: revision.previous.locks,
+                                stocks: revision.previous.stocks,
+                                barrels: revision.previous.barrels,
+                                commission: currency(revision.previous.commission)
+                              })}
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
                     )}
                   </div>
                   <div className="history-item-right">
+                    {canChangeStatus(user, entry, 'submitted') && (
+                      <button
+                        className="btn-clear-all btn-import"
+                        onClick={() => handleChangeStatus([entry], 'submitted')}
+                        title={t('history.submitTitle')}
+                        disabled={isLoading}
+                      >
+                        {t('history.submit')}
+                      </button>
+                    )}
+                    {statusOf(entry) === 'submitted' && canChangeStatus(user, entry, 'draft') && (
+                      <button
+                        className="btn-clear-all"
+                        onClick={() => handleChangeStatus([entry], 'draft')}
+                        title={t('history.withdrawTitle')}
+                        disabled={isLoading}
+                      >
+                        {t('history.withdraw')}
+                      </button>
+                    )}
+                    <button
+                      className="btn-edit"
+                      onClick={() => handleEditEntry(entry)}
+                      title={isFrozen(entry) ? frozenTitle(entry) : t('history.edit')}
+                      aria-label={t('history.editEntry', { id: entry.number })}
+                      disabled={isLoading || isFrozen(entry)}
+                    >
+                      <svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                        <path d="M12 20h9"></path>
+                        <path d="M16.5 3.5a2.121 2.121 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z"></path>
+                      </svg>
+                    </button>
                     <button 
                       className="btn-delete" 
                       onClick={() => handleDeleteEntry(entry.id)}
-                      title="ลบรายการนี้"
+                      title={isFrozen(entry) ? frozenTitle(entry) : t('history.moveToTrash')}
+                      aria-label={t('history.moveEntryToTrash', { id: entry.number })}
+                      disabled={isLoading || isFrozen(entry)}
                     >
-                      <svg xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                      <svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" width="18" height="18" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
                         <polyline points="3 6 5 6 21 6"></polyline>
                         <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path>
                       </svg>
@@ -310,19 +686,26 @@ export default function Home() {
                 </div>
               ))}
             </div>
+            <Pagination
+              page={historyPage.page}
+              pageCount={historyPage.pageCount}
+              onChange={(page) => updateQuery({ page: query.page, historyPage: page })}
+              label={t('pagination.history')}
+            />
           </div>
         </>
       ) : (
         <div className="empty-state">
           <div className="empty-state-icon">
-            <svg xmlns="http://www.w3.org/2000/svg" width="64" height="64" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
+            <svg aria-hidden="true" xmlns="http://www.w3.org/2000/svg" width="64" height="64" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round">
               <circle cx="12" cy="12" r="10"></circle>
               <polyline points="12 6 12 12 16 14"></polyline>
             </svg>
           </div>
-          <p className="empty-state-text">ประวัติการคำนวณจะโชว์หลังจากการคำนวณ</p>
+          <p className="empty-state-text">{t('common.emptyHistory')}</p>
         </div>
       )}
+      <UndoToast lastAction={lastAction} onUndo={undo} onRedo={redo} onDismiss={dismissLastAction} />
     </div>
   );
 }
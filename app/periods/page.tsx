@@ -0,0 +1,112 @@
+'use client';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { AppError } from '../lib/types';
+import { CommissionPlan, DEFAULT_PLAN, ITEM_KEYS, loadActivePlan } from '../lib/plan';
+import { PeriodGroup, closePeriod, findClosedPeriod, groupByEmployeePeriod } from '../lib/periods';
+import { attainmentPercent, findTarget, targetProgress } from '../lib/targets';
+import { useClosedPeriods } from '../hooks/useClosedPeriods';
+import { useHistory } from '../hooks/useHistory';
+import { useTargets } from '../hooks/useTargets';
+import { useI18n } from '../components/I18nProvider';
+export default function MonthlyPeriods() {
+  const { entries } = useHistory();
+  const { t, te, currency, number } = useI18n();
+  const [plan, setPlan] = useState<CommissionPlan>(DEFAULT_PLAN);
+  const { closedPeriods, closePeriods } = useClosedPeriods();
+  const [errors, setErrors] = useState<AppError[]>([]);
+  const [isClosing, setIsClosing] = useState(false);
+  const { targets } = useTargets();
+  useEffect(() => {
+    loadActivePlan().then(setPlan);
+  }, []);
+  const groups = groupByEmployeePeriod(entries);
+  const periods = [...new Set(groups.map(group => group.period))];
+  const closedFor = (group: PeriodGroup) => findClosedPeriod(closedPeriods, group);
+  // ปิดงวดที่เซิร์ฟเวอร์ เพื่อให้ทุกเครื่องและเซิร์ฟเวอร์ล็อกรายการในงวดนั้น
+  const handleClose = async (toClose: PeriodGroup[]) => {
+    const open = toClose.filter(group => !closedFor(group));
+    if (open.length === 0) return;
+    setIsClosing(true);
+    try {
+      setErrors(await closePeriods(open.map(group => closePeriod(group, plan))));
+    } finally {
+      setIsClosing(false);
+    }
+  };
+  return (
+    <div className="calculator-container report-container">
+      <Link href="/" className="back-link">{t('common.backToCalculator')}</Link>
+      <h1 className="calculator-title">{t('periods.title')}</h1>
+      <p className="text-muted">{t('periods.description')}</p>
+      {errors.length > 0 && (
+        <div className="field-error-message" role="alert">
+          {errors.map((error) => <div key={te(error)}>{te(error)}</div>)}
+        </div>
+      )}
+      {periods.length === 0 && <p className="empty-state-text">{t('common.noValidEntries')}</p>}
+      {periods.map((period) => {
+        const periodGroups = groups.filter(group => group.period === period);
+        const allClosed = periodGroups.every(group => closedFor(group));
+        return (
+          <section key={period} className="period-section">
+            <div className="history-header">
+              <span className="history-title">{t('periods.period', { period })}</span>
+              <button className="btn-clear-all btn-import" onClick={() => handleClose(periodGroups)} disabled={allClosed || isClosing}>
+                {allClosed ? t('periods.allClosed') : t('periods.closeMonth')}
+              </button>
+            </div>
+            <table className="results-table report-table">
+              <thead>
+                <tr>
+                  <th>{t('common.employeeName')}</th>
+                  <th>{t('common.entries')}</th>
+                  {ITEM_KEYS.map(key => <th key={key}>{plan.items[key].label}</th>)}
+                  <th>{t('common.totalSales')}</th>
+                  <th>{t('periods.monthlyCommission')}</th>
+                  <th>{t('targets.target')}</th>
+                  <th>{t('targets.attainment')}</th>
+                  <th>{t('targets.bonus')}</th>
+                  <th>{t('targets.totalWithBonus')}</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {periodGroups.map((group) => {
+                  const closed = closedFor(group);
+                  const preview = closed ?? closePeriod(group, plan);
+                  const target = findTarget(targets, group);
+                  const progress = target && targetProgress(group.sales, target);
+                  return (
+                    <tr key={group.employeeKey} className={progress?.attained ? 'target-attained' : undefined}>
+                      <td>{group.name}</td>
+                      <td>{group.entries.length}</td>
+                      <td>{group.locks}</td>
+                      <td>{group.stocks}</td>
+                      <td>{group.barrels}</td>
+                      <td>{currency(preview.sales)}</td>
+                      <td>{currency(preview.commission)}</td>
+                      <td>{progress ? currency(progress.target.target) : t('targets.noTarget')}</td>
+                      <td>{progress ? t('targets.attainmentValue', { percent: number(attainmentPercent(progress)) }) : '-'}</td>
+                      <td>{progress ? currency(progress.bonus) : '-'}</td>
+                      <td>{currency(preview.commission + (progress?.bonus ?? 0))}</td>
+                      <td>
+                        {closed ? (
+                          <span className="period-closed" title={closed.closedAt}>{t('periods.closed')}</span>
+                        ) : (
+                          <button className="btn-export" onClick={() => handleClose([group])} disabled={isClosing}>
+                            {t('periods.close')}
+                          </button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </section>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+'use client';
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+import {
+  CommissionPlan,
+  CommissionTier,
+  DEFAULT_PLAN,
+  ITEM_KEYS,
+  ItemKey,
+  PlanItem,
+  clearStoredPlan,
+  loadActivePlan,
+  storePlan,
+  validatePlan
+} from '../lib/plan';
+import { saveCommissionPlan } from '../lib/api';
+import { downloadBlob } from '../lib/export';
+import { errorMessage } from '../lib/errors';
+import { Message, message } from '../lib/i18n';
+import { useI18n } from '../components/I18nProvider';
+export default function PlanEditor() {
+  const [draft, setDraft] = useState<CommissionPlan>(DEFAULT_PLAN);
+  const [errors, setErrors] = useState<Message[]>([]);
+  const [notice, setNotice] = useState<Message | null>(null);
+  const { t, tm } = useI18n();
+  const [isSaving, setIsSaving] = useState(false);
+  useEffect(() => {
+    loadActivePlan().then(setDraft);
+  }, []);
+  const updateItem = (key: ItemKey, field: keyof PlanItem, value: string) => {
+    setDraft(prev => ({
+      ...prev,
+      items: {
+        ...prev.items,
+        [key]: { ...prev.items[key], [field]: field === 'label' ? value : Number(value) }
+      }
+    }));
+  };
+  const updateTier = (index: number, field: keyof CommissionTier, value: string) => {
+    setDraft(prev => ({
+      ...prev,
+      tiers: prev.tiers.map((tier, i) => {
+        if (i !== index) return tier;
+        if (field === 'rate') return { ...tier, rate: Number(value) / 100 };
+        return { ...tier, upTo: value === '' ? null : Number(value) };
+      })
+    }));
+  };
+  const handleAddTier = () => {
+    setDraft(prev => {
+      const bounded = prev.tiers.slice(0, -1);
+      const last = prev.tiers[prev.tiers.length - 1];
+      const previousUpTo = bounded.length > 0 ? bounded[bounded.length - 1].upTo ?? 0 : 0;
+      return {
+        ...prev,
+        tiers: [...bounded, { upTo: previousUpTo + 1000, rate: last.rate }, { upTo: null, rate: last.rate }]
+      };
+    });
+  };
+  const handleRemoveTier = (index: number) => {
+    setDraft(prev => {
+      const tiers = prev.tiers.filter((_, i) => i !== index);
+      if (tiers.length > 0) tiers[tiers.length - 1] = { ...tiers[tiers.length - 1], upTo: null };
+      return { ...prev, tiers };
+    });
+  };
+  const handleSave = async () => {
+    const planErrors = validatePlan(draft);
+    setErrors(planErrors);
+    setNotice(null);
+    if (planErrors.length > 0) return;
+    setIsSaving(true);
+    try {
+      const response = await saveCommissionPlan(draft);
+      storePlan(draft);
+      if (response.success) {
+        setNotice(message('planEditor.saved'));
+      } else if (response.networkError) {
+        setNotice(message('planEditor.savedLocally'));
+      } else {
+        setErrors(response.errors?.map(errorMessage) ?? [message('errors.unknownServer')]);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+  const handleImport = async (file: File) => {
+    setNotice(null);
+    try {
+      const imported = JSON.parse(await file.text());
+      const planErrors = validatePlan(imported);
+      setErrors(planErrors);
+      if (planErrors.length === 0) {
+        setDraft(imported);
+        setNotice(message('planEditor.imported', { file: file.name }));
+      }
+    } catch {
+      setErrors([message('plan.invalidJson')]);
+    }
+  };
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(draft, null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `commission-plan-${draft.id}.json`);
+  };
+  const handleResetDefault = () => {
+    clearStoredPlan();
+    setDraft(DEFAULT_PLAN);
+    setErrors([]);
+    setNotice(message('planEditor.resetDone'));
+  };
+  return (
+    <div className="calculator-container">
+      <h1 className="calculator-title">{t('planEditor.title')}</h1>
+      <Link href="/" className="back-link">{t('common.backToCalculator')}</Link>
+      <div className="form-group">
+        <label className="form-label">{t('planEditor.id')}</label>
+        <input
+          type="text"
+          className="form-input"
+          value={draft.id}
+          onChange={(e) => setDraft(prev => ({ ...prev, id: e.target.value }))}
+        />
+      </div>
+      <div className="form-group">
+        <label className="form-label">{t('planEditor.name')}</label>
+        <input
+          type="text"
+          className="form-input"
+          value={draft.name}
+          onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+        />
+      </div>
+      <h2 className="section-title">{t('planEditor.items')}</h2>
+      <table className="results-table plan-table">
+        <thead>
+          <tr>
+            <th>{t('planEditor.label')}</th>
+            <th>{t('planEditor.unitPrice')}</th>
+            <th>{t('planEditor.min')}</th>
+            <th>{t('planEditor.max')}</th>
+          </tr>
+        </thead>
+        <tbody>
+          {ITEM_KEYS.map((key) => (
+            <tr key={key}>
+              <td>
+                <input className="form-input" value={draft.items[key].label} onChange={(e) => updateItem(key, 'label', e.target.value)} />
+              </td>
+              <td>
+                <input type="number" className="form-input" value={draft.items[key].unitPrice} onChange={(e) => updateItem(key, 'unitPrice', e.target.value)} />
+              </td>
+              <td>
+                <input type="number" className="form-input" value={draft.items[key].min} onChange={(e) => updateItem(key, 'min', e.target.value)} />
+              </td>
+              <td>
+                <input type="number" className="form-input" value={draft.items[key].max} onChange={(e) => updateItem(key, 'max', e.target.value)} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <h2 className="section-title">{t('planEditor.tiers')}</h2>
+      <table className="results-table plan-table">
+        <thead>
+          <tr>
+            <th>{t('planEditor.upTo')}</th>
+            <th>{t('planEditor.rate')}</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {draft.tiers.map((tier, index) => {
+            const isLast = index === draft.tiers.length - 1;
+            return (
+              <tr key={index}>
+                <td>
+                  {isLast ? (
+                    <span className="text-muted">{t('planEditor.remainder')}</span>
+                  ) : (
+                    <input type="number" className="form-input" value={tier.upTo ?? ''} onChange={(e) => updateTier(index, 'upTo', e.target.value)} />
+                  )}
+                </td>
+                <td>
+                  <input type="number" className="form-input" value={Number((tier.rate * 100).toFixed(4))} onChange={(e) => updateTier(index, 'rate', e.target.value)} />
+                </td>
+                <td>
+                  {draft.tiers.length > 1 && (
+                    <button className="btn-clear-all" onClick={() => handleRemoveTier(index)}>{t('planEditor.removeTier')}</button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <button className="btn-clear-all btn-add-tier" onClick={handleAddTier}>{t('planEditor.addTier')}</button>
+      {errors.length > 0 && (
+        <div className="field-error-message">
+          {errors.map((error) => <div key={tm(error)}>{tm(error)}</div>)}
+        </div>
+      )}
+      {notice && <div className="info-message">{tm(notice)}</div>}
+      <div className="button-group">
+        <button className="btn btn-calculate" onClick={handleSave} disabled={isSaving}>
+          {isSaving ? t('planEditor.saving') : t('planEditor.save')}
+        </button>
+        <button className="btn btn-reset" onClick={handleResetDefault} disabled={isSaving}>
+          {t('planEditor.resetDefault')}
+        </button>
+      </div>
+      <div className="button-group">
+        <label className="btn btn-reset">
+          {t('planEditor.importJson')}
+          <input
+            type="file"
+            accept="application/json,.json"
+            hidden
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <button className="btn btn-reset" onClick={handleExport}>{t('planEditor.exportJson')}</button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+'use client';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { Entry } from '../lib/types';
+import { loadEntries } from '../lib/storage';
+import { visibleEntries } from '../lib/auth';
+import { loadCachedEmployees } from '../lib/employees';
+import { CommissionPlan, DEFAULT_PLAN, ITEM_KEYS, loadActivePlan } from '../lib/plan';
+import { summarizeByEmployee, totalOf } from '../lib/export';
+import { targetProgresses } from '../lib/targets';
+import { useTargets } from '../hooks/useTargets';
+import { useClosedPeriods } from '../hooks/useClosedPeriods';
+import { useI18n } from '../components/I18nProvider';
+import TargetProgressTable from '../components/TargetProgressTable';
+import ProvisionalTag from '../components/ProvisionalTag';
+import { useSession } from '../components/SessionProvider';
+export default function PayoutReport() {
+  const { user } = useSession();
+  const [entries] = useState<Entry[]>(() => visibleEntries(user, loadEntries(), loadCachedEmployees()));
+  const [printedAt] = useState(() => new Date());
+  const [plan, setPlan] = useState<CommissionPlan>(DEFAULT_PLAN);
+  useEffect(() => {
+    loadActivePlan().then(setPlan);
+  }, []);
+  const { closedPeriods } = useClosedPeriods();
+  const summaries = summarizeByEmployee(entries, closedPeriods, plan);
+  const total = totalOf(summaries);
+  const { targets } = useTargets();
+  const progresses = targetProgresses(targets, entries);
+  const { t, currency, number: formatNumber, date } = useI18n();
+  return (
+    <div className="calculator-container report-container">
+      <div className="no-print">
+        <Link href="/" className="back-link">{t('common.backToCalculator')}</Link>
+      </div>
+      <h1 className="calculator-title">{t('report.title')}</h1>
+      <div className="report-meta">
+        <span>{t('report.employeeCount', { count: formatNumber(summaries.length) })}</span>
+        <span>{t('report.printedAt', { date: date(printedAt) })}</span>
+      </div>
+      {summaries.length > 0 ? (
+        <table className="results-table report-table">
+          <thead>
+            <tr>
+              <th>{t('common.employeeName')}</th>
+              <th>{t('report.entryCount')}</th>
+              {ITEM_KEYS.map(key => <th key={key}>{plan.items[key].label}</th>)}
+              <th>{t('common.sales')}</th>
+              <th>{t('common.commission')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summaries.map((summary) => (
+              <tr key={summary.name}>
+                <td>{summary.name}</td>
+                <td>{formatNumber(summary.entries)}</td>
+                <td>{formatNumber(summary.locks)}</td>
+                <td>{formatNumber(summary.stocks)}</td>
+                <td>{formatNumber(summary.barrels)}</td>
+                <td>{currency(summary.sales)}</td>
+                <td>
+                  {currency(summary.commission)}
+                  <ProvisionalTag provisional={summary.provisional} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <td>{t('report.grandTotal')}</td>
+              <td>{formatNumber(total.entries)}</td>
+              <td>{formatNumber(total.locks)}</td>
+              <td>{formatNumber(total.stocks)}</td>
+              <td>{formatNumber(total.barrels)}</td>
+              <td>{currency(total.sales)}</td>
+              <td>
+                {currency(total.commission)}
+                <ProvisionalTag provisional={total.provisional} />
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      ) : (
+        <p className="empty-state-text">{t('common.noValidEntries')}</p>
+      )}
+      {progresses.length > 0 && (
+        <section className="dashboard-section">
+          <span className="history-title">{t('report.targets')}</span>
+          <TargetProgressTable progresses={progresses} />
+        </section>
+      )}
+      <div className="report-signatures">
+        <div>{t('report.preparedBy')}</div>
+        <div>{t('report.approvedBy')}</div>
+        <div>{t('report.accounting')}</div>
+      </div>
+      <div className="button-group no-print">
+        <button className="btn btn-calculate" onClick={() => window.print()} disabled={summaries.length === 0}>
+          {t('report.print')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { CommissionPlan, DEFAULT_PLAN, ITEM_KEYS, ItemKey, loadActivePlan } from '../lib/plan';
+import { Quantities, minimumQuantities, simulate } from '../lib/simulator';
+import { useI18n } from '../components/I18nProvider';
+export default function WhatIfSimulator() {
+  const { t, currency, number } = useI18n();
+  const [plan, setPlan] = useState<CommissionPlan>(DEFAULT_PLAN);
+  const [quantities, setQuantities] = useState<Quantities>(() => minimumQuantities(DEFAULT_PLAN));
+  useEffect(() => {
+    // โหลดแผนครั้งเดียว หลังจากนั้นคำนวณในเครื่องทุกครั้งที่เลื่อน slider
+    loadActivePlan().then((active) => {
+      setPlan(active);
+      setQuantities(minimumQuantities(active));
+    });
+  }, []);
+  const { sales, commission, tier, next } = simulate(quantities, plan);
+  const percent = (rate: number) => number(Math.round(rate * 10000) / 100);
+  const setQuantity = (key: ItemKey, value: number) => setQuantities(prev => ({ ...prev, [key]: value }));
+  const applyMix = (mix: Quantities) =>
+    setQuantities(prev => ({
+      locks: prev.locks + mix.locks,
+      stocks: prev.stocks + mix.stocks,
+      barrels: prev.barrels + mix.barrels
+    }));
+  return (
+    <div className="calculator-container">
+      <Link href="/" className="back-link">{t('common.backToCalculator')}</Link>
+      <h1 className="calculator-title">{t('simulator.title')}</h1>
+      <p className="text-muted">{t('simulator.description')}</p>
+      {ITEM_KEYS.map((key) => {
+        const item = plan.items[key];
+        return (
+          <div className="form-group simulator-slider" key={key}>
+            <label className="form-label" htmlFor={`simulator-${key}`}>
+              {item.label}
+              <span className="simulator-slider-value">{quantities[key]}</span>
+            </label>
+            <input
+              id={`simulator-${key}`}
+              type="range"
+              min={item.min}
+              max={item.max}
+              step={1}
+              value={quantities[key]}
+              onChange={(e) => setQuantity(key, Number(e.target.value))}
+            />
+            <div className="simulator-slider-limits">
+              <span>{item.min}</span>
+              <span>{currency(item.unitPrice)}</span>
+              <span>{item.max}</span>
+            </div>
+          </div>
+        );
+      })}
+      <div className="summary-cards" aria-live="polite">
+        <div className="summary-card">
+          <span className="summary-card-label">{t('common.sales')}</span>
+          <span className="summary-card-value">{currency(sales)}</span>
+        </div>
+        <div className="summary-card">
+          <span className="summary-card-label">{t('common.commission')}</span>
+          <span className="summary-card-value">{currency(commission)}</span>
+        </div>
+        <div className="summary-card">
+          <span className="summary-card-label">{t('simulator.currentTier')}</span>
+          <span className="summary-card-value">
+            {t('simulator.tierValue', { tier: tier.index + 1, count: plan.tiers.length, rate: percent(tier.rate) })}
+          </span>
+        </div>
+      </div>
+      <section className="simulator-next">
+        {next ? (
+          <>
+            <span className="history-title">{t('simulator.nextTier', { rate: percent(next.rate) })}</span>
+            <p>{t('simulator.remaining', { amount: currency(next.remaining), boundary: currency(next.boundary) })}</p>
+            {next.mix ? (
+              <>
+                <span className="summary-card-label">{t('simulator.cheapestMix')}</span>
+                <div className="simulator-mix">
+                  {ITEM_KEYS.filter(key => next.mix![key] > 0).map(key => (
+                    <span key={key} className="simulator-mix-item">
+                      {t('simulator.mixItem', { count: next.mix![key], label: plan.items[key].label })}
+                    </span>
+                  ))}
+                </div>
+                <p className="text-muted">
+                  {t('simulator.mixResult', { sales: currency(next.mixSales), commission: currency(next.mixCommission) })}
+                </p>
+                <button className="btn-clear-all btn-import" onClick={() => applyMix(next.mix!)}>
+                  {t('simulator.applyMix')}
+                </button>
+              </>
+            ) : (
+              <p className="text-muted">{t('simulator.unreachable')}</p>
+            )}
+          </>
+        ) : (
+          <span className="history-title">{t('simulator.topTier')}</span>
+        )}
+      </section>
+      <div className="button-group">
+        <button className="btn btn-reset" onClick={() => setQuantities(minimumQuantities(plan))}>
+          {t('simulator.reset')}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+'use client';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { AppError, Employee, SalesTarget } from '../lib/types';
+import { canCalculateFor } from '../lib/auth';
+import { displayName, loadCachedEmployees, loadEmployees } from '../lib/employees';
+import { employeeKey, groupByEmployeePeriod, todayIso } from '../lib/periods';
+import { attainmentPercent, findTarget, targetProgress, validateTarget } from '../lib/targets';
+import { errorMessage } from '../lib/errors';
+import { Message, message } from '../lib/i18n';
+import { useHistory } from '../hooks/useHistory';
+import { useTargets } from '../hooks/useTargets';
+import { useI18n } from '../components/I18nProvider';
+import { useSession } from '../components/SessionProvider';
+interface TargetRow {
+  employeeKey: string;
+  employeeId?: string;
+  name: string;
+  sales: number;
+}
+interface TargetDraft {
+  target: string;
+  rate: string;
+}
+const withoutKey = <T,>(record: Record<string, T>, key: string): Record<string, T> =>
+  Object.fromEntries(Object.entries(record).filter(([k]) => k !== key));
+export default function SalesTargets() {
+  const { user } = useSession();
+  const { entries } = useHistory();
+  const { t, tm, currency, number } = useI18n();
+  const [directory, setDirectory] = useState<Employee[]>(loadCachedEmployees);
+  const { targets, saveTarget, deleteTarget } = useTargets();
+  const [period, setPeriod] = useState(() => todayIso().slice(0, 7));
+  const [drafts, setDrafts] = useState<Record<string, TargetDraft>>({});
+  const [errors, setErrors] = useState<Record<string, Message[]>>({});
+  const [notice, setNotice] = useState<Message | null>(null);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  useEffect(() => {
+    loadEmployees().then(setDirectory);
+  }, []);
+  const groups = groupByEmployeePeriod(entries).filter(group => group.period === period);
+  // พนักงานในทะเบียนที่ดูแลได้ และชื่อที่มียอดขายในงวดนี้แต่ไม่อยู่ในทะเบียน
+  const employees = user ? directory.filter(employee => canCalculateFor(user, employee)) : [];
+  const rows: TargetRow[] = [
+    ...employees.map(employee => ({ employeeId: employee.id, name: displayName(employee) })),
+    ...groups.filter(group => !group.employeeId || !employees.some(employee => employee.id === group.employeeId))
+  ].map(({ employeeId, name }) => {
+    const key = employeeKey({ employeeId, name });
+    return { employeeKey: key, employeeId, name, sales: groups.find(group => group.employeeKey === key)?.sales ?? 0 };
+  });
+  const targetFor = (row: TargetRow) => findTarget(targets, { ...row, period });
+  const draftFor = (row: TargetRow): TargetDraft => {
+    const saved = targetFor(row);
+    return (
+      drafts[row.employeeKey] ?? {
+        target: saved ? String(saved.target) : '',
+        rate: saved?.acceleratorRate !== undefined ? String(Number((saved.acceleratorRate * 100).toFixed(4))) : ''
+      }
+    );
+  };
+  const updateDraft = (row: TargetRow, field: keyof TargetDraft, value: string) => {
+    setDrafts(prev => ({ ...prev, [row.employeeKey]: { ...draftFor(row), [field]: value } }));
+  };
+  // เป้าถูกบันทึกที่เซิร์ฟเวอร์ พนักงานและผู้จัดการทุกเครื่องจึงเห็นเป้าเดียวกัน
+  const send = async (row: TargetRow, request: () => Promise<AppError[]>, done: Message | null) => {
+    setSavingKey(row.employeeKey);
+    try {
+      const failed = await request();
+      if (failed.length > 0) {
+        setErrors(prev => ({ ...prev, [row.employeeKey]: failed.map(errorMessage) }));
+        setNotice(null);
+        return;
+      }
+      setDrafts(prev => withoutKey(prev, row.employeeKey));
+      setErrors(prev => withoutKey(prev, row.employeeKey));
+      setNotice(done);
+    } finally {
+      setSavingKey(null);
+    }
+  };
+  const handleSave = (row: TargetRow) => {
+    const draft = draftFor(row);
+    const target: SalesTarget = {
+      employeeKey: row.employeeKey,
+      name: row.name,
+      period,
+      target: draft.target.trim() === '' ? NaN : Number(draft.target),
+      ...(draft.rate.trim() !== '' && { acceleratorRate: Number(draft.rate) / 100 })
+    };
+    const problems = validateTarget(target);
+    if (problems.length > 0) {
+      setErrors(prev => ({ ...prev, [row.employeeKey]: problems }));
+      setNotice(null);
+      return;
+    }
+    void send(row, () => saveTarget(target), message('targets.saved', { name: row.name }));
+  };
+  const handleRemove = (row: TargetRow) => {
+    const saved = targetFor(row);
+    if (saved) void send(row, () => deleteTarget(saved), null);
+  };
+  return (
+    <div className="calculator-container report-container">
+      <Link href="/" className="back-link">{t('common.backToCalculator')}</Link>
+      <h1 className="calculator-title">{t('targets.title')}</h1>
+      <p className="text-muted">{t('targets.description')}</p>
+      <div className="form-group">
+        <label className="form-label" htmlFor="target-period">{t('targets.period')}</label>
+        <input
+          id="target-period"
+          type="month"
+          className="form-input"
+          value={period}
+          onChange={(e) => e.target.value && setPeriod(e.target.value)}
+        />
+      </div>
+      {rows.length === 0 ? (
+        <p className="empty-state-text">{t('targets.noEmployees')}</p>
+      ) : (
+        <table className="results-table report-table">
+          <thead>
+            <tr>
+              <th>{t('common.employeeName')}</th>
+              <th>{t('common.totalSales')}</th>
+              <th>{t('targets.target')}</th>
+              <th>{t('targets.acceleratorRate')}</th>
+              <th>{t('targets.attainment')}</th>
+              <th>{t('targets.bonus')}</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => {
+              const saved = targetFor(row);
+              const progress = saved && targetProgress(row.sales, saved);
+              const draft = draftFor(row);
+              const rowErrors = errors[row.employeeKey] ?? [];
+              return (
+                <tr key={row.employeeKey} className={progress?.attained ? 'target-attained' : undefined}>
+                  <td>{row.name}</td>
+                  <td>{currency(row.sales)}</td>
+                  <td>
+                    <input
+                      type="number"
+                      min="0"
+                      className="form-input"
+                      aria-label={`${t('targets.target')} ${row.name}`}
+                      value={draft.target}
+                      onChange={(e) => updateDraft(row, 'target', e.target.value)}
+                    />
+                    {rowErrors.map((error) => (
+                      <div key={tm(error)} className="field-error-message">{tm(error)}</div>
+                    ))}
+                  </td>
+                  <td>
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      className="form-input"
+                      aria-label={`${t('targets.acceleratorRate')} ${row.name}`}
+                      value={draft.rate}
+                      onChange={(e) => updateDraft(row, 'rate', e.target.value)}
+                    />
+                  </td>
+                  <td>
+                    {progress ? (
+                      <span className="target-attainment">
+                        {t('targets.attainmentValue', { percent: number(attainmentPercent(progress)) })}
+                      </span>
+                    ) : (
+                      <span className="text-muted">{t('targets.noTarget')}</span>
+                    )}
+                  </td>
+                  <td>{progress ? currency(progress.bonus) : '-'}</td>
+                  <td>
+                    <button className="btn-export" onClick={() => handleSave(row)} disabled={savingKey === row.employeeKey}>
+                      {t('targets.save')}
+                    </button>
+                    {saved && (
+                      <button className="btn-export" onClick={() => handleRemove(row)} disabled={savingKey === row.employeeKey}>
+                        {t('targets.remove')}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+      {notice && <div className="info-message">{tm(notice)}</div>}
+    </div>
+  );
+}
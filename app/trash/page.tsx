@@ -0,0 +1,75 @@
+'use client';
+import Link from 'next/link';
+import { isEntryLocked } from '../lib/periods';
+import { useClosedPeriods } from '../hooks/useClosedPeriods';
+import { useHistory } from '../hooks/useHistory';
+import { useUndoShortcuts } from '../hooks/useUndoShortcuts';
+import UndoToast from '../components/UndoToast';
+import { useI18n } from '../components/I18nProvider';
+export default function Trash() {
+  const { closedPeriods } = useClosedPeriods();
+  const { trash, restoreEntries, purgeTrash, undo, redo, lastAction, dismissLastAction } = useHistory();
+  const { t, currency, dateTime } = useI18n();
+  useUndoShortcuts(undo, redo);
+  const handlePurge = (ids?: string[]) => {
+    const count = ids ? ids.length : trash.length;
+    if (!window.confirm(t('trash.confirmPurge', { count }))) return;
+    purgeTrash(ids);
+  };
+  return (
+    <div className="calculator-container">
+      <Link href="/" className="back-link">{t('common.backToCalculator')}</Link>
+      <h1 className="calculator-title">{t('trash.title')}</h1>
+      <p className="text-muted">{t('trash.description')}</p>
+      {trash.length > 0 ? (
+        <>
+          <div className="history-header">
+            <span className="history-title">{t('trash.count', { count: trash.length })}</span>
+            <button className="btn-clear-all" onClick={() => handlePurge()}>{t('trash.purgeAll')}</button>
+          </div>
+          <table className="results-table">
+            <thead>
+              <tr>
+                <th>{t('common.entryNo')}</th>
+                <th>{t('common.employeeName')}</th>
+                <th>{t('common.date')}</th>
+                <th>{t('common.sales')}</th>
+                <th>{t('common.commission')}</th>
+                <th>{t('trash.deletedAt')}</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {trash.map(({ entry, deletedAt }) => (
+                <tr key={entry.id} className={!entry.isValid ? 'row-invalid' : ''}>
+                  <td>{entry.number}</td>
+                  <td>{entry.name}</td>
+                  <td>{entry.date}</td>
+                  <td>{entry.isValid ? currency(entry.sales) : t('common.invalidData')}</td>
+                  <td>{entry.isValid ? currency(entry.commission) : '-'}</td>
+                  <td>{dateTime(deletedAt)}</td>
+                  <td>
+                    <div className="trash-actions">
+                      <button
+                        className="btn-clear-all btn-undo"
+                        onClick={() => restoreEntries([entry.id])}
+                        disabled={isEntryLocked(closedPeriods, entry)}
+                        title={isEntryLocked(closedPeriods, entry) ? t('validation.periodClosed', { period: entry.period }) : t('trash.restoreTitle')}
+                      >
+                        {t('trash.restore')}
+                      </button>
+                      <button className="btn-clear-all" onClick={() => handlePurge([entry.id])}>{t('trash.purge')}</button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      ) : (
+        <p className="empty-state-text">{t('trash.empty')}</p>
+      )}
+      <UndoToast lastAction={lastAction} onUndo={undo} onRedo={redo} onDismiss={dismissLastAction} />
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+'use client';
+import { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { fetchUsers, updateUser } from '../lib/api';
+import { ROLES } from '../lib/auth';
+import { Message, message } from '../lib/i18n';
+import { AppError, Role, User } from '../lib/types';
+import { useI18n } from '../components/I18nProvider';
+export default function UserManagement() {
+  const { t, te, tm } = useI18n();
+  const [users, setUsers] = useState<User[]>([]);
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [notice, setNotice] = useState<Message | null>(null);
+  // เก็บ error แบบมีโครงสร้าง เพื่อแปลตามภาษาที่เลือกตอนแสดงผล
+  const [failure, setFailure] = useState<{ key: 'users.loadFailed' | 'users.saveFailed'; name?: string; errors: AppError[] } | null>(null);
+  useEffect(() => {
+    fetchUsers().then((response) => {
+      if (response.success && response.data) setUsers(response.data);
+      else setFailure({ key: 'users.loadFailed', errors: response.errors ?? [] });
+    });
+  }, []);
+  const updateDraft = (id: string, changes: Partial<User>) =>
+    setUsers(prev => prev.map(user => (user.id === id ? { ...user, ...changes } : user)));
+  const handleSave = async (user: User) => {
+    setSavingId(user.id);
+    setNotice(null);
+    setFailure(null);
+    try {
+      const response = await updateUser(user);
+      if (response.success) {
+        if (response.data) updateDraft(user.id, response.data);
+        setNotice(message('users.saved', { name: user.name }));
+      } else {
+        setFailure({ key: 'users.saveFailed', name: user.name, errors: response.errors ?? [] });
+      }
+    } finally {
+      setSavingId(null);
+    }
+  };
+  return (
+    <div className="calculator-container report-container">
+      <Link href="/" className="back-link">{t('common.backToCalculator')}</Link>
+      <h1 className="calculator-title">{t('users.title')}</h1>
+      <p className="text-muted">{t('users.description')}</p>
+      {failure && (
+        <div className="field-error-message">
+          {t(failure.key, { name: failure.name ?? '', errors: failure.errors.map(te).join(', ') })}
+        </div>
+      )}
+      {notice && <div className="info-message">{tm(notice)}</div>}
+      <table className="results-table report-table">
+        <thead>
+          <tr>
+            <th>{t('users.username')}</th>
+            <th>{t('users.name')}</th>
+            <th>{t('users.role')}</th>
+            <th>{t('users.team')}</th>
+            <th>{t('users.employee')}</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {users.map((user) => (
+            <tr key={user.id}>
+              <td>{user.username}</td>
+              <td>{user.name}</td>
+              <td>
+                <select
+                  className="form-input"
+                  value={user.role}
+                  aria-label={t('users.role')}
+                  onChange={(e) => updateDraft(user.id, { role: e.target.value as Role })}
+                >
+                  {ROLES.map(role => (
+                    <option key={role} value={role}>{t(`auth.role.${role}` as const)}</option>
+                  ))}
+                </select>
+              </td>
+              <td>
+                <input
+                  className="form-input"
+                  value={user.team ?? ''}
+                  aria-label={t('users.team')}
+                  onChange={(e) => updateDraft(user.id, { team: e.target.value })}
+                />
+              </td>
+              <td>
+                <input
+                  className="form-input"
+                  value={user.employeeId ?? ''}
+                  aria-label={t('users.employee')}
+                  onChange={(e) => updateDraft(user.id, { employeeId: e.target.value })}
+                />
+              </td>
+              <td>
+                <button className="btn-clear-all btn-import" onClick={() => handleSave(user)} disabled={savingId !== null}>
+                  {t('users.save')}
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
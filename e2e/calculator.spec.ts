@@ -0,0 +1,211 @@
+import { Page, expect, test } from "@playwright/test";
+import type { MockScenario } from "../app/lib/mockApi";
+
+const useScenario = (page: Page, scenario: MockScenario) =>
+  page
+    .context()
+    .addCookies([{ name: "mockScenario", value: scenario, url: page.url() }]);
+
+const fillForm = async (
+  page: Page,
+  name: string,
+  locks: string,
+  stocks: string,
+  barrels: string,
+) => {
+  await page.getByPlaceholder("e.g. Ken or ฐากูร").fill(name);
+  await page.getByPlaceholder("Whole number from 1 to 70").fill(locks);
+  await page.getByPlaceholder("Whole number from 1 to 80").fill(stocks);
+  await page.getByPlaceholder("Whole number from 1 to 90").fill(barrels);
+};
+
+const historyItems = (page: Page) =>
+  page.locator(".history-list .history-item");
+
+// MOCK_PASSWORD in app/lib/mockApi.ts
+const PASSWORD = "demo1234";
+
+// page.request ใช้ cookie ร่วมกับหน้าเว็บ จึงได้เซสชันเดียวกัน
+const signIn = (page: Page, username: string) =>
+  page.request.post("/api/auth/login", {
+    data: { username, password: PASSWORD },
+  });
+
+test.beforeEach(async ({ page, baseURL }) => {
+  await page
+    .context()
+    .addCookies([{ name: "commissionLocale", value: "en", url: baseURL! }]);
+  await signIn(page, "admin");
+  // ล้างประวัติบน mock server ที่ใช้ร่วมกันระหว่าง test
+  await page.request.delete("/api/history");
+  await page.goto("/");
+  await useScenario(page, "success");
+});
+
+test.describe("FR-02: Commission Calculation", () => {
+  test("calculates through the API and keeps the result after a reload", async ({
+    page,
+  }) => {
+    await fillForm(page, "Ken", "10", "10", "10");
+    await page.getByRole("button", { name: "Calculate" }).click();
+
+    const row = page.getByRole("row", { name: /Ken/ });
+    await expect(row).toContainText("฿1,000.00");
+    await expect(row).toContainText("฿100.00");
+
+    await page.reload();
+    await expect(page.getByRole("row", { name: /Ken/ })).toContainText(
+      "฿100.00",
+    );
+  });
+
+  test("falls back to the client-side engine when offline", async ({
+    page,
+    context,
+  }) => {
+    await context.setOffline(true);
+    await fillForm(page, "Ken", "10", "10", "10");
+    await page.getByRole("button", { name: "Calculate" }).click();
+
+    await expect(historyItems(page).first()).toContainText(
+      "Calculated offline",
+    );
+    await context.setOffline(false);
+  });
+});
+
+test.describe("FR-04 & FR-05: Invalid Input", () => {
+  test("shows the field errors and records an invalid entry", async ({
+    page,
+  }) => {
+    await fillForm(page, "John123", "75", "10", "10");
+    await page.getByRole("button", { name: "Calculate" }).click();
+
+    await expect(
+      page.getByText("Name must be Thai or English letters only"),
+    ).toBeVisible();
+    await expect(historyItems(page).first()).toContainText("Invalid data");
+    await expect(historyItems(page).first().locator(".error-text")).toHaveText(
+      "Locks : 75",
+    );
+  });
+});
+
+test.describe("FR-15: Delete and Clear", () => {
+  test("moves deleted entries to the trash and clears the history", async ({
+    page,
+  }) => {
+    for (const name of ["Ken", "Ann"]) {
+      await fillForm(page, name, "10", "10", "10");
+      await page.getByRole("button", { name: "Calculate" }).click();
+      await expect(
+        page.getByRole("row", { name: new RegExp(name) }),
+      ).toBeVisible();
+    }
+
+    await page.getByTitle("Move to trash").first().click();
+    await expect(historyItems(page)).toHaveCount(1);
+    await expect(page.getByRole("link", { name: "Trash (1)" })).toBeVisible();
+
+    await page.getByRole("button", { name: "Clear all history" }).click();
+    await expect(historyItems(page)).toHaveCount(0);
+    await expect(page.getByRole("link", { name: "Trash (2)" })).toBeVisible();
+  });
+});
+
+test.describe("FR-19: Mock API Scenarios", () => {
+  test("highlights the fields rejected by the server", async ({ page }) => {
+    await useScenario(page, "validation");
+    await fillForm(page, "Ken", "10", "10", "10");
+    await page.getByRole("button", { name: "Calculate" }).click();
+
+    await expect(historyItems(page).first().locator(".error-text")).toHaveText(
+      "Locks : 10",
+    );
+  });
+
+  test("records a server failure as an invalid entry", async ({ page }) => {
+    await useScenario(page, "serverError");
+    await fillForm(page, "Ken", "10", "10", "10");
+    await page.getByRole("button", { name: "Calculate" }).click();
+
+    await expect(historyItems(page).first()).toContainText("Invalid data");
+    await expect(page.getByRole("row", { name: /Ken/ })).toHaveCount(0);
+  });
+});
+
+test.describe("FR-21: Authentication and Role-based Access", () => {
+  test("sends a signed-out visitor to the login page and back", async ({
+    page,
+  }) => {
+    await page.getByRole("button", { name: "Sign out" }).click();
+    await page.goto("/dashboard");
+    await expect(page).toHaveURL(/\/login\?next=%2Fdashboard$/);
+
+    await page.getByLabel("Username").fill("north.manager");
+    await page.getByLabel("Password").fill(PASSWORD);
+    await page.getByRole("button", { name: "Sign in" }).click();
+    await expect(page).toHaveURL(/\/dashboard$/);
+  });
+
+  test("shows a rep only their own entries", async ({ page }) => {
+    await fillForm(page, "Ken", "10", "10", "10");
+    await page.getByRole("button", { name: "Calculate" }).click();
+    await expect(historyItems(page)).toHaveCount(1);
+
+    await page.getByRole("button", { name: "Sign out" }).click();
+    await signIn(page, "thakun");
+    await page.goto("/");
+    await expect(page.getByPlaceholder("e.g. Ken or ฐากูร")).toHaveValue(
+      "ฐากูร",
+    );
+    await expect(historyItems(page)).toHaveCount(0);
+    await page.goto("/plan");
+    await expect(page.getByText("cannot open this page")).toBeVisible();
+  });
+});
+
+test.describe("FR-26: Keyboard-first Calculator", () => {
+  test("calculates with Enter and moves focus back to the name", async ({
+    page,
+  }) => {
+    await fillForm(page, "Ken", "10", "10", "10");
+    await page.getByLabel("Barrels").press("Enter");
+
+    await expect(page.getByRole("row", { name: /Ken/ })).toContainText(
+      "฿100.00",
+    );
+    await expect(page.getByPlaceholder("e.g. Ken or ฐากูร")).toBeFocused();
+    await expect(page.getByPlaceholder("e.g. Ken or ฐากูร")).toHaveValue("");
+  });
+});
+
+test.describe("FR-28: Installable App with Offline Outbox", () => {
+  test("serves the manifest and the service worker", async ({ request }) => {
+    const manifest = await (await request.get("/manifest.webmanifest")).json();
+    expect(manifest).toMatchObject({ start_url: "/", display: "standalone" });
+    const worker = await request.get("/sw.js");
+    expect(worker.headers()["cache-control"]).toContain("no-cache");
+  });
+
+  test("verifies an offline calculation once back online", async ({
+    page,
+    context,
+  }) => {
+    await context.setOffline(true);
+    await fillForm(page, "Ken", "10", "10", "10");
+    await page.getByRole("button", { name: "Calculate" }).click();
+    await expect(
+      page.getByText("1 offline calculations to verify"),
+    ).toBeVisible();
+
+    await context.setOffline(false);
+    await expect(
+      page.getByText("1 offline calculations to verify"),
+    ).toBeHidden();
+    await expect(historyItems(page)).toHaveCount(1);
+    await expect(historyItems(page).first()).not.toContainText(
+      "Calculated offline",
+    );
+  });
+});
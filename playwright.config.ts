@@ -0,0 +1,31 @@
+import { defineConfig, devices } from "@playwright/test";
+
+// The app talks to the mock API served by the same Next.js dev server,
+// so the suite runs without a backend or network access
+const PORT = Number(process.env.E2E_PORT) || 3100;
+const BASE_URL = `http://localhost:${PORT}`;
+
+export default defineConfig({
+  testDir: "./e2e",
+  // ทุก test ใช้ mock server ตัวเดียวกัน จึงรันทีละ test
+  workers: 1,
+  fullyParallel: false,
+  forbidOnly: !!process.env.CI,
+  retries: process.env.CI ? 1 : 0,
+  reporter: process.env.CI ? "github" : "list",
+  use: {
+    baseURL: BASE_URL,
+    trace: "retain-on-failure",
+  },
+  projects: [{ name: "chromium", use: { ...devices["Desktop Chrome"] } }],
+  webServer: {
+    command: `npx next dev --port ${PORT}`,
+    url: BASE_URL,
+    timeout: 180_000,
+    reuseExistingServer: !process.env.CI,
+    env: {
+      NEXT_PUBLIC_API_URL: BASE_URL,
+      NEXT_PUBLIC_API_TIMEOUT_MS: "5000",
+    },
+  },
+});
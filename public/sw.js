@@ -0,0 +1,61 @@
+// Service worker: keeps the app shell available offline
+// หน้าเว็บโหลดจากเครือข่ายก่อน ถ้าไม่มีสัญญาณจึงใช้ฉบับที่เก็บไว้ ส่วน API ไม่เก็บ cache
+const CACHE = "commission-shell-v1";
+const SHELL = ["/", "/login", "/manifest.webmanifest", "/icon.svg"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE)
+      .then((cache) => cache.addAll(SHELL))
+      .then(() => self.skipWaiting()),
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys.filter((key) => key !== CACHE).map((key) => caches.delete(key)),
+        ),
+      )
+      .then(() => self.clients.claim()),
+  );
+});
+
+const store = (request, response) => {
+  if (response.ok) {
+    const copy = response.clone();
+    caches.open(CACHE).then((cache) => cache.put(request, copy));
+  }
+  return response;
+};
+
+// ไฟล์ใน /_next/static มีชื่อตาม hash จึงใช้ฉบับที่เก็บไว้ได้เลย
+const cacheFirst = (request) =>
+  caches
+    .match(request)
+    .then((cached) => cached ?? fetch(request).then((r) => store(request, r)));
+
+const networkFirst = (request) =>
+  fetch(request)
+    .then((response) => store(request, response))
+    .catch(() =>
+      caches
+        .match(request, { ignoreSearch: true })
+        .then((cached) => cached ?? Response.error()),
+    );
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== "GET" || url.origin !== self.location.origin) return;
+  if (url.pathname.startsWith("/api/")) return;
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request));
+  } else if (request.mode === "navigate" || SHELL.includes(url.pathname)) {
+    event.respondWith(networkFirst(request));
+  }
+});
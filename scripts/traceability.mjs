@@ -0,0 +1,113 @@
+// Requirement traceability report: which FR-xx requirements each test layer covers
+// อ่านรายการ requirement จาก docs/requirements.json และหา FR-xx ในชื่อ describe ของไฟล์ทดสอบ
+//
+// Usage: node scripts/traceability.mjs [--check]
+//   --check  exit with code 1 when a requirement has no test at all
+import { readFileSync, readdirSync, writeFileSync } from "node:fs";
+import { join, relative } from "node:path";
+
+const ROOT = new URL("..", import.meta.url).pathname;
+const REQUIREMENTS = join(ROOT, "docs/requirements.json");
+const REPORT = join(ROOT, "docs/TRACEABILITY.md");
+
+const LAYERS = [
+  { name: "Unit", matches: (file) => /^app\/lib\/.*\.test\.ts$/.test(file) },
+  {
+    name: "Component",
+    matches: (file) =>
+      /^app\/.*\.test\.tsx?$/.test(file) && !file.startsWith("app/lib/"),
+  },
+  { name: "E2E", matches: (file) => /^e2e\/.*\.spec\.ts$/.test(file) },
+];
+
+const listFiles = (dir) =>
+  readdirSync(join(ROOT, dir), { withFileTypes: true }).flatMap((item) =>
+    item.isDirectory()
+      ? item.name === "node_modules"
+        ? []
+        : listFiles(join(dir, item.name))
+      : [join(dir, item.name)],
+  );
+
+// FR-xx ที่อยู่ในชื่อ describe / test.describe เช่น "FR-03 & FR-04: ..."
+const requirementIdsIn = (source) =>
+  [...source.matchAll(/describe\(\s*(["'`])(.*?)\1/g)].flatMap(
+    ([, , title]) => title.match(/FR-\d+/g) ?? [],
+  );
+
+const requirements = JSON.parse(readFileSync(REQUIREMENTS, "utf8"));
+const testFiles = [...listFiles("app"), ...listFiles("e2e")]
+  .map((file) => relative(ROOT, join(ROOT, file)))
+  .filter((file) => LAYERS.some((layer) => layer.matches(file)))
+  .sort();
+
+// coverage[id][layer] = ไฟล์ทดสอบที่ครอบคลุม
+const coverage = Object.fromEntries(
+  requirements.map(({ id }) => [
+    id,
+    Object.fromEntries(LAYERS.map(({ name }) => [name, []])),
+  ]),
+);
+const unknownIds = new Set();
+for (const file of testFiles) {
+  const layer = LAYERS.find((candidate) => candidate.matches(file)).name;
+  for (const id of new Set(
+    requirementIdsIn(readFileSync(join(ROOT, file), "utf8")),
+  )) {
+    if (coverage[id]) coverage[id][layer].push(file);
+    else unknownIds.add(`${id} (${file})`);
+  }
+}
+
+const cell = (files) =>
+  files.length === 0
+    ? "—"
+    : files
+        .map((file) => `[${file.split("/").pop()}](../${file})`)
+        .join("<br>");
+const uncovered = requirements.filter(({ id }) =>
+  LAYERS.every(({ name }) => coverage[id][name].length === 0),
+);
+
+const lines = [
+  "# Requirement Traceability",
+  "",
+  "Generated by `npm run test:trace` from `docs/requirements.json` and the `FR-xx` ids in test `describe` titles. Do not edit by hand.",
+  "",
+  `| ID | Requirement | ${LAYERS.map(({ name }) => name).join(" | ")} |`,
+  `| --- | --- | ${LAYERS.map(() => "---").join(" | ")} |`,
+  ...requirements.map(
+    ({ id, title }) =>
+      `| ${id} | ${title} | ${LAYERS.map(({ name }) => cell(coverage[id][name])).join(" | ")} |`,
+  ),
+  "",
+  `Covered: ${requirements.length - uncovered.length} of ${requirements.length} requirements.`,
+  ...(uncovered.length > 0
+    ? [
+        "",
+        "Not covered by any test:",
+        "",
+        ...uncovered.map(({ id, title }) => `- ${id} ${title}`),
+      ]
+    : []),
+  ...(unknownIds.size > 0
+    ? [
+        "",
+        "Ids used in tests but missing from docs/requirements.json:",
+        "",
+        ...[...unknownIds].map((id) => `- ${id}`),
+      ]
+    : []),
+  "",
+];
+writeFileSync(REPORT, lines.join("\n"));
+console.log(
+  `Wrote ${relative(ROOT, REPORT)}: ${requirements.length - uncovered.length}/${requirements.length} requirements covered`,
+);
+
+if (
+  process.argv.includes("--check") &&
+  (uncovered.length > 0 || unknownIds.size > 0)
+) {
+  process.exitCode = 1;
+}